@@ -0,0 +1,97 @@
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createAdminRouter } from "../router.js";
+import { InMemoryCache, TTL_FORECAST } from "../../tools/shared/cache/index.js";
+
+const FORECAST_URL = "https://api.open-meteo.com/v1/forecast";
+const MINUTE = 60 * 1000;
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("admin cache routes", () => {
+  let cache: InMemoryCache;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    cache = new InMemoryCache();
+    const app = express();
+    app.use("/admin", createAdminRouter(cache));
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/admin/cache`;
+
+    await cache.set(`${FORECAST_URL}?latitude=1`, { temp: 20 }, { ttlMs: TTL_FORECAST });
+    await cache.set(`${FORECAST_URL}?latitude=2`, { temp: 21 }, { ttlMs: TTL_FORECAST });
+    await cache.set("geocode:denver", { latitude: 39.74 });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    cache.dispose();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("lists keys by prefix with a limit", async () => {
+    const res = await fetch(`${baseUrl}/keys?prefix=${encodeURIComponent(FORECAST_URL)}&limit=1`);
+
+    expect(await res.json()).toEqual({
+      prefix: FORECAST_URL,
+      total: 2,
+      keys: [`${FORECAST_URL}?latitude=1`],
+    });
+  });
+
+  it("rejects an out-of-range limit", async () => {
+    const res = await fetch(`${baseUrl}/keys?limit=0`);
+
+    expect(res.status).toBe(400);
+  });
+
+  it("shows an entry's age and remaining TTL", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await cache.set("geocode:paris", { latitude: 48.85 }, { ttlMs: TTL_FORECAST });
+    vi.advanceTimersByTime(5 * MINUTE);
+
+    const res = await fetch(`${baseUrl}/entry?key=geocode:paris`);
+
+    expect(await res.json()).toMatchObject({
+      key: "geocode:paris",
+      ageSeconds: 300,
+      ttlSeconds: 600,
+      expired: false,
+      value: { latitude: 48.85 },
+    });
+  });
+
+  it("returns 404 for a missing entry", async () => {
+    const res = await fetch(`${baseUrl}/entry?key=geocode:nowhere`);
+
+    expect(res.status).toBe(404);
+  });
+
+  it("deletes a single key", async () => {
+    const res = await fetch(`${baseUrl}/entry?key=geocode:denver`, { method: "DELETE" });
+
+    expect(await res.json()).toEqual({ deleted: true });
+    expect(await cache.has("geocode:denver")).toBe(false);
+  });
+
+  it("deletes by prefix and requires a non-empty prefix", async () => {
+    const missing = await fetch(`${baseUrl}/keys`, { method: "DELETE" });
+    expect(missing.status).toBe(400);
+
+    const res = await fetch(`${baseUrl}/keys?prefix=${encodeURIComponent(FORECAST_URL)}`, { method: "DELETE" });
+    expect(await res.json()).toEqual({ deleted: 2 });
+    expect(await cache.keys()).toEqual(["geocode:denver"]);
+  });
+
+  it("clears the cache and reports stats", async () => {
+    await fetch(baseUrl, { method: "DELETE" });
+
+    const res = await fetch(baseUrl);
+    expect(await res.json()).toMatchObject({ backend: "memory", entries: 0 });
+  });
+});
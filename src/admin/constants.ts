@@ -0,0 +1,9 @@
+/**
+ * admin/constants.ts — Constants for admin module.
+ */
+
+/** Keys returned by a listing when `limit` is not given. */
+export const DEFAULT_KEY_LIMIT = 100;
+
+/** Upper bound on `limit` for a key listing. */
+export const MAX_KEY_LIMIT = 1000;
@@ -0,0 +1,6 @@
+/**
+ * admin/index.ts — Re-exports for admin module.
+ */
+
+export * from "./constants.js";
+export * from "./router.js";
@@ -0,0 +1,107 @@
+/**
+ * admin/router.ts — Cache administration endpoints.
+ *
+ * Lets operators inspect and purge the cache in production without a
+ * restart. Mounted under `/admin` behind `requireScope(config.admin.scope)`.
+ * Keys are passed as query parameters because most of them are URLs.
+ *
+ *   GET    /cache              stats (counters, prewarmed keys)
+ *   GET    /cache/keys         keys by prefix (?prefix=&limit=)
+ *   GET    /cache/entry        one entry with its age and TTL (?key=)
+ *   DELETE /cache/entry        delete one key (?key=)
+ *   DELETE /cache/keys         delete every key with a prefix (?prefix=)
+ *   DELETE /cache              clear the whole cache
+ */
+
+import { Router, type Request, type Response } from "express";
+import { jsonRpcError, JsonRpcErrorCode, logger } from "../shared/index.js";
+import { getCache, type Cache } from "../tools/shared/cache/index.js";
+import { DEFAULT_KEY_LIMIT, MAX_KEY_LIMIT } from "./constants.js";
+
+const log = logger.child({ module: "admin" });
+
+/** Read a string query parameter; repeated parameters are rejected as absent. */
+function queryString(req: Request, name: string): string | undefined {
+  const value = req.query[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/** Respond 400 with a JSON-RPC invalid-params error. */
+function badRequest(res: Response, message: string): void {
+  res.status(400).json(jsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, message));
+}
+
+/**
+ * Create the admin router.
+ *
+ * @param cache - Cache to administer (defaults to the singleton, resolved per request)
+ */
+export function createAdminRouter(cache?: Cache): Router {
+  const router = Router();
+  const target = () => cache ?? getCache();
+
+  router.get("/cache", async (_req, res) => {
+    res.json(await target().stats());
+  });
+
+  router.get("/cache/keys", async (req, res) => {
+    const prefix = queryString(req, "prefix") ?? "";
+    const limit = Number(queryString(req, "limit") ?? DEFAULT_KEY_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_KEY_LIMIT) {
+      return badRequest(res, `limit must be an integer from 1 to ${MAX_KEY_LIMIT}`);
+    }
+
+    const keys = await target().keys(prefix);
+    res.json({ prefix, total: keys.length, keys: keys.slice(0, limit) });
+  });
+
+  router.get("/cache/entry", async (req, res) => {
+    const key = queryString(req, "key");
+    if (!key) return badRequest(res, "key is required");
+
+    const entry = await target().peek(key);
+    if (!entry) {
+      res.status(404).json(jsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, "No such cache entry"));
+      return;
+    }
+
+    const now = Date.now();
+    res.json({
+      key,
+      storedAt: new Date(entry.storedAt).toISOString(),
+      expiresAt: new Date(entry.expiresAt).toISOString(),
+      ageSeconds: Math.round((now - entry.storedAt) / 1000),
+      // Negative once expired (the entry is only kept for stale serving)
+      ttlSeconds: Math.round((entry.expiresAt - now) / 1000),
+      expired: now > entry.expiresAt,
+      value: entry.value,
+    });
+  });
+
+  router.delete("/cache/entry", async (req, res) => {
+    const key = queryString(req, "key");
+    if (!key) return badRequest(res, "key is required");
+
+    const deleted = await target().delete(key);
+    log.info({ key, deleted, clientId: req.auth?.clientId }, "Cache entry deleted by admin");
+    res.json({ deleted });
+  });
+
+  router.delete("/cache/keys", async (req, res) => {
+    // An empty prefix would match everything; clearing is a separate route
+    const prefix = queryString(req, "prefix");
+    if (!prefix) return badRequest(res, "prefix is required");
+
+    const deleted = await target().deletePrefix(prefix);
+    log.info({ prefix, deleted, clientId: req.auth?.clientId }, "Cache keys deleted by admin");
+    res.json({ deleted });
+  });
+
+  router.delete("/cache", async (req, res) => {
+    await target().clear();
+    log.info({ clientId: req.auth?.clientId }, "Cache cleared by admin");
+    res.json({ cleared: true });
+  });
+
+  return router;
+}
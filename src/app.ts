@@ -11,11 +11,15 @@
 import express, { type Express } from "express";
 import cors from "cors";
 import { config } from "./config/index.js";
-import { logger, httpLogger } from "./shared/index.js";
+import { logger, httpLogger, httpMetrics, httpTracing, metricsRegistry } from "./shared/index.js";
 import { jsonRpcError, JsonRpcErrorCode } from "./shared/index.js";
-import { jwtAuth } from "./auth/index.js";
-import { createOAuthRouter } from "./oauth/index.js";
+import { jwtAuth, requireScope } from "./auth/index.js";
+import { createOAuthRouter, SCOPES_SUPPORTED } from "./oauth/index.js";
+import { createAdminRouter } from "./admin/index.js";
+import { checkReadiness } from "./health/index.js";
+import { rateLimit } from "./ratelimit/index.js";
 import { handleMcpRequest } from "./mcp/index.js";
+import { getCircuitStates } from "./tools/shared/circuit-breaker.js";
 
 const log = logger.child({ module: "app" });
 
@@ -32,14 +36,23 @@ export function createApp(): Express {
     cors({
       origin: true,
       methods: ["GET", "POST", "DELETE", "OPTIONS"],
-      allowedHeaders: ["Content-Type", "Authorization", "Mcp-Session-Id"],
-      exposedHeaders: ["Mcp-Session-Id"],
+      allowedHeaders: ["Content-Type", "Authorization", "Mcp-Session-Id", "traceparent", "tracestate"],
+      exposedHeaders: [
+        "Mcp-Session-Id",
+        "RateLimit-Limit",
+        "RateLimit-Remaining",
+        "RateLimit-Reset",
+        "RateLimit-Policy",
+        "Retry-After",
+      ],
       credentials: true,
     })
   );
 
-  // ─── 2. Request Logging ────────────────────────────────────────────────────
+  // ─── 2. Request Tracing, Logging & Metrics ─────────────────────────────────
+  app.use(httpTracing());
   app.use(httpLogger);
+  app.use(httpMetrics());
 
   // ─── 3. Body Parsing ────────────────────────────────────────────────────────
   app.use(express.json());
@@ -50,9 +63,26 @@ export function createApp(): Express {
 
   // ─── 5. Routes ──────────────────────────────────────────────────────────────
 
-  // Health check (public)
+  // Health check (public). Reports "degraded" while any upstream circuit
+  // is open; the server itself is still up, so the status code stays 200.
   app.get("/health", (_req, res) => {
-    res.json({ status: "ok" });
+    const upstreams = getCircuitStates();
+    const degraded = Object.values(upstreams).some((upstream) => upstream.state !== "closed");
+    res.json({ status: degraded ? "degraded" : "ok", upstreams });
+  });
+
+  // Readiness probe (public). Unlike /health, checks that this replica
+  // can serve tool calls, and answers 503 when it can't.
+  app.get("/ready", async (_req, res) => {
+    const report = await checkReadiness();
+    res.status(report.status === "ready" ? 200 : 503).json(report);
+  });
+
+  // Prometheus metrics (public, like /health; keep it off the public
+  // ingress if request and tool counts should not be visible)
+  app.get("/metrics", async (_req, res) => {
+    res.set("Content-Type", metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
   });
 
   // OAuth proxy routes (public)
@@ -68,13 +98,16 @@ export function createApp(): Express {
     res.json({
       resource: config.serverUrl,
       authorization_servers: [config.serverUrl],
-      scopes_supported: ["openid", "profile", "email", "offline_access"],
+      scopes_supported: [...SCOPES_SUPPORTED],
       bearer_methods_supported: ["header"],
     });
   });
 
-  // MCP endpoint (protected)
-  app.all("/mcp", async (req, res) => {
+  // Cache administration (protected, admin scope only)
+  app.use("/admin", requireScope(config.admin.scope), createAdminRouter());
+
+  // MCP endpoint (protected, rate limited per client)
+  app.all("/mcp", rateLimit(), async (req, res) => {
     await handleMcpRequest(req, res);
   });
 
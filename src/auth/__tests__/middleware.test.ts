@@ -11,7 +11,7 @@ vi.mock("jose", () => ({
 }));
 
 // Now import the middleware (it will use the mocked jose)
-const { jwtAuth } = await import("../middleware.js");
+const { jwtAuth, requireScope } = await import("../middleware.js");
 
 // ─── Test Helpers ─────────────────────────────────────────────────────────────
 
@@ -26,10 +26,16 @@ function mockRequest(overrides: Partial<Request> = {}): Request {
 function mockResponse(): Response & {
   _status: number;
   _json: unknown;
+  _headers: Record<string, string>;
 } {
   const res = {
     _status: 0,
     _json: null,
+    _headers: {} as Record<string, string>,
+    set(name: string, value: string) {
+      res._headers[name] = value;
+      return res;
+    },
     status(code: number) {
       res._status = code;
       return res;
@@ -39,7 +45,11 @@ function mockResponse(): Response & {
       return res;
     },
   };
-  return res as unknown as Response & { _status: number; _json: unknown };
+  return res as unknown as Response & {
+    _status: number;
+    _json: unknown;
+    _headers: Record<string, string>;
+  };
 }
 
 // ─── Tests ────────────────────────────────────────────────────────────────────
@@ -58,6 +68,8 @@ describe("jwtAuth middleware", () => {
   describe("public paths", () => {
     const publicPaths = [
       "/health",
+      "/ready",
+      "/metrics",
       "/.well-known/openid-configuration",
       "/.well-known/oauth-authorization-server",
       "/.well-known/oauth-protected-resource",
@@ -188,6 +200,7 @@ describe("jwtAuth middleware", () => {
         clientId: "client-123",
         scopes: ["openid", "profile", "email"],
         expiresAt: 1700000000,
+        extra: { subject: "user-456" },
       });
     });
 
@@ -288,3 +301,43 @@ describe("jwtAuth middleware", () => {
     );
   });
 });
+
+describe("requireScope middleware", () => {
+  const middleware = requireScope("weather:admin");
+  let next: NextFunction;
+
+  beforeEach(() => {
+    next = vi.fn();
+  });
+
+  it("passes tokens that carry the scope", () => {
+    const req = mockRequest({
+      auth: { token: "t", clientId: "c", scopes: ["openid", "weather:admin"] },
+    });
+    const res = mockResponse();
+
+    middleware(req, res, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("rejects tokens without the scope with 403", () => {
+    const req = mockRequest({
+      auth: { token: "t", clientId: "c", scopes: ["openid"] },
+    });
+    const res = mockResponse();
+
+    middleware(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res._status).toBe(403);
+    expect(res._headers["WWW-Authenticate"]).toBe(
+      'Bearer error="insufficient_scope", scope="weather:admin"'
+    );
+    expect(res._json).toEqual({
+      jsonrpc: "2.0",
+      error: { code: -32000, message: "Insufficient scope: weather:admin required" },
+      id: null,
+    });
+  });
+});
@@ -8,6 +8,8 @@
  */
 export const PUBLIC_PATHS: ReadonlySet<string> = new Set([
   "/health",
+  "/ready",
+  "/metrics",
   "/.well-known/openid-configuration",
   "/.well-known/oauth-authorization-server",
   "/.well-known/oauth-protected-resource",
@@ -64,6 +64,8 @@ export function jwtAuth() {
         scopes:
           typeof payload.scope === "string" ? payload.scope.split(" ") : [],
         expiresAt: payload.exp,
+        // The user (or client, for client-credentials tokens) sessions are bound to
+        extra: { subject: payload.sub },
       };
 
       req.auth = authInfo;
@@ -77,3 +79,26 @@ export function jwtAuth() {
     }
   };
 }
+
+/**
+ * Express middleware that requires a scope on the validated token.
+ * Mount after `jwtAuth()`; responds 403 (RFC 6750 insufficient_scope)
+ * when the scope is missing.
+ */
+export function requireScope(scope: string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.auth?.scopes.includes(scope)) {
+      return next();
+    }
+
+    res
+      .status(403)
+      .set("WWW-Authenticate", `Bearer error="insufficient_scope", scope="${scope}"`)
+      .json(
+        jsonRpcError(
+          JsonRpcErrorCode.AUTH_ERROR,
+          `Insufficient scope: ${scope} required`
+        )
+      );
+  };
+}
@@ -32,12 +32,61 @@ const envSchema = z.object({
 
   // Sessions
   MCP_SESSION_TTL_MINUTES: z.coerce.number().default(30),
+  MCP_MAX_SESSIONS: z.coerce.number().int().positive().default(1000),
 
   // Auth0
   AUTH0_DOMAIN: z.string().min(1, "AUTH0_DOMAIN is required"),
   AUTH0_AUDIENCE: z.string().min(1, "AUTH0_AUDIENCE is required"),
   AUTH0_ISSUER_URL: z.string().optional(),
-});
+  ADMIN_SCOPE: z.string().min(1).default("weather:admin"),
+
+  // Cache
+  CACHE_BACKEND: z.enum(["memory", "redis"]).default("memory"),
+  REDIS_URL: z.string().optional(),
+  CACHE_KEY_PREFIX: z.string().default("weather-mcp:"),
+  CACHE_MAX_ENTRIES: z.coerce.number().int().positive().default(5000),
+  CACHE_MAX_MB: z.coerce.number().positive().default(64),
+  COORDINATE_GRID_DEGREES: z.coerce.number().min(0).max(1).default(0.01),
+  CACHE_SNAPSHOT_PATH: z.string().optional(),
+  CACHE_SNAPSHOT_INTERVAL_SECONDS: z.coerce.number().positive().default(300),
+  CACHE_WARM_LOCATIONS: z.string().default(""),
+  CACHE_WARM_TOOLS: z.string().default("get_weather,get_forecast"),
+  CACHE_WARM_INTERVAL_SECONDS: z.coerce.number().positive().default(240),
+
+  // Rate limiting (units: a primitive tool call costs 1; 0 disables a limit)
+  RATE_LIMIT_PER_MINUTE: z.coerce.number().int().min(0).default(60),
+  RATE_LIMIT_DAILY_QUOTA: z.coerce.number().int().min(0).default(5000),
+  RATE_LIMIT_COMPOUND_WEIGHT: z.coerce.number().int().positive().default(3),
+  RATE_LIMIT_TOOL_WEIGHTS: z.string().default(""),
+
+  // Upstream APIs
+  UPSTREAM_RETRIES: z.coerce.number().int().min(0).default(2),
+  UPSTREAM_RETRY_BASE_MS: z.coerce.number().min(0).default(250),
+  UPSTREAM_RETRY_MAX_MS: z.coerce.number().min(0).default(5000),
+  CIRCUIT_FAILURE_THRESHOLD: z.coerce.number().int().positive().default(5),
+  CIRCUIT_RESET_SECONDS: z.coerce.number().positive().default(30),
+
+  // Weather providers
+  WEATHER_PROVIDER: z.enum(["open-meteo", "nws"]).default("open-meteo"),
+  WEATHER_PROVIDER_FALLBACK: z.enum(["open-meteo", "nws"]).optional(),
+  NWS_USER_AGENT: z.string().optional(),
+
+  // Tracing (the OTLP exporter also reads the other OTEL_EXPORTER_OTLP_* vars)
+  OTEL_EXPORTER_OTLP_ENDPOINT: z.string().optional(),
+  OTEL_SERVICE_NAME: z.string().default("weather-mcp-server"),
+}).refine((env) => env.CACHE_BACKEND !== "redis" || !!env.REDIS_URL, {
+  message: "REDIS_URL is required when CACHE_BACKEND is redis",
+  path: ["REDIS_URL"],
+}).refine(
+  (env) =>
+    env.RATE_LIMIT_PER_MINUTE === 0 ||
+    Math.max(env.RATE_LIMIT_COMPOUND_WEIGHT, ...Object.values(parseToolWeights(env.RATE_LIMIT_TOOL_WEIGHTS))) <=
+      env.RATE_LIMIT_PER_MINUTE,
+  {
+    message: "Tool weights must not exceed RATE_LIMIT_PER_MINUTE",
+    path: ["RATE_LIMIT_TOOL_WEIGHTS"],
+  }
+);
 
 // ─── Validation ──────────────────────────────────────────────────────────────
 
@@ -57,6 +106,53 @@ const isDevelopment = env.NODE_ENV === "development";
 const isProduction = env.NODE_ENV === "production";
 const isTest = env.NODE_ENV === "test";
 
+/** A location to keep warm: coordinates, or a city with an optional country code. */
+export type WarmLocation =
+  | { latitude: number; longitude: number }
+  | { city: string; country_code?: string };
+
+/**
+ * Parse CACHE_WARM_LOCATIONS: `;`-separated "lat,lon", "City" or
+ * "City,CC" entries, e.g. "Denver; Paris,FR; 40.71,-74.01".
+ */
+function parseWarmLocations(value: string): WarmLocation[] {
+  return value
+    .split(";")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry)
+    .map((entry) => {
+      const [first, second] = entry.split(",").map((part) => part.trim());
+      const latitude = Number(first);
+      const longitude = Number(second);
+      if (second && Number.isFinite(latitude) && Number.isFinite(longitude)) {
+        return { latitude, longitude };
+      }
+      return second ? { city: first, country_code: second } : { city: first };
+    });
+}
+
+/** Split a comma-separated list, dropping blanks. */
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item);
+}
+
+/**
+ * Parse RATE_LIMIT_TOOL_WEIGHTS: comma-separated "tool:units" pairs,
+ * e.g. "get_climate_anomalies:5,get_ensemble_forecast:2".
+ */
+function parseToolWeights(value: string): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const item of splitList(value)) {
+    const [tool, units] = item.split(":").map((part) => part.trim());
+    const weight = Number(units);
+    if (tool && Number.isInteger(weight) && weight >= 0) weights[tool] = weight;
+  }
+  return weights;
+}
+
 // ─── Config Singleton ────────────────────────────────────────────────────────
 
 export const config = {
@@ -74,6 +170,8 @@ export const config = {
   // Sessions
   session: {
     ttlMs: env.MCP_SESSION_TTL_MINUTES * 60 * 1000,
+    /** Sessions held before /ready reports this replica as full */
+    maxSessions: env.MCP_MAX_SESSIONS,
   },
 
   // Auth0
@@ -85,6 +183,73 @@ export const config = {
     /** Derived: JWKS endpoint for token verification */
     jwksUri: `https://${env.AUTH0_DOMAIN}/.well-known/jwks.json`,
   },
+
+  // Admin routes
+  admin: {
+    /** JWT scope required for /admin */
+    scope: env.ADMIN_SCOPE,
+  },
+
+  // Cache
+  cache: {
+    backend: env.CACHE_BACKEND,
+    redisUrl: env.REDIS_URL,
+    /** Namespaces keys when the Redis instance is shared */
+    keyPrefix: env.CACHE_KEY_PREFIX,
+    /** In-memory backend: LRU entry budget */
+    maxEntries: env.CACHE_MAX_ENTRIES,
+    /** In-memory backend: approximate byte budget */
+    maxBytes: env.CACHE_MAX_MB * 1024 * 1024,
+    /** Coordinates are rounded to this grid (degrees) so nearby lookups share entries; 0 disables */
+    coordinateGridDegrees: env.COORDINATE_GRID_DEGREES,
+    /** In-memory backend: file the cache is snapshotted to and restored from (unset = off) */
+    snapshotPath: env.CACHE_SNAPSHOT_PATH,
+    snapshotIntervalMs: env.CACHE_SNAPSHOT_INTERVAL_SECONDS * 1000,
+    /** Hot locations whose tool data is refreshed before it expires (empty = off) */
+    warmLocations: parseWarmLocations(env.CACHE_WARM_LOCATIONS),
+    warmTools: splitList(env.CACHE_WARM_TOOLS),
+    /** Shorter than TTL_REALTIME (5 min) so realtime data never lapses */
+    warmIntervalMs: env.CACHE_WARM_INTERVAL_SECONDS * 1000,
+  },
+
+  // Rate limiting (per OAuth client, per process)
+  rateLimit: {
+    perMinute: env.RATE_LIMIT_PER_MINUTE,
+    dailyQuota: env.RATE_LIMIT_DAILY_QUOTA,
+    /** Units a compound tool call costs unless overridden */
+    compoundWeight: env.RATE_LIMIT_COMPOUND_WEIGHT,
+    /** Per-tool overrides of the default weights */
+    toolWeights: parseToolWeights(env.RATE_LIMIT_TOOL_WEIGHTS),
+  },
+
+  // Upstream APIs
+  upstream: {
+    /** Extra attempts after the first for idempotent GETs */
+    retries: env.UPSTREAM_RETRIES,
+    /** Backoff before retry n is a random delay up to base × 2^n */
+    retryBaseMs: env.UPSTREAM_RETRY_BASE_MS,
+    /** Cap on any single backoff or Retry-After wait */
+    retryMaxMs: env.UPSTREAM_RETRY_MAX_MS,
+    /** Consecutive failures before a host's circuit opens */
+    circuitFailureThreshold: env.CIRCUIT_FAILURE_THRESHOLD,
+    circuitResetMs: env.CIRCUIT_RESET_SECONDS * 1000,
+  },
+
+  // Weather providers
+  providers: {
+    default: env.WEATHER_PROVIDER,
+    /** Tried when the default fails or does not cover a location */
+    fallback: env.WEATHER_PROVIDER_FALLBACK,
+    /** api.weather.gov rejects requests without an identifying User-Agent */
+    nwsUserAgent: env.NWS_USER_AGENT ?? `weather-mcp-server (${env.SERVER_URL})`,
+  },
+
+  // Tracing
+  tracing: {
+    /** Spans are exported only when an OTLP endpoint is configured */
+    enabled: !!env.OTEL_EXPORTER_OTLP_ENDPOINT,
+    serviceName: env.OTEL_SERVICE_NAME,
+  },
 } as const;
 
 export type Config = typeof config;
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// ─── Mocks ────────────────────────────────────────────────────────────────────
+
+const mockSessionCount = vi.fn().mockReturnValue(0);
+
+vi.mock("../../mcp/index.js", () => ({
+  sessionCount: () => mockSessionCount(),
+}));
+
+const { checkReadiness, resetReadinessChecks, CHECK_CACHE_MS } = await import("../index.js");
+const { resetCache } = await import("../../tools/shared/cache/index.js");
+const { config } = await import("../../config/index.js");
+
+const JWKS_URL = "https://test-tenant.auth0.com/.well-known/jwks.json";
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("checkReadiness", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    resetCache();
+    resetReadinessChecks();
+    mockSessionCount.mockReturnValue(0);
+    vi.useFakeTimers({ toFake: ["Date"] });
+    fetchMock = vi.fn().mockImplementation(async () => new Response("{}", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("is ready when every dependency answers", async () => {
+    const report = await checkReadiness();
+
+    expect(report.status).toBe("ready");
+    expect(report.checks.jwks.ok).toBe(true);
+    expect(report.checks.cache.ok).toBe(true);
+    expect(Object.keys(report.checks.upstreams)).toContain("api.open-meteo.com");
+    expect(report.checks.sessions).toMatchObject({ ok: true, active: 0, max: config.session.maxSessions });
+  });
+
+  it("counts a 404 from an upstream root as reachable", async () => {
+    fetchMock.mockImplementation(async (url: string) =>
+      new Response("{}", { status: url === JWKS_URL ? 200 : 404 })
+    );
+
+    expect((await checkReadiness()).status).toBe("ready");
+  });
+
+  it("is not ready when the JWKS can't be fetched", async () => {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url === JWKS_URL) throw new Error("getaddrinfo ENOTFOUND");
+      return new Response("{}");
+    });
+
+    const report = await checkReadiness();
+
+    expect(report.status).toBe("not ready");
+    expect(report.checks.jwks).toMatchObject({ ok: false, error: "getaddrinfo ENOTFOUND" });
+  });
+
+  it("is not ready when an upstream returns a server error", async () => {
+    fetchMock.mockImplementation(async (url: string) =>
+      new Response("{}", { status: url.includes("marine-api") ? 502 : 200 })
+    );
+
+    const report = await checkReadiness();
+
+    expect(report.status).toBe("not ready");
+    expect(report.checks.upstreams["marine-api.open-meteo.com"].ok).toBe(false);
+  });
+
+  it("is not ready when the session store is full", async () => {
+    mockSessionCount.mockReturnValue(config.session.maxSessions);
+
+    const report = await checkReadiness();
+
+    expect(report.status).toBe("not ready");
+    expect(report.checks.sessions.error).toBe("Session store is full");
+  });
+
+  it("reuses network results until they are stale", async () => {
+    await checkReadiness();
+    const calls = fetchMock.mock.calls.length;
+
+    await checkReadiness();
+    expect(fetchMock).toHaveBeenCalledTimes(calls);
+
+    vi.advanceTimersByTime(CHECK_CACHE_MS + 1);
+    await checkReadiness();
+    expect(fetchMock).toHaveBeenCalledTimes(calls * 2);
+  });
+});
@@ -0,0 +1,16 @@
+/**
+ * health/constants.ts — Constants for health module.
+ */
+
+/** Timeout for each dependency probe. */
+export const CHECK_TIMEOUT_MS = 2_000;
+
+/**
+ * How long a probe result is reused. Keeps frequent readiness polling
+ * (several probes per replica per second across a fleet) from turning
+ * into load on Auth0 and the upstream APIs.
+ */
+export const CHECK_CACHE_MS = 10_000;
+
+/** Cache key written and read back to check the cache backend. */
+export const CACHE_PROBE_KEY = "ready:probe";
@@ -0,0 +1,6 @@
+/**
+ * health/index.ts — Re-exports for health module.
+ */
+
+export * from "./constants.js";
+export * from "./readiness.js";
@@ -0,0 +1,161 @@
+/**
+ * health/readiness.ts — Deep readiness checks.
+ *
+ * `/health` is a liveness probe: it answers as long as the process does.
+ * `/ready` asks whether this replica can actually serve a tool call:
+ *
+ * - jwks      — Auth0's signing keys can be fetched (token validation)
+ * - upstreams — each weather API host answers HTTP at all
+ * - cache     — a probe value can be written and read back
+ * - sessions  — the session store has room for new sessions
+ *
+ * Network probes use short timeouts and their results are reused for
+ * `CHECK_CACHE_MS`, with concurrent probes sharing one in-flight check.
+ */
+
+import { config } from "../config/index.js";
+import { logger } from "../shared/index.js";
+import { sessionCount } from "../mcp/index.js";
+import { getCache } from "../tools/shared/cache/index.js";
+import { fetchWithTimeout } from "../tools/shared/fetch.js";
+import { UPSTREAM_HOSTS } from "../tools/shared/circuit-breaker.js";
+import { CACHE_PROBE_KEY, CHECK_CACHE_MS, CHECK_TIMEOUT_MS } from "./constants.js";
+
+const log = logger.child({ module: "readiness" });
+
+/** Outcome of one dependency check. */
+export interface CheckResult {
+  ok: boolean;
+  /** How long the check took (network and cache checks). */
+  latencyMs?: number;
+  /** Why the check failed. */
+  error?: string;
+  /** When the check actually ran (ISO 8601); older than now when reused. */
+  checkedAt: string;
+}
+
+/** Session-store check, with the numbers behind it. */
+export interface SessionCheckResult extends CheckResult {
+  active: number;
+  max: number;
+}
+
+/** Body of the `/ready` response. */
+export interface ReadinessReport {
+  status: "ready" | "not ready";
+  checks: {
+    jwks: CheckResult;
+    upstreams: Record<string, CheckResult>;
+    cache: CheckResult;
+    sessions: SessionCheckResult;
+  };
+}
+
+// ─── Result Caching ─────────────────────────────────────────────────────────
+
+const results = new Map<string, { result: CheckResult; expiresAt: number }>();
+const inflight = new Map<string, Promise<CheckResult>>();
+
+/**
+ * Run `probe` as check `name`, timing it and turning a throw into a
+ * failed result. A result younger than `CHECK_CACHE_MS` is reused.
+ */
+function runCheck(name: string, probe: () => Promise<void>): Promise<CheckResult> {
+  const cached = results.get(name);
+  if (cached && Date.now() < cached.expiresAt) return Promise.resolve(cached.result);
+
+  const pending = inflight.get(name);
+  if (pending) return pending;
+
+  const check = (async (): Promise<CheckResult> => {
+    const started = Date.now();
+    const checkedAt = new Date(started).toISOString();
+    try {
+      await probe();
+      return { ok: true, latencyMs: Date.now() - started, checkedAt };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn({ check: name, err: error }, "Readiness check failed");
+      return { ok: false, latencyMs: Date.now() - started, error: message, checkedAt };
+    }
+  })();
+
+  inflight.set(name, check);
+  return check.then((result) => {
+    inflight.delete(name);
+    results.set(name, { result, expiresAt: Date.now() + CHECK_CACHE_MS });
+    return result;
+  });
+}
+
+/**
+ * Forget cached check results (for tests).
+ */
+export function resetReadinessChecks(): void {
+  results.clear();
+  inflight.clear();
+}
+
+// ─── Checks ─────────────────────────────────────────────────────────────────
+
+/** Auth0's JWKS must be fetchable, or no token can be validated. */
+async function probeJwks(): Promise<void> {
+  const response = await fetchWithTimeout(config.auth0.jwksUri, undefined, CHECK_TIMEOUT_MS);
+  if (!response.ok) throw new Error(`JWKS returned ${response.status}`);
+  await response.body?.cancel();
+}
+
+/** Any answer short of a server error means the host is up (the root path may 404). */
+async function probeUpstream(host: string): Promise<void> {
+  const response = await fetchWithTimeout(`https://${host}/`, { method: "HEAD" }, CHECK_TIMEOUT_MS);
+  if (response.status >= 500) throw new Error(`${host} returned ${response.status}`);
+}
+
+/** Write a value and read it back; backends swallow errors, so compare. */
+async function probeCache(): Promise<void> {
+  const cache = getCache();
+  const value = Date.now();
+  await cache.set(CACHE_PROBE_KEY, value, { ttlMs: CHECK_CACHE_MS });
+  const entry = await cache.peek<number>(CACHE_PROBE_KEY);
+  if (entry?.value !== value) throw new Error("Cache write could not be read back");
+}
+
+/** At capacity the replica should stop receiving new sessions. */
+function checkSessions(): SessionCheckResult {
+  const active = sessionCount();
+  const max = config.session.maxSessions;
+  const ok = active < max;
+  return {
+    ok,
+    active,
+    max,
+    ...(!ok && { error: "Session store is full" }),
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/** Upstream hosts this deployment uses. */
+function upstreamHosts(): string[] {
+  const hosts: string[] = [...UPSTREAM_HOSTS];
+  if (config.providers.default === "nws" || config.providers.fallback === "nws") {
+    hosts.push("api.weather.gov");
+  }
+  return hosts;
+}
+
+/**
+ * Run every readiness check. `status` is "ready" only if all pass.
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const hosts = upstreamHosts();
+  const [jwks, cache, ...upstreamResults] = await Promise.all([
+    runCheck("jwks", probeJwks),
+    runCheck("cache", probeCache),
+    ...hosts.map((host) => runCheck(`upstream:${host}`, () => probeUpstream(host))),
+  ]);
+  const upstreams = Object.fromEntries(hosts.map((host, i) => [host, upstreamResults[i]]));
+  const sessions = checkSessions();
+
+  const ready = [jwks, cache, sessions, ...upstreamResults].every((check) => check.ok);
+  return { status: ready ? "ready" : "not ready", checks: { jwks, upstreams, cache, sessions } };
+}
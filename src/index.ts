@@ -11,13 +11,29 @@
 import "dotenv/config";
 
 import { config } from "./config/index.js";
-import { logger } from "./shared/index.js";
+import { logger, startTracing, stopTracing } from "./shared/index.js";
 import { createApp } from "./app.js";
 import { spokeManifest } from "./manifest.js";
 import { closeAllSessions } from "./mcp/index.js";
+import { resetCache } from "./tools/shared/cache/index.js";
+import {
+  restoreCacheSnapshot,
+  startCacheSnapshots,
+  stopCacheSnapshots,
+} from "./tools/shared/cache/snapshot.js";
+import { startCacheWarming, stopCacheWarming } from "./tools/cache-warmer.js";
 
 const log = logger.child({ module: "server" });
 
+if (config.tracing.enabled) {
+  startTracing({ serviceName: config.tracing.serviceName, serviceVersion: spokeManifest.version });
+}
+
+// Reload the previous process's cache before taking traffic
+await restoreCacheSnapshot();
+startCacheSnapshots();
+startCacheWarming();
+
 // Create and start the server
 const app = createApp();
 
@@ -33,14 +49,18 @@ const server = app.listen(config.port, () => {
 
 // ─── Graceful Shutdown ──────────────────────────────────────────────────────
 
-function shutdown(signal: string) {
+async function shutdown(signal: string) {
   log.info({ signal }, "Shutting down");
   closeAllSessions();
+  await stopCacheWarming();
+  await stopCacheSnapshots();
+  resetCache();
+  await stopTracing();
   server.close(() => {
     log.info("HTTP server closed");
     process.exit(0);
   });
 }
 
-process.on("SIGTERM", () => shutdown("SIGTERM"));
-process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
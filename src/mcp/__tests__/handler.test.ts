@@ -34,6 +34,7 @@ vi.mock("crypto", () => ({
 
 // Import handler after mocks are in place
 const { handleMcpRequest } = await import("../handler.js");
+const { registerAllTools } = await import("../../tools/index.js");
 
 // ─── Test Helpers ─────────────────────────────────────────────────────────────
 
@@ -100,6 +101,16 @@ describe("handleMcpRequest", () => {
       expect(mockHandleRequest).toHaveBeenCalledOnce();
     });
 
+    it("registers tools for the token that opened the session", async () => {
+      const auth = { token: "t", clientId: "client-123", scopes: ["weather:read"] };
+      const req = mockRequest({ auth });
+      const res = mockResponse();
+
+      await handleMcpRequest(req, res);
+
+      expect(registerAllTools).toHaveBeenCalledWith(expect.anything(), auth);
+    });
+
     it("delegates to transport.handleRequest with the request body", async () => {
       const body = { jsonrpc: "2.0", method: "tools/list", id: 2 };
       const req = mockRequest({ body });
@@ -282,6 +293,121 @@ describe("handleMcpRequest", () => {
     });
   });
 
+  // ─── Session Binding ──────────────────────────────────────────────
+
+  describe("session binding", () => {
+    function authAs(clientId: string, subject: string) {
+      return { token: "t", clientId, scopes: [], extra: { subject } };
+    }
+
+    const alice = authAs("client-123", "user-alice");
+    const mallory = authAs("client-123", "user-mallory");
+
+    async function createSessionAs(auth: ReturnType<typeof authAs>) {
+      await handleMcpRequest(mockRequest({ auth }), mockResponse());
+      vi.clearAllMocks();
+    }
+
+    it("serves the principal that created the session", async () => {
+      await createSessionAs(alice);
+
+      const res = mockResponse();
+      await handleMcpRequest(
+        mockRequest({ auth: alice, headers: { "mcp-session-id": MOCK_SESSION_ID } }),
+        res
+      );
+
+      expect(res._status).toBe(0);
+      expect(mockHandleRequest).toHaveBeenCalledOnce();
+    });
+
+    it("rejects another user presenting the session ID as if it did not exist", async () => {
+      await createSessionAs(alice);
+
+      const res = mockResponse();
+      await handleMcpRequest(
+        mockRequest({ auth: mallory, headers: { "mcp-session-id": MOCK_SESSION_ID } }),
+        res
+      );
+
+      expect(res._status).toBe(404);
+      expect(res._json).toEqual({
+        jsonrpc: "2.0",
+        error: { code: -32603, message: "Session not found or expired" },
+        id: null,
+      });
+      expect(mockHandleRequest).not.toHaveBeenCalled();
+    });
+
+    it("rejects the same user through a different OAuth client", async () => {
+      await createSessionAs(alice);
+
+      const res = mockResponse();
+      await handleMcpRequest(
+        mockRequest({
+          auth: authAs("client-other", "user-alice"),
+          headers: { "mcp-session-id": MOCK_SESSION_ID },
+        }),
+        res
+      );
+
+      expect(res._status).toBe(404);
+      expect(mockHandleRequest).not.toHaveBeenCalled();
+    });
+
+    it("rejects a request without auth for a bound session", async () => {
+      await createSessionAs(alice);
+
+      const res = mockResponse();
+      await handleMcpRequest(mockRequest({ headers: { "mcp-session-id": MOCK_SESSION_ID } }), res);
+
+      expect(res._status).toBe(404);
+    });
+
+    it("does not let another user DELETE the session", async () => {
+      await createSessionAs(alice);
+
+      const res = mockResponse();
+      await handleMcpRequest(
+        mockRequest({
+          method: "DELETE",
+          auth: mallory,
+          headers: { "mcp-session-id": MOCK_SESSION_ID },
+        }),
+        res
+      );
+
+      expect(res._status).toBe(404);
+      expect(mockTransportClose).not.toHaveBeenCalled();
+
+      // The owner's session survives the attempt
+      const ownerRes = mockResponse();
+      await handleMcpRequest(
+        mockRequest({ auth: alice, headers: { "mcp-session-id": MOCK_SESSION_ID } }),
+        ownerRes
+      );
+      expect(ownerRes._status).toBe(0);
+      expect(mockHandleRequest).toHaveBeenCalledOnce();
+    });
+
+    it("lets the owner DELETE the session", async () => {
+      await createSessionAs(alice);
+
+      const res = mockResponse();
+      await handleMcpRequest(
+        mockRequest({
+          method: "DELETE",
+          auth: alice,
+          headers: { "mcp-session-id": MOCK_SESSION_ID },
+        }),
+        res
+      );
+
+      expect(res._status).toBe(204);
+      expect(mockTransportClose).toHaveBeenCalledOnce();
+    });
+  });
+
   // ─── Error Handling ───────────────────────────────────────────────
 
   describe("error handling", () => {
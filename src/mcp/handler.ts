@@ -2,29 +2,51 @@
  * mcp/handler.ts — Unified MCP request handler with session management.
  *
  * Each MCP session gets its own server + transport pair.
- * Sessions are identified by the Mcp-Session-Id header.
+ * Sessions are identified by the Mcp-Session-Id header and bound to the
+ * principal (OAuth client and token subject) that created them: another
+ * principal presenting the same ID is told the session does not exist.
  */
 
 import type { Request, Response } from "express";
 import { randomUUID } from "crypto";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { jsonRpcError, JsonRpcErrorCode, logger } from "../shared/index.js";
+import { Gauge } from "prom-client";
+import { jsonRpcError, JsonRpcErrorCode, logger, metricsRegistry } from "../shared/index.js";
 import { registerAllTools } from "../tools/index.js";
 import { config } from "../config/index.js";
+import type { AuthInfo } from "../auth/index.js";
 
 const log = logger.child({ module: "mcp" });
 
 // ─── Session Store ──────────────────────────────────────────────────────────
 
+/** Who a session belongs to, from the validated token. */
+interface Principal {
+  clientId: string;
+  /** The token's `sub` claim */
+  subject?: string;
+}
+
 interface Session {
   server: McpServer;
   transport: StreamableHTTPServerTransport;
   lastAccessedAt: number;
+  /** `null` only when auth is not in front of the handler (tests) */
+  principal: Principal | null;
 }
 
 const sessions = new Map<string, Session>();
 
+new Gauge({
+  name: "mcp_active_sessions",
+  help: "MCP sessions currently held in memory",
+  registers: [metricsRegistry],
+  collect() {
+    this.set(sessions.size);
+  },
+});
+
 function cleanupStaleSessions(): void {
   const now = Date.now();
   for (const [sessionId, session] of sessions) {
@@ -39,6 +61,11 @@ function cleanupStaleSessions(): void {
 // Run cleanup every 5 minutes
 const cleanupInterval = setInterval(cleanupStaleSessions, 5 * 60 * 1000);
 
+/** Number of sessions currently held (readiness check). */
+export function sessionCount(): number {
+  return sessions.size;
+}
+
 /**
  * Close all active sessions and stop the cleanup interval.
  * Called during graceful shutdown.
@@ -54,14 +81,26 @@ export function closeAllSessions(): void {
 
 // ─── Session Management ─────────────────────────────────────────────────────
 
-function createSession(sessionId: string): Session {
+function principalOf(auth: AuthInfo | undefined): Principal | null {
+  if (!auth) return null;
+  return { clientId: auth.clientId, subject: auth.extra?.subject as string | undefined };
+}
+
+function isOwner(session: Session, principal: Principal | null): boolean {
+  return (
+    session.principal?.clientId === principal?.clientId &&
+    session.principal?.subject === principal?.subject
+  );
+}
+
+function createSession(sessionId: string, auth: AuthInfo | undefined): Session {
   const server = new McpServer({
     name: "weather-server",
     version: "1.0.0",
   });
 
-  // Register tools on this server instance
-  registerAllTools(server);
+  // Register tools on this server instance, listing those the token allows
+  registerAllTools(server, auth);
 
   const transport = new StreamableHTTPServerTransport({
     sessionIdGenerator: () => sessionId,
@@ -71,6 +110,7 @@ function createSession(sessionId: string): Session {
     server,
     transport,
     lastAccessedAt: Date.now(),
+    principal: principalOf(auth),
   };
 
   sessions.set(sessionId, session);
@@ -83,16 +123,25 @@ type SessionResult =
   | { ok: true; session: Session; isNew: boolean }
   | { ok: false; status: number; body: ReturnType<typeof jsonRpcError> };
 
-function getOrCreateSession(sessionId: string | undefined): SessionResult {
+function getOrCreateSession(
+  sessionId: string | undefined,
+  auth: AuthInfo | undefined
+): SessionResult {
+  const principal = principalOf(auth);
+  const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+  // Existing session of the same principal — refresh TTL and reuse
+  if (existing && isOwner(existing, principal)) {
+    existing.lastAccessedAt = Date.now();
+    return { ok: true, session: existing, isNew: false };
+  }
 
-  // Existing session — refresh TTL and reuse
-  if (sessionId && sessions.has(sessionId)) {
-    const session = sessions.get(sessionId)!;
-    session.lastAccessedAt = Date.now();
-    return { ok: true, session, isNew: false };
+  if (existing) {
+    log.warn({ sessionId, principal }, "Rejected request for another principal's session");
   }
 
-  // Client sent a session ID we don't recognize — don't silently replace it
+  // Client sent a session ID we don't recognize (or that isn't theirs) —
+  // don't silently replace it
   if (sessionId) {
     return {
       ok: false,
@@ -101,11 +150,15 @@ function getOrCreateSession(sessionId: string | undefined): SessionResult {
     };
   }
 
-  return { ok: true, session: createSession(randomUUID()), isNew: true };
+  return { ok: true, session: createSession(randomUUID(), auth), isNew: true };
 }
 
-function deleteSession(sessionId: string): boolean {
+function deleteSession(sessionId: string, principal: Principal | null): boolean {
   const session = sessions.get(sessionId);
+  if (session && !isOwner(session, principal)) {
+    log.warn({ sessionId, principal }, "Rejected DELETE of another principal's session");
+    return false;
+  }
   if (session) {
     session.transport.close();
     sessions.delete(sessionId);
@@ -129,11 +182,12 @@ export async function handleMcpRequest(
   res: Response
 ): Promise<void> {
   const sessionId = req.headers["mcp-session-id"] as string | undefined;
+  const principal = principalOf(req.auth);
 
   try {
     // Handle DELETE - close session
     if (req.method === "DELETE") {
-      if (sessionId && deleteSession(sessionId)) {
+      if (sessionId && deleteSession(sessionId, principal)) {
         res.status(204).end();
       } else {
         res.status(404).json(
@@ -144,7 +198,7 @@ export async function handleMcpRequest(
     }
 
     // Get or create session
-    const result = getOrCreateSession(sessionId);
+    const result = getOrCreateSession(sessionId, req.auth);
 
     if (!result.ok) {
       res.status(result.status).json(result.body);
@@ -2,11 +2,17 @@
  * oauth/constants.ts — Constants for OAuth module.
  */
 
+import { config } from "../config/index.js";
+import { TOOL_SCOPES } from "../tools/shared/scopes.js";
+
 export const SCOPES_SUPPORTED = [
   "openid",
   "profile",
   "email",
   "offline_access",
+  ...Object.values(TOOL_SCOPES),
+  // Required for /admin
+  config.admin.scope,
 ] as const;
 
 export const TOKEN_AUTH_METHODS = [
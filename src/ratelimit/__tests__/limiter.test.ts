@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { RateLimiter } from "../limiter.js";
+import { RATE_WINDOW_MS } from "../constants.js";
+
+// 2025-07-01T23:59:00Z — one minute before the quota window resets
+const NOW = Date.UTC(2025, 6, 1, 23, 59);
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("RateLimiter", () => {
+  it("admits requests until the rate window is used up", () => {
+    const limiter = new RateLimiter({ perMinute: 5, dailyQuota: 100 });
+
+    expect(limiter.consume("a", 3, NOW).allowed).toBe(true);
+    const rejected = limiter.consume("a", 3, NOW);
+
+    expect(rejected).toMatchObject({ allowed: false, exceeded: { name: "rate", remaining: 2 } });
+    expect(limiter.consume("a", 2, NOW).allowed).toBe(true);
+  });
+
+  it("starts a new rate window once the old one ends", () => {
+    const limiter = new RateLimiter({ perMinute: 5, dailyQuota: 100 });
+    limiter.consume("a", 5, NOW - 30_000);
+
+    expect(limiter.consume("a", 1, NOW).allowed).toBe(false);
+    expect(limiter.consume("a", 1, NOW - 30_000 + RATE_WINDOW_MS).allowed).toBe(true);
+  });
+
+  it("resets the daily quota at UTC midnight", () => {
+    const limiter = new RateLimiter({ perMinute: 0, dailyQuota: 10 });
+    limiter.consume("a", 10, NOW);
+
+    const rejected = limiter.consume("a", 1, NOW);
+    expect(rejected).toMatchObject({ allowed: false, exceeded: { name: "quota", resetAt: Date.UTC(2025, 6, 2) } });
+    expect(limiter.consume("a", 1, Date.UTC(2025, 6, 2)).allowed).toBe(true);
+  });
+
+  it("keeps clients apart", () => {
+    const limiter = new RateLimiter({ perMinute: 1, dailyQuota: 0 });
+
+    expect(limiter.consume("a", 1, NOW).allowed).toBe(true);
+    expect(limiter.consume("b", 1, NOW).allowed).toBe(true);
+  });
+
+  it("always admits free requests and reports no disabled limits", () => {
+    const limiter = new RateLimiter({ perMinute: 1, dailyQuota: 0 });
+    limiter.consume("a", 1, NOW);
+
+    const decision = limiter.consume("a", 0, NOW);
+    expect(decision.allowed).toBe(true);
+    expect(decision.limits.map((l) => l.name)).toEqual(["rate"]);
+  });
+
+  it("charges a request costing more than the limit the whole window", () => {
+    const limiter = new RateLimiter({ perMinute: 3, dailyQuota: 100 });
+
+    const decision = limiter.consume("a", 5, NOW);
+    expect(decision.allowed).toBe(true);
+    expect(decision.limits).toMatchObject([
+      { name: "rate", remaining: 0 },
+      { name: "quota", remaining: 95 },
+    ]);
+    expect(limiter.consume("a", 5, NOW).allowed).toBe(false);
+    expect(limiter.consume("a", 5, NOW + RATE_WINDOW_MS).allowed).toBe(true);
+  });
+});
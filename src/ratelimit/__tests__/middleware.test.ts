@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Request, Response, NextFunction } from "express";
+import { rateLimit, requestCost, toolWeight } from "../middleware.js";
+import { RateLimiter } from "../limiter.js";
+
+// ─── Test Helpers ─────────────────────────────────────────────────────────────
+
+function toolCall(name: string, id: number = 1) {
+  return { jsonrpc: "2.0", id, method: "tools/call", params: { name, arguments: {} } };
+}
+
+function mockRequest(body: unknown, clientId = "client-123"): Request {
+  return {
+    body,
+    auth: { token: "t", clientId, scopes: [] },
+  } as unknown as Request;
+}
+
+function mockResponse(): Response & {
+  _status: number;
+  _json: unknown;
+  _headers: Record<string, string>;
+} {
+  const res = {
+    _status: 0,
+    _json: null,
+    _headers: {} as Record<string, string>,
+    set(name: string | Record<string, string>, value?: string) {
+      Object.assign(res._headers, typeof name === "string" ? { [name]: value } : name);
+      return res;
+    },
+    status(code: number) {
+      res._status = code;
+      return res;
+    },
+    json(body: unknown) {
+      res._json = body;
+      return res;
+    },
+  };
+  return res as unknown as Response & {
+    _status: number;
+    _json: unknown;
+    _headers: Record<string, string>;
+  };
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("requestCost", () => {
+  it("weighs compound tools above primitives", () => {
+    expect(toolWeight("get_weather")).toBe(1);
+    expect(toolWeight("get_severe_weather")).toBe(3);
+  });
+
+  it("sums tool calls in a batch and ignores other methods", () => {
+    const body = [
+      toolCall("get_weather", 1),
+      toolCall("get_fire_weather", 2),
+      { jsonrpc: "2.0", id: 3, method: "tools/list" },
+    ];
+
+    expect(requestCost(body)).toBe(4);
+    expect(requestCost({ jsonrpc: "2.0", id: 1, method: "initialize" })).toBe(0);
+  });
+});
+
+describe("rateLimit middleware", () => {
+  let next: NextFunction;
+
+  beforeEach(() => {
+    next = vi.fn();
+  });
+
+  it("admits calls within the limit and sets RateLimit headers", () => {
+    const middleware = rateLimit(new RateLimiter({ perMinute: 10, dailyQuota: 1000 }));
+    const res = mockResponse();
+
+    middleware(mockRequest(toolCall("get_outdoor_conditions")), res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(res._headers).toMatchObject({
+      "RateLimit-Policy": "10;w=60, 1000;w=86400",
+      "RateLimit-Limit": "10",
+      "RateLimit-Remaining": "7",
+      "RateLimit-Reset": "60",
+    });
+  });
+
+  it("rejects calls over the limit with 429 and a JSON-RPC error", () => {
+    const middleware = rateLimit(new RateLimiter({ perMinute: 3, dailyQuota: 0 }));
+    middleware(mockRequest(toolCall("get_severe_weather")), mockResponse(), next);
+
+    const res = mockResponse();
+    middleware(mockRequest(toolCall("get_weather", 7)), res, vi.fn());
+
+    expect(res._status).toBe(429);
+    expect(res._headers["Retry-After"]).toBe("60");
+    expect(res._json).toEqual({
+      jsonrpc: "2.0",
+      error: { code: -32029, message: "Rate limit exceeded (3 units per minute); retry in 60s" },
+      id: 7,
+    });
+  });
+
+  it("counts each client separately", () => {
+    const middleware = rateLimit(new RateLimiter({ perMinute: 1, dailyQuota: 0 }));
+    middleware(mockRequest(toolCall("get_weather"), "a"), mockResponse(), next);
+    middleware(mockRequest(toolCall("get_weather"), "b"), mockResponse(), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,12 @@
+/**
+ * ratelimit/constants.ts — Constants for rate limiting module.
+ */
+
+/** Length of the short rate-limit window. */
+export const RATE_WINDOW_MS = 60 * 1000;
+
+/** Length of the quota window (a UTC day). */
+export const QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Units a primitive (single-source) tool call costs. */
+export const PRIMITIVE_TOOL_WEIGHT = 1;
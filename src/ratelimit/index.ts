@@ -0,0 +1,8 @@
+/**
+ * ratelimit/index.ts — Re-exports for rate limiting module.
+ */
+
+export * from "./types.js";
+export * from "./constants.js";
+export * from "./limiter.js";
+export * from "./middleware.js";
@@ -0,0 +1,98 @@
+/**
+ * ratelimit/limiter.ts — Per-client usage accounting.
+ *
+ * Each client has two fixed windows: a one-minute rate window that
+ * starts with its first request, and a daily quota window aligned to UTC
+ * midnight. Requests cost units (see `toolWeight`); a request is admitted
+ * only if it fits in both windows, and a rejected request costs nothing.
+ * A request costing more than a window's limit needs that whole window.
+ *
+ * State is per process: with N replicas behind a load balancer, a
+ * client can use up to N times the configured limits.
+ */
+
+import { RATE_WINDOW_MS, QUOTA_WINDOW_MS } from "./constants.js";
+import type { LimitName, LimitStatus, RateLimitDecision, RateLimiterOptions } from "./types.js";
+
+interface Window {
+  used: number;
+  resetAt: number;
+}
+
+interface ClientUsage {
+  rate: Window;
+  quota: Window;
+}
+
+/** Start of the next UTC day after `now`. */
+function nextUtcMidnight(now: number): number {
+  return (Math.floor(now / QUOTA_WINDOW_MS) + 1) * QUOTA_WINDOW_MS;
+}
+
+/**
+ * Tracks usage per client against a rate limit and a daily quota.
+ */
+export class RateLimiter {
+  private clients = new Map<string, ClientUsage>();
+  private lastPruneAt = 0;
+
+  constructor(private options: RateLimiterOptions) {}
+
+  /**
+   * Charge `cost` units to `clientId` if both limits allow it.
+   */
+  consume(clientId: string, cost: number, now: number = Date.now()): RateLimitDecision {
+    this.prune(now);
+
+    const usage = this.usage(clientId, now);
+    const checks: Array<[LimitName, Window, number, number]> = [
+      ["rate", usage.rate, this.options.perMinute, RATE_WINDOW_MS],
+      ["quota", usage.quota, this.options.dailyQuota, QUOTA_WINDOW_MS],
+    ];
+    const active = checks.filter(([, , limit]) => limit > 0);
+
+    // A cost above a whole window could never fit; it is charged the whole window instead
+    const charge = (limit: number) => Math.min(cost, limit);
+    const exceeded = active.find(([, window, limit]) => cost > 0 && window.used + charge(limit) > limit);
+    if (!exceeded) {
+      for (const [, window, limit] of active) window.used += charge(limit);
+    }
+
+    const limits = active.map(([name, window, limit, windowMs]): LimitStatus => ({
+      name,
+      limit,
+      remaining: Math.max(0, limit - window.used),
+      windowSeconds: windowMs / 1000,
+      resetAt: window.resetAt,
+    }));
+
+    if (!exceeded) return { allowed: true, limits };
+    return { allowed: false, limits, exceeded: limits.find((l) => l.name === exceeded[0])! };
+  }
+
+  /** Get a client's usage, starting fresh windows where the old ones ended. */
+  private usage(clientId: string, now: number): ClientUsage {
+    let usage = this.clients.get(clientId);
+    if (!usage) {
+      usage = {
+        rate: { used: 0, resetAt: now + RATE_WINDOW_MS },
+        quota: { used: 0, resetAt: nextUtcMidnight(now) },
+      };
+      this.clients.set(clientId, usage);
+    }
+    if (now >= usage.rate.resetAt) usage.rate = { used: 0, resetAt: now + RATE_WINDOW_MS };
+    if (now >= usage.quota.resetAt) usage.quota = { used: 0, resetAt: nextUtcMidnight(now) };
+    return usage;
+  }
+
+  /** Drop clients whose windows have all ended (at most once per rate window). */
+  private prune(now: number): void {
+    if (now - this.lastPruneAt < RATE_WINDOW_MS) return;
+    this.lastPruneAt = now;
+    for (const [clientId, usage] of this.clients) {
+      if (now >= usage.rate.resetAt && now >= usage.quota.resetAt) {
+        this.clients.delete(clientId);
+      }
+    }
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * ratelimit/middleware.ts — Per-client rate limiting for the MCP endpoint.
+ *
+ * Keyed on `req.auth.clientId` (set by `jwtAuth`), so mount after it.
+ * Only `tools/call` messages cost units — other MCP traffic never reaches
+ * an upstream API — and compound tools cost more than primitives.
+ * Responses carry `RateLimit-*` headers for the limit closest to running
+ * out; a request over a limit gets 429 with a JSON-RPC error.
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import { config } from "../config/index.js";
+import { jsonRpcError, JsonRpcErrorCode, logger } from "../shared/index.js";
+import { toolManifest } from "../tools/index.js";
+import { PRIMITIVE_TOOL_WEIGHT } from "./constants.js";
+import { RateLimiter } from "./limiter.js";
+import type { LimitStatus } from "./types.js";
+
+const log = logger.child({ module: "ratelimit" });
+
+const compoundTools: ReadonlySet<string> = new Set(
+  toolManifest.filter((tool) => tool.category === "compound").map((tool) => tool.name)
+);
+
+/**
+ * Units one call of `tool` costs: a configured override, else the
+ * compound weight for compound tools, else 1.
+ */
+export function toolWeight(tool: string): number {
+  return (
+    config.rateLimit.toolWeights[tool] ??
+    (compoundTools.has(tool) ? config.rateLimit.compoundWeight : PRIMITIVE_TOOL_WEIGHT)
+  );
+}
+
+interface JsonRpcMessage {
+  id?: string | number | null;
+  method?: string;
+  params?: { name?: unknown };
+}
+
+/** Messages in a request body (a single message or a batch). */
+function messages(body: unknown): JsonRpcMessage[] {
+  const list = Array.isArray(body) ? body : [body];
+  return list.filter((message): message is JsonRpcMessage => typeof message === "object" && message !== null);
+}
+
+/** Total units of the tool calls in a request body. */
+export function requestCost(body: unknown): number {
+  return messages(body)
+    .filter((message) => message.method === "tools/call" && typeof message.params?.name === "string")
+    .reduce((sum, message) => sum + toolWeight(message.params!.name as string), 0);
+}
+
+/** Seconds until `resetAt`, rounded up. */
+function secondsUntil(resetAt: number): number {
+  return Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+}
+
+/** Set `RateLimit-*` headers for the limit with the smallest share left. */
+function setRateLimitHeaders(res: Response, limits: LimitStatus[]): void {
+  if (limits.length === 0) return;
+  const tightest = limits.reduce((a, b) => (b.remaining / b.limit < a.remaining / a.limit ? b : a));
+
+  res.set({
+    "RateLimit-Policy": limits.map((l) => `${l.limit};w=${l.windowSeconds}`).join(", "),
+    "RateLimit-Limit": String(tightest.limit),
+    "RateLimit-Remaining": String(tightest.remaining),
+    "RateLimit-Reset": String(secondsUntil(tightest.resetAt)),
+  });
+}
+
+function exceededMessage(exceeded: LimitStatus): string {
+  const retryIn = secondsUntil(exceeded.resetAt);
+  return exceeded.name === "rate"
+    ? `Rate limit exceeded (${exceeded.limit} units per minute); retry in ${retryIn}s`
+    : `Daily quota of ${exceeded.limit} units exhausted; resets in ${retryIn}s`;
+}
+
+/**
+ * Express middleware that charges tool calls to the calling client.
+ *
+ * @param limiter - Usage tracker (defaults to one built from `config.rateLimit`)
+ */
+export function rateLimit(
+  limiter = new RateLimiter({
+    perMinute: config.rateLimit.perMinute,
+    dailyQuota: config.rateLimit.dailyQuota,
+  })
+) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const clientId = req.auth?.clientId;
+    if (!clientId) return next();
+
+    const decision = limiter.consume(clientId, requestCost(req.body));
+    setRateLimitHeaders(res, decision.limits);
+    if (decision.allowed) return next();
+
+    const { exceeded } = decision;
+    log.info({ clientId, limit: exceeded.name }, "Client over rate limit");
+
+    const batch = messages(req.body);
+    const id = !Array.isArray(req.body) && batch[0]?.id !== undefined ? batch[0].id : null;
+    res
+      .status(429)
+      .set("Retry-After", String(secondsUntil(exceeded.resetAt)))
+      .json(jsonRpcError(JsonRpcErrorCode.RATE_LIMITED, exceededMessage(exceeded), id));
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * ratelimit/types.ts — Type definitions for rate limiting module.
+ */
+
+/** Which limit a status describes. */
+export type LimitName = "rate" | "quota";
+
+/** Where a client stands against one limit. */
+export interface LimitStatus {
+  name: LimitName;
+  /** Units allowed per window. */
+  limit: number;
+  /** Units left in the current window (after this request, if allowed). */
+  remaining: number;
+  /** Window length in seconds (for `RateLimit-Policy`). */
+  windowSeconds: number;
+  /** When the current window ends (ms since epoch). */
+  resetAt: number;
+}
+
+/** Outcome of `RateLimiter.consume`. */
+export type RateLimitDecision =
+  | { allowed: true; limits: LimitStatus[] }
+  | { allowed: false; limits: LimitStatus[]; exceeded: LimitStatus };
+
+/** Options for `RateLimiter`. Limits of 0 are disabled. */
+export interface RateLimiterOptions {
+  /** Units per `RATE_WINDOW_MS`. */
+  perMinute: number;
+  /** Units per UTC day. */
+  dailyQuota: number;
+}
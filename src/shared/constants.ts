@@ -6,6 +6,10 @@
 export const JsonRpcErrorCode = {
   /** Authentication/authorization errors */
   AUTH_ERROR: -32000,
+  /** Client over its rate limit or daily quota */
+  RATE_LIMITED: -32029,
+  /** Missing or malformed request parameters */
+  INVALID_PARAMS: -32602,
   /** Internal server errors */
   INTERNAL_ERROR: -32603,
 } as const;
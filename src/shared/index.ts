@@ -6,3 +6,5 @@ export * from "./types.js";
 export * from "./constants.js";
 export * from "./jsonrpc.js";
 export * from "./logger.js";
+export * from "./metrics.js";
+export * from "./tracing.js";
@@ -41,9 +41,10 @@ export const logger = pino({
 
 const httpLoggerOptions: Options = {
   logger,
-  // Don't log health checks
+  // Don't log health / readiness probes or metrics scrapes
   autoLogging: {
-    ignore: (req: IncomingMessage) => req.url === "/health",
+    ignore: (req: IncomingMessage) =>
+      req.url === "/health" || req.url === "/ready" || req.url === "/metrics",
   },
   // Custom log level based on status code
   customLogLevel: (
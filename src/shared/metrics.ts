@@ -0,0 +1,106 @@
+/**
+ * shared/metrics.ts — Prometheus metrics registry.
+ *
+ * Every metric lives in one registry that `/metrics` serializes. Metrics
+ * recorded as things happen (HTTP requests, tool calls, upstream fetches)
+ * are defined here; gauges read from another module's state at scrape
+ * time (cache, sessions) are defined next to that state and passed
+ * `registers: [metricsRegistry]`.
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import { Counter, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+export const metricsRegistry = new Registry();
+
+// Process metrics: CPU, memory, event loop lag, GC
+collectDefaultMetrics({ register: metricsRegistry });
+
+/** Latency buckets (seconds) shared by request-style histograms. */
+const LATENCY_BUCKETS = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// ─── HTTP ────────────────────────────────────────────────────────────────────
+
+export const httpRequestsTotal = new Counter({
+  name: "http_requests_total",
+  help: "HTTP requests by method, route and status code",
+  labelNames: ["method", "route", "status"] as const,
+  registers: [metricsRegistry],
+});
+
+export const httpRequestDuration = new Histogram({
+  name: "http_request_duration_seconds",
+  help: "HTTP request latency by method, route and status code",
+  labelNames: ["method", "route", "status"] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Route label for a finished request: the matched Express route pattern,
+ * or "unmatched" so arbitrary paths can't create unbounded label values.
+ */
+export function routeLabel(req: Request): string {
+  return req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+}
+
+/**
+ * Run `callback` once when a response is done: finished, or its connection
+ * closed first (client abort, or a streaming response torn down).
+ */
+export function onResponseDone(res: Response, callback: () => void): void {
+  let done = false;
+  const once = () => {
+    if (done) return;
+    done = true;
+    callback();
+  };
+  res.on("finish", once);
+  res.on("close", once);
+}
+
+/**
+ * Express middleware that counts and times every request per route.
+ * Requests abandoned before a status was sent are labelled "aborted".
+ */
+export function httpMetrics() {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const stopTimer = httpRequestDuration.startTimer();
+    onResponseDone(res, () => {
+      const status = res.headersSent ? String(res.statusCode) : "aborted";
+      const labels = { method: req.method, route: routeLabel(req), status };
+      stopTimer(labels);
+      httpRequestsTotal.inc(labels);
+    });
+    next();
+  };
+}
+
+// ─── Tools ───────────────────────────────────────────────────────────────────
+
+export const toolCallsTotal = new Counter({
+  name: "mcp_tool_calls_total",
+  help: "MCP tool invocations by tool name and outcome (success or error)",
+  labelNames: ["tool", "outcome"] as const,
+  registers: [metricsRegistry],
+});
+
+export const toolCallDuration = new Histogram({
+  name: "mcp_tool_call_duration_seconds",
+  help: "MCP tool call latency by tool name",
+  labelNames: ["tool"] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+// ─── Upstream APIs ───────────────────────────────────────────────────────────
+
+export const upstreamRequestDuration = new Histogram({
+  name: "upstream_request_duration_seconds",
+  help: "Upstream HTTP attempt latency by host and status code (\"error\" for network failures)",
+  labelNames: ["host", "status"] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
@@ -0,0 +1,134 @@
+/**
+ * shared/tracing.ts — OpenTelemetry tracing.
+ *
+ * Spans cover each HTTP request, each MCP tool call, geocoding and every
+ * `cachedFetchJson` call, so a slow compound tool shows which upstream
+ * was the culprit. Incoming W3C `traceparent` headers are honoured, so
+ * the request span joins the caller's trace.
+ *
+ * Until `startTracing()` registers a provider, the API hands out no-op
+ * spans: instrumented code costs next to nothing when tracing is off.
+ */
+
+import {
+  context,
+  propagation,
+  trace,
+  SpanKind,
+  SpanStatusCode,
+  type Attributes,
+  type Span,
+} from "@opentelemetry/api";
+import { NodeTracerProvider, BatchSpanProcessor } from "@opentelemetry/sdk-trace-node";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  ATTR_ERROR_TYPE,
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_SERVICE_NAME,
+  ATTR_SERVICE_VERSION,
+  ATTR_URL_PATH,
+} from "@opentelemetry/semantic-conventions";
+import type { Request, Response, NextFunction } from "express";
+import { onResponseDone, routeLabel } from "./metrics.js";
+
+export const tracer = trace.getTracer("weather-mcp-server");
+
+// ─── Provider ────────────────────────────────────────────────────────────────
+
+let provider: NodeTracerProvider | null = null;
+
+/** Options for `startTracing`. */
+export interface TracingOptions {
+  serviceName: string;
+  serviceVersion: string;
+}
+
+/**
+ * Register a tracer provider exporting spans over OTLP/HTTP.
+ *
+ * The exporter reads the standard `OTEL_EXPORTER_OTLP_*` variables
+ * (endpoint, headers, timeout).
+ */
+export function startTracing(options: TracingOptions): void {
+  if (provider) return;
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: options.serviceName,
+      [ATTR_SERVICE_VERSION]: options.serviceVersion,
+    }),
+    spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter())],
+  });
+  // Also installs the async context manager and the W3C propagator
+  provider.register();
+}
+
+/**
+ * Flush pending spans and shut the provider down (shutdown).
+ */
+export async function stopTracing(): Promise<void> {
+  if (!provider) return;
+  await provider.shutdown();
+  provider = null;
+}
+
+// ─── Spans ───────────────────────────────────────────────────────────────────
+
+/**
+ * Run `fn` inside a new active span, ending it when `fn` settles.
+ * A thrown error is recorded on the span and rethrown.
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Express middleware that opens a server span per request, continuing
+ * the trace from the incoming `traceparent` header if there is one.
+ * The span also ends when the connection closes without a response.
+ */
+export function httpTracing() {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const parent = propagation.extract(context.active(), req.headers);
+    const span = tracer.startSpan(
+      req.method,
+      {
+        kind: SpanKind.SERVER,
+        attributes: { [ATTR_HTTP_REQUEST_METHOD]: req.method, [ATTR_URL_PATH]: req.path },
+      },
+      parent
+    );
+
+    onResponseDone(res, () => {
+      const route = routeLabel(req);
+      span.updateName(`${req.method} ${route}`);
+      span.setAttribute(ATTR_HTTP_ROUTE, route);
+      if (!res.headersSent) {
+        span.setAttribute(ATTR_ERROR_TYPE, "aborted");
+      } else {
+        span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+        if (res.statusCode >= 500) span.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      span.end();
+    });
+
+    context.with(trace.setSpan(parent, span), next);
+  };
+}
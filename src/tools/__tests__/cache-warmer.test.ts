@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from "vitest";
+import { warmCache, stopCacheWarming } from "../cache-warmer.js";
+import { resetCache, getCache, TTL_REALTIME } from "../shared/cache/index.js";
+import { resetCircuitBreakers } from "../shared/circuit-breaker.js";
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const WEATHER = {
+  current: {
+    time: "2025-07-01T12:00",
+    interval: 900,
+    temperature_2m: 21,
+    relative_humidity_2m: 40,
+    apparent_temperature: 21,
+    wind_speed_10m: 8,
+    wind_direction_10m: 180,
+    weather_code: 1,
+  },
+  current_units: { temperature_2m: "°C", relative_humidity_2m: "%", wind_speed_10m: "km/h" },
+};
+
+const MINUTE = 60 * 1000;
+const TARGETS = {
+  locations: [{ latitude: 39.74, longitude: -104.99 }],
+  tools: ["get_weather"],
+  intervalMs: 4 * MINUTE,
+};
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200 });
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("warmCache", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    resetCache();
+    resetCircuitBreakers();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    fetchMock = vi.fn().mockImplementation(async () => jsonResponse(WEATHER));
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  afterAll(async () => {
+    await stopCacheWarming();
+  });
+
+  it("fetches the configured tools and marks the entries as prewarmed", async () => {
+    expect(await warmCache(TARGETS)).toEqual({ calls: 1, failures: 0 });
+
+    const stats = await getCache().stats();
+    expect(stats.prewarmed).toHaveLength(1);
+    expect(stats.prewarmed[0]).toContain("api.open-meteo.com/v1/forecast");
+  });
+
+  it("leaves entries that outlive the next run alone", async () => {
+    await warmCache(TARGETS);
+    fetchMock.mockClear();
+
+    await warmCache(TARGETS);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("refreshes entries that would expire before the next run", async () => {
+    await warmCache(TARGETS);
+    fetchMock.mockClear();
+    vi.advanceTimersByTime(TTL_REALTIME - 2 * MINUTE);
+
+    await warmCache(TARGETS);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips unknown tools and counts failed calls", async () => {
+    fetchMock.mockImplementation(async () => new Response("{}", { status: 400 }));
+
+    const result = await warmCache({ ...TARGETS, tools: ["get_weather", "no_such_tool"] });
+    expect(result).toEqual({ calls: 1, failures: 1 });
+    expect((await getCache().stats()).prewarmed).toEqual([]);
+  });
+});
@@ -0,0 +1,301 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { AjvJsonSchemaValidator } from "@modelcontextprotocol/sdk/validation/ajv";
+import { registerAllTools } from "../index.js";
+import { IN_PROCESS } from "../shared/scopes.js";
+import { resetCache } from "../shared/cache/index.js";
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const WEATHER = {
+  current: {
+    time: "2025-07-01T12:00",
+    temperature_2m: 38,
+    relative_humidity_2m: 20,
+    apparent_temperature: 40,
+    wind_speed_10m: 12,
+    wind_direction_10m: 200,
+    weather_code: 0,
+  },
+  current_units: { temperature_2m: "°C", relative_humidity_2m: "%", wind_speed_10m: "km/h" },
+};
+
+const SEVERE_FORECAST = {
+  current: {
+    temperature_2m: 38,
+    apparent_temperature: 40,
+    wind_speed_10m: 12,
+    wind_gusts_10m: 20,
+    weather_code: 0,
+    precipitation: 0,
+    snowfall: 0,
+  },
+  current_units: {
+    temperature_2m: "°C",
+    apparent_temperature: "°C",
+    wind_speed_10m: "km/h",
+    wind_gusts_10m: "km/h",
+    precipitation: "mm",
+    snowfall: "cm",
+  },
+  daily: {
+    time: ["2025-07-01"],
+    temperature_2m_max: [39],
+    temperature_2m_min: [24],
+    apparent_temperature_max: [41],
+    apparent_temperature_min: [25],
+    precipitation_sum: [0],
+    snowfall_sum: [0],
+    wind_speed_10m_max: [15],
+    wind_gusts_10m_max: [25],
+    weather_code: [0],
+  },
+};
+
+const SEVERE_AQ = { current: { us_aqi: 40, uv_index: 4 } };
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200 });
+}
+
+// ─── Generic upstream ─────────────────────────────────────────────────────────
+
+const NOW = new Date("2025-07-01T12:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DENVER = {
+  id: 5419384,
+  name: "Denver",
+  latitude: 39.74,
+  longitude: -104.98,
+  country: "United States",
+  country_code: "US",
+  admin1: "Colorado",
+  elevation: 1609,
+  population: 715522,
+  timezone: "America/Denver",
+};
+
+/** Dates from `start` to `end` inclusive (YYYY-MM-DD). */
+function dateRange(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let t = Date.parse(`${start}T00:00:00Z`); t <= Date.parse(`${end}T00:00:00Z`); t += DAY_MS) {
+    dates.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+/** A plausible value for an Open-Meteo variable on `day`. */
+function sample(variable: string, day: string): number | string {
+  if (variable.startsWith("sunrise")) return `${day}T05:30`;
+  if (variable.startsWith("sunset")) return `${day}T20:15`;
+  if (variable.includes("weather_code")) return 2;
+  if (variable.includes("direction")) return 225;
+  if (variable.includes("humidity")) return 45;
+  if (variable.includes("soil_moisture")) return 0.25;
+  return 10;
+}
+
+/**
+ * Answer any Open-Meteo request with every variable and day it asks for,
+ * shaped like the real API.
+ */
+function openMeteo(url: string): unknown {
+  const { hostname, searchParams } = new URL(url);
+  if (hostname.startsWith("geocoding-api")) return { results: [DENVER] };
+
+  const today = NOW.toISOString().slice(0, 10);
+  const pastDays = Number(searchParams.get("past_days") ?? 0);
+  const forecastDays = Number(searchParams.get("forecast_days") ?? 7);
+  const days = dateRange(
+    searchParams.get("start_date") ?? new Date(NOW.getTime() - pastDays * DAY_MS).toISOString().slice(0, 10),
+    searchParams.get("end_date") ?? new Date(NOW.getTime() + (forecastDays - 1) * DAY_MS).toISOString().slice(0, 10)
+  );
+  const hours = days.flatMap((day) => Array.from({ length: 24 }, (_, h) => `${day}T${String(h).padStart(2, "0")}:00`));
+
+  const body: Record<string, unknown> = {
+    latitude: Number(searchParams.get("latitude")),
+    longitude: Number(searchParams.get("longitude")),
+    timezone: "GMT",
+    utc_offset_seconds: 0,
+    elevation: 1609,
+  };
+  for (const block of ["current", "hourly", "daily"] as const) {
+    const variables = searchParams.get(block)?.split(",");
+    if (!variables) continue;
+    const time = block === "daily" ? days : hours;
+    body[block] =
+      block === "current"
+        ? Object.fromEntries([["time", `${today}T12:00`], ["interval", 900], ...variables.map((v) => [v, sample(v, today)])])
+        : Object.fromEntries([["time", time], ...variables.map((v) => [v, time.map((t) => sample(v, t.slice(0, 10)))])]);
+    body[`${block}_units`] = Object.fromEntries(variables.map((v) => [v, "unit"]));
+  }
+  return body;
+}
+
+const COORDINATES = { latitude: 39.74, longitude: -104.98 };
+
+/** Arguments exercising every registered tool's main path. */
+const TOOL_CALLS: Record<string, Record<string, unknown>> = {
+  search_locations: { query: "Denver" },
+  get_weather: COORDINATES,
+  get_forecast: COORDINATES,
+  get_hourly_forecast: COORDINATES,
+  get_historical_weather: { ...COORDINATES, start_date: "2025-06-01", end_date: "2025-06-03", include_hourly: true },
+  get_ensemble_forecast: COORDINATES,
+  get_air_quality: COORDINATES,
+  get_marine: COORDINATES,
+  get_soil_conditions: COORDINATES,
+  get_wind: COORDINATES,
+  get_precipitation: COORDINATES,
+  get_humidity: COORDINATES,
+  get_fire_weather: COORDINATES,
+  get_growing_conditions: COORDINATES,
+  get_outdoor_conditions: COORDINATES,
+  get_marine_conditions: COORDINATES,
+  get_severe_weather: COORDINATES,
+  get_climate_anomalies: COORDINATES,
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+async function connectClient(): Promise<Client> {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  registerAllTools(server, IN_PROCESS);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test-client", version: "0.0.0" });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("structured tool output", () => {
+  beforeEach(() => {
+    resetCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("every tool declares an output schema", async () => {
+    const client = await connectClient();
+    const { tools } = await client.listTools();
+
+    expect(tools.length).toBeGreaterThan(0);
+    for (const tool of tools) {
+      expect(tool.outputSchema, tool.name).toBeDefined();
+    }
+  });
+
+  it("covers every registered tool", async () => {
+    const client = await connectClient();
+    const { tools } = await client.listTools();
+
+    expect(tools.map((tool) => tool.name).sort()).toEqual(Object.keys(TOOL_CALLS).sort());
+  });
+
+  it.each(Object.entries(TOOL_CALLS))("%s returns structured content matching its output schema", async (name, args) => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+    vi.stubGlobal("fetch", vi.fn(async (url: string) => jsonResponse(openMeteo(url))));
+    const client = await connectClient();
+    const { tools } = await client.listTools();
+    const tool = tools.find((t) => t.name === name)!;
+
+    for (const units of ["metric", "imperial"]) {
+      const result = await client.callTool({ name, arguments: { ...args, units } });
+
+      expect(result.isError, JSON.stringify(result.content)).toBeFalsy();
+      const validate = new AjvJsonSchemaValidator().getValidator(tool.outputSchema!);
+      expect(validate(result.structuredContent).errorMessage).toBeUndefined();
+    }
+  });
+
+  it("get_weather returns structured current conditions", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(jsonResponse(WEATHER)));
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: "get_weather",
+      arguments: { latitude: 33.45, longitude: -112.07, units: "metric" },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      location: { latitude: 33.45, longitude: -112.07 },
+      alternatives: [],
+      units: "metric",
+      current: { temperature_2m: 38 },
+    });
+  });
+
+  it("get_severe_weather returns the evaluated alerts", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) =>
+        jsonResponse(url.includes("air-quality") ? SEVERE_AQ : SEVERE_FORECAST)
+      )
+    );
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: "get_severe_weather",
+      arguments: { latitude: 33.45, longitude: -112.07, units: "metric" },
+    });
+
+    expect(result.isError).toBeFalsy();
+    const { alerts } = result.structuredContent as { alerts: { category: string }[] };
+    expect(alerts.some((alert) => alert.category === "Heat")).toBe(true);
+  });
+
+  it("get_weather flags data served stale after an upstream failure", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(WEATHER));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = await connectClient();
+    const args = { latitude: 33.45, longitude: -112.07, units: "metric" };
+
+    await client.callTool({ name: "get_weather", arguments: args });
+    fetchMock.mockResolvedValue(new Response("", { status: 502 }));
+    vi.advanceTimersByTime(30 * 60 * 1000);
+    const result = await client.callTool({ name: "get_weather", arguments: args });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      current: { temperature_2m: 38 },
+      staleData: [{ source: "api.open-meteo.com/v1/forecast", ageSeconds: 1800, reason: "upstream error" }],
+    });
+  });
+
+  it("rejects a model comparison with fewer than 2 different models as invalid params", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: "get_forecast",
+      arguments: { latitude: 33.45, longitude: -112.07, compare_models: ["gfs_seamless", "gfs_seamless"] },
+    });
+
+    expect(result.isError).toBe(true);
+    const [{ text }] = result.content as { text: string }[];
+    expect(text).toContain("-32602");
+    expect(text).toContain("compare_models needs at least 2 different models");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("reports an unresolvable location as a tool error", async () => {
+    const client = await connectClient();
+
+    const result = await client.callTool({ name: "get_weather", arguments: { latitude: 10 } });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+  });
+});
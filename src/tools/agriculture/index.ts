@@ -5,57 +5,75 @@
  * and frost risk for growing condition assessment.
  */
 
-import { z } from "zod";
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { geocodeCity, type GeoResult } from "../shared/geocoding.js";
-import { cachedFetchJson } from "../shared/fetch.js";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
+import type { GeoResult } from "../shared/geocoding.js";
+import { formatLocationName } from "../shared/location-name.js";
+import { fetchForecastData } from "../shared/forecast-data.js";
 import { TTL_FORECAST } from "../shared/cache/index.js";
+import {
+  DEFAULT_UNITS,
+  unitsSchema,
+  getUnitLabels,
+  toFahrenheit,
+  toInches,
+  fromFahrenheit,
+  type UnitSystem,
+} from "../shared/units.js";
 import type { AgricultureResponse, GrowingConditions, PlantingWindow } from "./types.js";
+import { agricultureOutputSchema } from "./schema.js";
 
-// Re-export types
+// Re-export types and schemas
 export * from "./types.js";
+export * from "./schema.js";
 
 /**
  * Fetch agriculture data for coordinates.
  */
 async function fetchAgricultureData(
   latitude: number,
-  longitude: number
+  longitude: number,
+  units: UnitSystem
 ): Promise<AgricultureResponse> {
-  const params = new URLSearchParams({
-    latitude: latitude.toString(),
-    longitude: longitude.toString(),
-    current: "temperature_2m",
-    hourly: [
-      "soil_temperature_6cm",
-      "soil_temperature_18cm",
-      "soil_moisture_0_to_1cm",
-      "soil_moisture_3_to_9cm",
-      "soil_moisture_9_to_27cm",
-      "et0_fao_evapotranspiration",
-    ].join(","),
-    daily: [
-      "temperature_2m_min",
-      "temperature_2m_max",
-      "precipitation_sum",
-      "precipitation_probability_max",
-      "et0_fao_evapotranspiration",
-    ].join(","),
-    temperature_unit: "fahrenheit",
-    precipitation_unit: "inch",
-    timezone: "auto",
-    forecast_days: "7",
-    forecast_hours: "1",
-  });
-
-  const url = `https://api.open-meteo.com/v1/forecast?${params}`;
-  return cachedFetchJson<AgricultureResponse>(url, { ttlMs: TTL_FORECAST });
+  return fetchForecastData<AgricultureResponse>(
+    latitude,
+    longitude,
+    units,
+    {
+      current: ["temperature_2m"],
+      hourly: [
+        "soil_temperature_6cm",
+        "soil_temperature_18cm",
+        "soil_moisture_0_to_1cm",
+        "soil_moisture_3_to_9cm",
+        "soil_moisture_9_to_27cm",
+        "et0_fao_evapotranspiration",
+      ],
+      daily: [
+        "temperature_2m_min",
+        "temperature_2m_max",
+        "precipitation_sum",
+        "precipitation_probability_max",
+        "et0_fao_evapotranspiration",
+      ],
+      forecastDays: 7,
+      forecastHours: 1,
+    },
+    { ttlMs: TTL_FORECAST }
+  );
 }
 
 /**
  * Analyze growing conditions.
  */
-function analyzeGrowingConditions(data: AgricultureResponse): GrowingConditions {
+function analyzeGrowingConditions(data: AgricultureResponse, units: UnitSystem): GrowingConditions {
   const { hourly, daily } = data;
 
   // Calculate average root zone moisture
@@ -77,7 +95,7 @@ function analyzeGrowingConditions(data: AgricultureResponse): GrowingConditions
   }
 
   // Check for frost risk (min temp below 32°F)
-  const frostDays = daily.time.filter((_, i) => daily.temperature_2m_min[i] <= 32);
+  const frostDays = daily.time.filter((_, i) => toFahrenheit(daily.temperature_2m_min[i], units) <= 32);
   const frostRisk = frostDays.length > 0;
 
   // Calculate weekly precipitation forecast
@@ -90,10 +108,10 @@ function analyzeGrowingConditions(data: AgricultureResponse): GrowingConditions
   const waterBalance = weeklyPrecipForecast - weeklyET0;
 
   // Irrigation recommendation
-  const irrigationNeeded = soilMoistureStatus === "Dry" || waterBalance < -0.5;
+  const irrigationNeeded = soilMoistureStatus === "Dry" || toInches(waterBalance, units) < -0.5;
 
-  // Calculate growing degree days (base 50°F)
-  const baseTemp = 50;
+  // Calculate growing degree days (base 50°F / 10°C, in the requested units)
+  const baseTemp = fromFahrenheit(50, units);
   let gdd = 0;
   for (let i = 0; i < daily.time.length; i++) {
     const avgTemp = (daily.temperature_2m_max[i] + daily.temperature_2m_min[i]) / 2;
@@ -116,20 +134,25 @@ function analyzeGrowingConditions(data: AgricultureResponse): GrowingConditions
 
 /**
  * Check planting windows based on soil temperature.
+ *
+ * Thresholds are defined in °F; `minSoilTemp` is reported in the
+ * requested unit system.
  */
-function checkPlantingWindows(soilTemp: number): PlantingWindow[] {
-  const crops: PlantingWindow[] = [
-    { cropType: "Cold-season (lettuce, spinach, peas)", minSoilTemp: 40, suitable: false },
-    { cropType: "Cool-season (broccoli, carrots, beets)", minSoilTemp: 50, suitable: false },
-    { cropType: "Warm-season (tomatoes, peppers, beans)", minSoilTemp: 60, suitable: false },
-    { cropType: "Hot-season (melons, squash, corn)", minSoilTemp: 70, suitable: false },
+function checkPlantingWindows(soilTemp: number, units: UnitSystem): PlantingWindow[] {
+  const thresholdsF = [
+    { cropType: "Cold-season (lettuce, spinach, peas)", minSoilTempF: 40 },
+    { cropType: "Cool-season (broccoli, carrots, beets)", minSoilTempF: 50 },
+    { cropType: "Warm-season (tomatoes, peppers, beans)", minSoilTempF: 60 },
+    { cropType: "Hot-season (melons, squash, corn)", minSoilTempF: 70 },
   ];
 
-  for (const crop of crops) {
-    crop.suitable = soilTemp >= crop.minSoilTemp;
-  }
+  const soilTempF = toFahrenheit(soilTemp, units);
 
-  return crops;
+  return thresholdsF.map(({ cropType, minSoilTempF }) => ({
+    cropType,
+    minSoilTemp: fromFahrenheit(minSoilTempF, units),
+    suitable: soilTempF >= minSoilTempF,
+  }));
 }
 
 /**
@@ -139,12 +162,12 @@ function formatAgricultureReport(
   location: GeoResult,
   data: AgricultureResponse,
   conditions: GrowingConditions,
-  plantingWindows: PlantingWindow[]
+  plantingWindows: PlantingWindow[],
+  units: UnitSystem
 ): string {
   const { hourly, hourly_units, daily, daily_units } = data;
-  const locationName = location.admin1
-    ? `${location.name}, ${location.admin1}, ${location.country}`
-    : `${location.name}, ${location.country}`;
+  const tempLabel = getUnitLabels(units).temperature;
+  const locationName = formatLocationName(location);
 
   const lines = [
     `Growing Conditions for ${locationName}`,
@@ -181,14 +204,14 @@ function formatAgricultureReport(
   }
 
   lines.push("");
-  lines.push(`Growing Degree Days (7-day, base 50°F): ${conditions.growingDegreeDays}`);
+  lines.push(`Growing Degree Days (7-day, base ${fromFahrenheit(50, units)}${tempLabel}): ${conditions.growingDegreeDays}`);
   lines.push("");
   lines.push("=== Planting Windows ===");
   lines.push(`Based on root zone soil temp of ${hourly.soil_temperature_18cm[0]}${hourly_units.soil_temperature_18cm}:`);
 
   for (const crop of plantingWindows) {
     const status = crop.suitable ? "✓ Ready" : "✗ Too cold";
-    lines.push(`  ${status} - ${crop.cropType} (need ${crop.minSoilTemp}°F+)`);
+    lines.push(`  ${status} - ${crop.cropType} (need ${crop.minSoilTemp}${tempLabel}+)`);
   }
 
   lines.push("");
@@ -206,38 +229,48 @@ function formatAgricultureReport(
 /**
  * Register the get_growing_conditions tool on an MCP server.
  */
-export function registerAgricultureTool(server: McpServer): void {
-  server.tool(
+export function registerAgricultureTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
     "get_growing_conditions",
-    "Get agricultural growing conditions for a location. Includes soil moisture/temperature, evapotranspiration, precipitation forecast, frost risk, and planting recommendations.",
     {
-      city: z
-        .string()
-        .min(1, "City name cannot be empty")
-        .describe("City or location name to get growing conditions for"),
+      description:
+        "Get agricultural growing conditions for a location. Includes soil moisture/temperature, evapotranspiration, precipitation forecast, frost risk, and planting recommendations.",
+      inputSchema: {
+        ...locationSchema,
+        units: unitsSchema,
+      },
+      outputSchema: agricultureOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
     },
-    async ({ city }) => {
+    withFreshness(async ({ units = DEFAULT_UNITS, ...input }) => {
       try {
-        const location = await geocodeCity(city);
+        const resolved = await resolveLocation(input);
 
-        if (!location) {
+        if (!resolved.ok) {
           return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Could not find a location matching "${city}". Try a more specific location name.`,
-              },
-            ],
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
           };
         }
 
-        const data = await fetchAgricultureData(location.latitude, location.longitude);
-        const conditions = analyzeGrowingConditions(data);
-        const plantingWindows = checkPlantingWindows(data.hourly.soil_temperature_18cm[0]);
-        const report = formatAgricultureReport(location, data, conditions, plantingWindows);
+        const { location, alternatives } = resolved;
+
+        const data = await fetchAgricultureData(location.latitude, location.longitude, units);
+        const conditions = analyzeGrowingConditions(data, units);
+        const plantingWindows = checkPlantingWindows(data.hourly.soil_temperature_18cm[0], units);
+        const report = formatAgricultureReport(location, data, conditions, plantingWindows, units);
 
         return {
-          content: [{ type: "text" as const, text: report }],
+          content: [{ type: "text" as const, text: appendAlternatives(report, alternatives) }],
+          structuredContent: {
+            location,
+            alternatives,
+            units,
+            conditions,
+            plantingWindows,
+            daily: data.daily,
+            daily_units: data.daily_units,
+          },
         };
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -245,12 +278,12 @@ export function registerAgricultureTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error fetching growing conditions for "${city}": ${message}`,
+              text: `Error fetching growing conditions for "${describeLocationInput(input)}": ${message}`,
             },
           ],
           isError: true,
         };
       }
-    }
+    })
   );
 }
@@ -0,0 +1,40 @@
+/**
+ * tools/agriculture/schema.ts — Output schema for the agriculture tool.
+ */
+
+import { z } from "zod";
+import {
+  locationOutputSchema,
+  unitSystemSchema,
+  seriesBlockSchema,
+  unitLabelsSchema,
+} from "../shared/output.js";
+
+/** Mirrors `GrowingConditions`. */
+export const growingConditionsSchema = z.object({
+  soilMoistureStatus: z.enum(["Dry", "Optimal", "Wet", "Saturated"]),
+  irrigationNeeded: z.boolean(),
+  frostRisk: z.boolean(),
+  frostDays: z.array(z.string()),
+  growingDegreeDays: z.number(),
+  weeklyPrecipForecast: z.number(),
+  weeklyET0: z.number(),
+  waterBalance: z.number(),
+});
+
+/** Mirrors `PlantingWindow`. */
+export const plantingWindowSchema = z.object({
+  cropType: z.string(),
+  minSoilTemp: z.number(),
+  suitable: z.boolean(),
+});
+
+/** Structured output of get_growing_conditions. */
+export const agricultureOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  conditions: growingConditionsSchema,
+  plantingWindows: z.array(plantingWindowSchema),
+  daily: seriesBlockSchema,
+  daily_units: unitLabelsSchema,
+};
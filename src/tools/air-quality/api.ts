@@ -1,11 +1,12 @@
 /**
- * tools/air-quality/api.ts — Open-Meteo Air Quality API functions.
+ * tools/air-quality/api.ts — Air quality API functions.
  */
 
 import type { GeoResult } from "../shared/geocoding.js";
+import { formatLocationName } from "../shared/location-name.js";
 import type { AirQualityResponse } from "./types.js";
 import { getUSAQILevel, getUVIndexLevel, getPollenLevel } from "./constants.js";
-import { cachedFetchJson } from "../shared/fetch.js";
+import { fetchFromProvider } from "../shared/providers/index.js";
 
 /**
  * Fetch current air quality for coordinates.
@@ -14,32 +15,10 @@ export async function fetchAirQuality(
   latitude: number,
   longitude: number
 ): Promise<AirQualityResponse> {
-  const params = new URLSearchParams({
-    latitude: latitude.toString(),
-    longitude: longitude.toString(),
-    current: [
-      "us_aqi",
-      "european_aqi",
-      "pm10",
-      "pm2_5",
-      "carbon_monoxide",
-      "nitrogen_dioxide",
-      "sulphur_dioxide",
-      "ozone",
-      "uv_index",
-      "uv_index_clear_sky",
-      "alder_pollen",
-      "birch_pollen",
-      "grass_pollen",
-      "mugwort_pollen",
-      "olive_pollen",
-      "ragweed_pollen",
-    ].join(","),
-    timezone: "auto",
-  });
-
-  const url = `https://air-quality-api.open-meteo.com/v1/air-quality?${params}`;
-  return cachedFetchJson<AirQualityResponse>(url);
+  const { data } = await fetchFromProvider("airQuality", latitude, longitude, (provider) =>
+    provider.getAirQuality(latitude, longitude)
+  );
+  return data;
 }
 
 /**
@@ -50,9 +29,7 @@ export function formatAirQualityReport(
   data: AirQualityResponse
 ): string {
   const { current, current_units } = data;
-  const locationName = location.admin1
-    ? `${location.name}, ${location.admin1}, ${location.country}`
-    : `${location.name}, ${location.country}`;
+  const locationName = formatLocationName(location);
 
   const usAqiLevel = getUSAQILevel(current.us_aqi);
   const uvLevel = getUVIndexLevel(current.uv_index);
@@ -4,48 +4,63 @@
  * Exports a function to register the air quality tool on an MCP server.
  */
 
-import { z } from "zod";
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { geocodeCity } from "../shared/geocoding.js";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
 import { fetchAirQuality, formatAirQualityReport } from "./api.js";
+import { airQualityOutputSchema } from "./schema.js";
 
-// Re-export types and constants for consumers
+// Re-export types, schemas and constants for consumers
 export * from "./types.js";
+export * from "./schema.js";
 export * from "./constants.js";
 
 /**
  * Register the get_air_quality tool on an MCP server.
  */
-export function registerAirQualityTool(server: McpServer): void {
-  server.tool(
+export function registerAirQualityTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
     "get_air_quality",
-    "Get current air quality for a city. Returns AQI (US/EU), pollutant levels (PM2.5, PM10, ozone), UV index, and pollen levels.",
     {
-      city: z
-        .string()
-        .min(1, "City name cannot be empty")
-        .describe("City name to get air quality for (e.g., 'Los Angeles', 'Beijing', 'London')"),
+      description:
+        "Get current air quality for a city. Returns AQI (US/EU), pollutant levels (PM2.5, PM10, ozone), UV index, and pollen levels.",
+      inputSchema: {
+        ...locationSchema,
+      },
+      outputSchema: airQualityOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
     },
-    async ({ city }) => {
+    withFreshness(async ({ ...input }) => {
       try {
-        const location = await geocodeCity(city);
+        const resolved = await resolveLocation(input);
 
-        if (!location) {
+        if (!resolved.ok) {
           return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Could not find a location matching "${city}". Try a more specific city name.`,
-              },
-            ],
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
           };
         }
 
+        const { location, alternatives } = resolved;
+
         const airQuality = await fetchAirQuality(location.latitude, location.longitude);
         const report = formatAirQualityReport(location, airQuality);
 
         return {
-          content: [{ type: "text" as const, text: report }],
+          content: [{ type: "text" as const, text: appendAlternatives(report, alternatives) }],
+          structuredContent: {
+            location,
+            alternatives,
+            timezone: airQuality.timezone,
+            current: airQuality.current,
+            current_units: airQuality.current_units,
+          },
         };
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -53,12 +68,12 @@ export function registerAirQualityTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error fetching air quality for "${city}": ${message}`,
+              text: `Error fetching air quality for "${describeLocationInput(input)}": ${message}`,
             },
           ],
           isError: true,
         };
       }
-    }
+    })
   );
 }
@@ -0,0 +1,14 @@
+/**
+ * tools/air-quality/schema.ts — Output schema for the air quality tool.
+ */
+
+import { z } from "zod";
+import { locationOutputSchema, currentBlockSchema, unitLabelsSchema } from "../shared/output.js";
+
+/** Structured output of get_air_quality. */
+export const airQualityOutputSchema = {
+  ...locationOutputSchema,
+  timezone: z.string(),
+  current: currentBlockSchema,
+  current_units: unitLabelsSchema,
+};
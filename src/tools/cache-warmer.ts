@@ -0,0 +1,138 @@
+/**
+ * tools/cache-warmer.ts — Keeps hot locations in the cache.
+ *
+ * Dashboards tend to poll the same few dozen places. For each configured
+ * location the warmer calls the configured tools on a schedule shorter
+ * than the realtime TTL, through an in-process MCP client so every fetch
+ * (geocoding included) follows exactly the path a real call takes. The
+ * calls run inside `runWarming`, so entries close to expiry are refreshed
+ * ahead of time and show up as prewarmed in the cache stats.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { config, type WarmLocation } from "../config/index.js";
+import { logger } from "../shared/index.js";
+import { runWarming } from "./shared/warming.js";
+import { IN_PROCESS } from "./shared/scopes.js";
+import { registerAllTools } from "./index.js";
+
+const log = logger.child({ module: "cache-warmer" });
+
+/** Tool calls in flight at once during a warming run. */
+const WARM_CONCURRENCY = 4;
+
+/** What to warm and how often. */
+export interface WarmTargets {
+  locations: readonly WarmLocation[];
+  tools: readonly string[];
+  intervalMs: number;
+}
+
+/** Outcome of one warming run. */
+export interface WarmResult {
+  calls: number;
+  failures: number;
+}
+
+let client: Promise<Client> | null = null;
+let timer: ReturnType<typeof setInterval> | null = null;
+let running: Promise<WarmResult> | null = null;
+
+/** Connect an in-process client to a server with every tool registered. */
+async function connectClient(): Promise<Client> {
+  const server = new McpServer({ name: "cache-warmer", version: "1.0.0" });
+  // Never reachable from the network, so no token is needed
+  registerAllTools(server, IN_PROCESS);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const warmClient = new Client({ name: "cache-warmer", version: "1.0.0" });
+  await Promise.all([server.connect(serverTransport), warmClient.connect(clientTransport)]);
+  return warmClient;
+}
+
+/**
+ * Call every warm tool for every warm location once.
+ *
+ * Entries expiring before the next run (`intervalMs`) are refreshed.
+ * Failed calls are counted and logged, never thrown.
+ */
+export async function warmCache(targets: WarmTargets = {
+  locations: config.cache.warmLocations,
+  tools: config.cache.warmTools,
+  intervalMs: config.cache.warmIntervalMs,
+}): Promise<WarmResult> {
+  client ??= connectClient();
+  const warmClient = await client;
+
+  const { tools: available } = await warmClient.listTools();
+  const known = new Set(available.map((tool) => tool.name));
+  const tools = targets.tools.filter((name) => {
+    if (!known.has(name)) log.warn({ tool: name }, "Unknown tool in CACHE_WARM_TOOLS; skipping");
+    return known.has(name);
+  });
+
+  const calls = targets.locations.flatMap((location) => tools.map((name) => ({ name, location })));
+  const result: WarmResult = { calls: 0, failures: 0 };
+
+  const worker = async () => {
+    for (let call = calls.shift(); call; call = calls.shift()) {
+      result.calls++;
+      try {
+        const response = await runWarming(targets.intervalMs, () =>
+          warmClient.callTool({ name: call!.name, arguments: { ...call!.location } })
+        );
+        if (response.isError) {
+          result.failures++;
+          log.debug({ tool: call.name, location: call.location }, "Warming call returned an error");
+        }
+      } catch (error) {
+        result.failures++;
+        log.debug({ err: error, tool: call.name, location: call.location }, "Warming call failed");
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: WARM_CONCURRENCY }, worker));
+
+  log.info(result, "Cache warming run complete");
+  return result;
+}
+
+/** Run `warmCache`, skipping the run if the previous one is still going. */
+function scheduleRun(): void {
+  if (running) return;
+  running = warmCache();
+  running
+    .catch((error) => log.warn({ err: error }, "Cache warming run failed"))
+    .finally(() => {
+      running = null;
+    });
+}
+
+/**
+ * Warm now, then every `config.cache.warmIntervalMs`. No-op without
+ * configured locations.
+ */
+export function startCacheWarming(): void {
+  if (timer || config.cache.warmLocations.length === 0) return;
+
+  scheduleRun();
+  timer = setInterval(scheduleRun, config.cache.warmIntervalMs);
+  // Allow the process to exit even if the timer is running
+  timer.unref();
+}
+
+/**
+ * Stop scheduled warming and close the in-process client (shutdown).
+ */
+export async function stopCacheWarming(): Promise<void> {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  await running?.catch(() => undefined);
+  const warmClient = await client?.catch(() => null);
+  client = null;
+  await warmClient?.close();
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  computeNormals,
+  compareToNormals,
+  summarizeAnomalies,
+  fetchClimateHistory,
+  convertHistory,
+  HISTORY_CONCURRENCY,
+} from "../index.js";
+import { resetCache } from "../../shared/cache/index.js";
+import { resetCircuitBreakers } from "../../shared/circuit-breaker.js";
+import type { ClimateHistoryResponse } from "../types.js";
+import type { DailyForecast } from "../../forecast/types.js";
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+/** Two years of identical observations around mid-June, plus an unrelated winter day. */
+function history(): ClimateHistoryResponse {
+  const time: string[] = [];
+  for (const year of [1991, 1992]) {
+    for (let day = 1; day <= 30; day++) {
+      time.push(`${year}-06-${String(day).padStart(2, "0")}`);
+    }
+    time.push(`${year}-01-15`);
+  }
+
+  return {
+    latitude: 39.74,
+    longitude: -104.98,
+    timezone: "America/Denver",
+    daily: {
+      time,
+      temperature_2m_max: time.map((t) => (t.includes("-01-") ? 20 : 80)),
+      temperature_2m_min: time.map((t) => (t.includes("-01-") ? 0 : 50)),
+      precipitation_sum: time.map((t) => (t === "1992-06-15" ? null : 0.1)),
+    },
+    daily_units: { temperature_2m_max: "°F", temperature_2m_min: "°F", precipitation_sum: "inch" },
+  };
+}
+
+function forecast(dates: string[], high: number, low: number, precip: number): DailyForecast {
+  return {
+    time: dates,
+    weather_code: dates.map(() => 0),
+    temperature_2m_max: dates.map(() => high),
+    temperature_2m_min: dates.map(() => low),
+    precipitation_sum: dates.map(() => precip),
+    precipitation_probability_max: dates.map(() => 0),
+    wind_speed_10m_max: dates.map(() => 5),
+    wind_gusts_10m_max: dates.map(() => 10),
+    sunrise: dates.map(() => ""),
+    sunset: dates.map(() => ""),
+  };
+}
+
+const WEEK = ["2025-06-12", "2025-06-13", "2025-06-14", "2025-06-15", "2025-06-16", "2025-06-17", "2025-06-18"];
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("climate anomalies", () => {
+  beforeEach(() => {
+    resetCache();
+    resetCircuitBreakers();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("averages the same calendar window across years, skipping missing values", () => {
+    const [normal] = computeNormals(history(), ["2025-06-15"]);
+
+    expect(normal).toEqual({ date: "2025-06-15", temperatureMax: 80, temperatureMin: 50, precipitation: 0.1 });
+  });
+
+  it("fails when no records cover a date", () => {
+    expect(() => computeNormals(history(), ["2025-09-01"])).toThrow("No climate records");
+  });
+
+  it("reports a warm, dry week", () => {
+    const normals = computeNormals(history(), WEEK);
+    const anomalies = compareToNormals(forecast(WEEK, 85, 55, 0), normals);
+    const summary = summarizeAnomalies(anomalies, "imperial");
+
+    expect(anomalies[0].temperatureMaxAnomaly).toBe(5);
+    expect(summary.temperatureTrend).toBe("warmer");
+    expect(summary.precipitationTrend).toBe("drier");
+    expect(summary.headline).toMatch(/^5°F warmer than normal this week, drier than normal/);
+  });
+
+  it("treats small metric anomalies as near normal", () => {
+    const normals = computeNormals(history(), WEEK);
+    const anomalies = compareToNormals(forecast(WEEK, 80.5, 50.5, 0.1), normals);
+    const summary = summarizeAnomalies(anomalies, "metric");
+
+    expect(summary.temperatureTrend).toBe("near normal");
+    expect(summary.precipitationTrend).toBe("near normal");
+  });
+
+  it("fetches every reference year as a whole year, a few at a time", async () => {
+    const starts: string[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockImplementation(async (url: string) => {
+        starts.push(new URL(url).searchParams.get("start_date") ?? "");
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        return new Response(JSON.stringify(history()));
+      })
+    );
+
+    await fetchClimateHistory(39.74, -104.98, "imperial");
+
+    expect(starts).toHaveLength(30);
+    expect(starts).toContain("1991-01-01");
+    expect(starts).toContain("2020-01-01");
+    expect(maxInFlight).toBe(HISTORY_CONCURRENCY);
+  });
+
+  it("leaves out years that fail", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockImplementation(async (url: string) =>
+        url.includes("start_date=1991-")
+          ? new Response("not found", { status: 404 })
+          : new Response(JSON.stringify(history()))
+      )
+    );
+
+    const { daily } = await fetchClimateHistory(39.74, -104.98, "imperial");
+
+    expect(daily.time).toHaveLength(29 * history().daily.time.length);
+  });
+
+  it("fails when every year fails", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockImplementation(async () => new Response("not found", { status: 404 })));
+
+    await expect(fetchClimateHistory(39.74, -104.98, "imperial")).rejects.toThrow();
+  });
+
+  it("converts metric history to imperial, keeping missing values", () => {
+    const metric: ClimateHistoryResponse = {
+      ...history(),
+      daily: {
+        time: ["1991-06-15", "1991-06-16"],
+        temperature_2m_max: [30, null],
+        temperature_2m_min: [10, 0],
+        precipitation_sum: [25.4, null],
+      },
+    };
+
+    const { daily } = convertHistory(metric, "imperial");
+
+    expect(daily.temperature_2m_max).toEqual([86, null]);
+    expect(daily.temperature_2m_min).toEqual([50, 32]);
+    expect(daily.precipitation_sum).toEqual([1, null]);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * tools/climate/constants.ts — Climate normals settings and thresholds.
+ *
+ * Normals follow the WMO standard 30-year reference period. Thresholds
+ * are imperial; metric data is normalised before comparison (see
+ * shared/units.ts).
+ */
+
+// ─── Reference period ────────────────────────────────────────────────────────
+
+/** First year of the climate normals reference period. */
+export const NORMALS_START_YEAR = 1991;
+
+/** Last year of the climate normals reference period. */
+export const NORMALS_END_YEAR = 2020;
+
+/**
+ * Days either side of a calendar date averaged into its normal.
+ * Smooths out single-year noise, especially for precipitation.
+ */
+export const NORMALS_WINDOW_DAYS = 7;
+
+/** Archive requests (one per reference year) in flight at once. */
+export const HISTORY_CONCURRENCY = 4;
+
+// ─── Comparison ──────────────────────────────────────────────────────────────
+
+/** Forecast days compared against normals. */
+export const COMPARISON_DAYS = 7;
+
+// ─── Near-normal bands ───────────────────────────────────────────────────────
+
+/** Mean temperature anomaly (°F) within which a week counts as near normal. */
+export const NEAR_NORMAL_TEMP = 2;
+
+/** Weekly precipitation anomaly (inches) within which a week counts as near normal. */
+export const NEAR_NORMAL_PRECIP = 0.25;
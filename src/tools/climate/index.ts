@@ -0,0 +1,403 @@
+/**
+ * tools/climate/index.ts — Climate anomaly compound tool.
+ *
+ * Compares the 7-day daily forecast against 1991–2020 climate normals
+ * for the same calendar dates, built from the Open-Meteo archive, and
+ * reports per-day and whole-week temperature/precipitation anomalies.
+ */
+
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
+import { formatLocationName } from "../shared/location-name.js";
+import type { GeoResult } from "../shared/geocoding.js";
+import { cachedFetchJson } from "../shared/fetch.js";
+import { TTL_STATIC } from "../shared/cache/index.js";
+import { logger } from "../../shared/index.js";
+import {
+  DEFAULT_UNITS,
+  unitsSchema,
+  getUnitParams,
+  getUnitLabels,
+  toFahrenheit,
+  toFahrenheitDelta,
+  toInches,
+  type UnitSystem,
+} from "../shared/units.js";
+import { fetchDailyForecast } from "../forecast/api.js";
+import type { DailyForecast } from "../forecast/types.js";
+import type {
+  ClimateHistoryResponse,
+  DailyNormal,
+  DailyAnomaly,
+  AnomalySummary,
+  TemperatureTrend,
+  PrecipitationTrend,
+} from "./types.js";
+import {
+  NORMALS_START_YEAR,
+  NORMALS_END_YEAR,
+  NORMALS_WINDOW_DAYS,
+  COMPARISON_DAYS,
+  HISTORY_CONCURRENCY,
+  NEAR_NORMAL_TEMP,
+  NEAR_NORMAL_PRECIP,
+} from "./constants.js";
+import { climateAnomalyOutputSchema } from "./schema.js";
+
+// Re-export types, schemas and constants
+export * from "./types.js";
+export * from "./schema.js";
+export * from "./constants.js";
+
+const log = logger.child({ module: "climate" });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NORMALS_PERIOD = `${NORMALS_START_YEAR}–${NORMALS_END_YEAR}`;
+
+function round(value: number, decimals: number = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function signed(value: number): string {
+  return value > 0 ? `+${value}` : `${value}`;
+}
+
+// ─── Data fetching ───────────────────────────────────────────────────────────
+
+/** Archive URL for one whole reference year at a location, in metric. */
+function archiveYearUrl(latitude: number, longitude: number, year: number): string {
+  const params = new URLSearchParams({
+    latitude: latitude.toString(),
+    longitude: longitude.toString(),
+    start_date: `${year}-01-01`,
+    end_date: `${year}-12-31`,
+    daily: ["temperature_2m_max", "temperature_2m_min", "precipitation_sum"].join(","),
+    ...getUnitParams("metric"),
+    timezone: "auto",
+  });
+  return `https://archive-api.open-meteo.com/v1/archive?${params}`;
+}
+
+/**
+ * Fetch daily observations for every year of the reference period.
+ *
+ * Whole years are requested, so the cached responses depend only on the
+ * location and serve any dates; always in metric so both unit systems
+ * share them, with values converted locally. Responses are cached with
+ * `TTL_STATIC` since the reference period never changes. At most
+ * HISTORY_CONCURRENCY requests run at once, and years that fail are left
+ * out of the normals unless every year fails.
+ */
+export async function fetchClimateHistory(
+  latitude: number,
+  longitude: number,
+  units: UnitSystem
+): Promise<ClimateHistoryResponse> {
+  const years = Array.from({ length: NORMALS_END_YEAR - NORMALS_START_YEAR + 1 }, (_, i) => NORMALS_START_YEAR + i);
+  const responses: ClimateHistoryResponse[] = [];
+  const errors: unknown[] = [];
+
+  const worker = async () => {
+    for (let year = years.shift(); year !== undefined; year = years.shift()) {
+      try {
+        const url = archiveYearUrl(latitude, longitude, year);
+        responses.push(await cachedFetchJson<ClimateHistoryResponse>(url, { ttlMs: TTL_STATIC }));
+      } catch (error) {
+        log.warn({ err: error, year }, "Climate history year failed; left out of normals");
+        errors.push(error);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: HISTORY_CONCURRENCY }, worker));
+
+  if (responses.length === 0) throw errors[0];
+  return convertHistory(mergeHistory(responses), units);
+}
+
+/** Concatenate per-year archive responses into one history (in any order). */
+function mergeHistory(responses: ClimateHistoryResponse[]): ClimateHistoryResponse {
+  const [first] = responses;
+  return {
+    ...first,
+    daily: {
+      time: responses.flatMap((r) => r.daily.time),
+      temperature_2m_max: responses.flatMap((r) => r.daily.temperature_2m_max),
+      temperature_2m_min: responses.flatMap((r) => r.daily.temperature_2m_min),
+      precipitation_sum: responses.flatMap((r) => r.daily.precipitation_sum),
+    },
+  };
+}
+
+/** Convert a metric history into the requested unit system. */
+export function convertHistory(history: ClimateHistoryResponse, units: UnitSystem): ClimateHistoryResponse {
+  if (units === "metric") return history;
+
+  const convert = (values: (number | null)[], fn: (value: number, units: UnitSystem) => number) =>
+    values.map((value) => (value === null ? null : fn(value, "metric")));
+  const labels = getUnitLabels(units);
+
+  return {
+    ...history,
+    daily: {
+      time: history.daily.time,
+      temperature_2m_max: convert(history.daily.temperature_2m_max, toFahrenheit),
+      temperature_2m_min: convert(history.daily.temperature_2m_min, toFahrenheit),
+      precipitation_sum: convert(history.daily.precipitation_sum, toInches),
+    },
+    daily_units: {
+      ...history.daily_units,
+      temperature_2m_max: labels.temperature,
+      temperature_2m_min: labels.temperature,
+      precipitation_sum: "inch",
+    },
+  };
+}
+
+// ─── Analysis ────────────────────────────────────────────────────────────────
+
+/**
+ * Compute climate normals for the given dates (YYYY-MM-DD).
+ *
+ * Each normal averages every year's observations within
+ * ±NORMALS_WINDOW_DAYS of the same calendar date.
+ */
+export function computeNormals(history: ClimateHistoryResponse, dates: string[]): DailyNormal[] {
+  const { daily } = history;
+
+  // Group observation indices by calendar date (MM-DD)
+  const byCalendarDay = new Map<string, number[]>();
+  for (let i = 0; i < daily.time.length; i++) {
+    const key = daily.time[i].slice(5, 10);
+    const group = byCalendarDay.get(key) ?? [];
+    group.push(i);
+    byCalendarDay.set(key, group);
+  }
+
+  return dates.map((date) => {
+    const center = new Date(`${date}T00:00:00Z`).getTime();
+    const maxes: number[] = [];
+    const mins: number[] = [];
+    const precips: number[] = [];
+
+    for (let offset = -NORMALS_WINDOW_DAYS; offset <= NORMALS_WINDOW_DAYS; offset++) {
+      const key = new Date(center + offset * DAY_MS).toISOString().slice(5, 10);
+      for (const i of byCalendarDay.get(key) ?? []) {
+        const max = daily.temperature_2m_max[i];
+        const min = daily.temperature_2m_min[i];
+        const precip = daily.precipitation_sum[i];
+        if (max !== null) maxes.push(max);
+        if (min !== null) mins.push(min);
+        if (precip !== null) precips.push(precip);
+      }
+    }
+
+    if (maxes.length === 0 || mins.length === 0 || precips.length === 0) {
+      throw new Error(`No climate records available around ${date}`);
+    }
+
+    return {
+      date,
+      temperatureMax: round(mean(maxes)),
+      temperatureMin: round(mean(mins)),
+      precipitation: round(mean(precips), 2),
+    };
+  });
+}
+
+/**
+ * Compare forecast days against their normals (forecast minus normal).
+ */
+export function compareToNormals(daily: DailyForecast, normals: DailyNormal[]): DailyAnomaly[] {
+  return normals.map((normal, i) => ({
+    date: normal.date,
+    forecastMax: daily.temperature_2m_max[i],
+    forecastMin: daily.temperature_2m_min[i],
+    forecastPrecipitation: daily.precipitation_sum[i],
+    normalMax: normal.temperatureMax,
+    normalMin: normal.temperatureMin,
+    normalPrecipitation: normal.precipitation,
+    temperatureMaxAnomaly: round(daily.temperature_2m_max[i] - normal.temperatureMax),
+    temperatureMinAnomaly: round(daily.temperature_2m_min[i] - normal.temperatureMin),
+    precipitationAnomaly: round(daily.precipitation_sum[i] - normal.precipitation, 2),
+  }));
+}
+
+/**
+ * Summarise a week of anomalies into trends and a one-line headline.
+ *
+ * Near-normal bands are defined in °F/inches; anomalies are normalised
+ * before comparison.
+ */
+export function summarizeAnomalies(anomalies: DailyAnomaly[], units: UnitSystem): AnomalySummary {
+  const labels = getUnitLabels(units);
+
+  // Daily mean temperature anomaly = average of the high and low anomalies
+  const meanTemperatureAnomaly = round(
+    mean(anomalies.map((a) => (a.temperatureMaxAnomaly + a.temperatureMinAnomaly) / 2))
+  );
+  const totalPrecipitation = round(anomalies.reduce((sum, a) => sum + a.forecastPrecipitation, 0), 2);
+  const normalPrecipitation = round(anomalies.reduce((sum, a) => sum + a.normalPrecipitation, 0), 2);
+  const precipitationAnomaly = round(totalPrecipitation - normalPrecipitation, 2);
+
+  const tempDeltaF = toFahrenheitDelta(meanTemperatureAnomaly, units);
+  let temperatureTrend: TemperatureTrend = "near normal";
+  if (tempDeltaF >= NEAR_NORMAL_TEMP) temperatureTrend = "warmer";
+  else if (tempDeltaF <= -NEAR_NORMAL_TEMP) temperatureTrend = "cooler";
+
+  const precipDeltaIn = toInches(precipitationAnomaly, units);
+  let precipitationTrend: PrecipitationTrend = "near normal";
+  if (precipDeltaIn >= NEAR_NORMAL_PRECIP) precipitationTrend = "wetter";
+  else if (precipDeltaIn <= -NEAR_NORMAL_PRECIP) precipitationTrend = "drier";
+
+  const tempPhrase =
+    temperatureTrend === "near normal"
+      ? "Temperatures near normal this week"
+      : `${Math.abs(meanTemperatureAnomaly)}${labels.temperature} ${temperatureTrend} than normal this week`;
+  const precipPhrase =
+    precipitationTrend === "near normal"
+      ? "near-normal precipitation"
+      : `${precipitationTrend} than normal`;
+
+  return {
+    meanTemperatureAnomaly,
+    temperatureTrend,
+    totalPrecipitation,
+    normalPrecipitation,
+    precipitationAnomaly,
+    precipitationTrend,
+    headline:
+      `${tempPhrase}, ${precipPhrase} ` +
+      `(${totalPrecipitation} ${labels.precipitation} expected vs ${normalPrecipitation} ${labels.precipitation} normal)`,
+  };
+}
+
+// ─── Formatting ──────────────────────────────────────────────────────────────
+
+function formatClimateAnomalyReport(
+  location: GeoResult,
+  summary: AnomalySummary,
+  anomalies: DailyAnomaly[],
+  units: UnitSystem
+): string {
+  const labels = getUnitLabels(units);
+  const locationName = formatLocationName(location);
+
+  const lines = [
+    `Forecast vs Climate Normals for ${locationName}`,
+    "",
+    `=== ${summary.headline} ===`,
+    `Mean temperature anomaly: ${signed(summary.meanTemperatureAnomaly)}${labels.temperature}`,
+    `Precipitation: ${summary.totalPrecipitation} ${labels.precipitation} forecast vs ${summary.normalPrecipitation} ${labels.precipitation} normal (${signed(summary.precipitationAnomaly)} ${labels.precipitation})`,
+    "",
+    "=== Daily Comparison ===",
+  ];
+
+  for (const day of anomalies) {
+    const date = new Date(`${day.date}T00:00:00Z`).toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    });
+
+    lines.push(`${date}:`);
+    lines.push(
+      `  High: ${day.forecastMax}${labels.temperature} (normal ${day.normalMax}${labels.temperature}, ` +
+      `${signed(day.temperatureMaxAnomaly)}${labels.temperature})`
+    );
+    lines.push(
+      `  Low: ${day.forecastMin}${labels.temperature} (normal ${day.normalMin}${labels.temperature}, ` +
+      `${signed(day.temperatureMinAnomaly)}${labels.temperature})`
+    );
+    lines.push(
+      `  Precip: ${day.forecastPrecipitation} ${labels.precipitation} ` +
+      `(normal ${day.normalPrecipitation} ${labels.precipitation})`
+    );
+  }
+
+  lines.push("");
+  lines.push(`Normals: ${NORMALS_PERIOD} average within ±${NORMALS_WINDOW_DAYS} days of each date.`);
+
+  return lines.join("\n");
+}
+
+// ─── Tool registration ───────────────────────────────────────────────────────
+
+/**
+ * Register the get_climate_anomalies tool on an MCP server.
+ */
+export function registerClimateAnomalyTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
+    "get_climate_anomalies",
+    {
+      description:
+        "Compare the 7-day forecast for a city against 30-year climate normals. Returns per-day temperature and precipitation anomalies and a weekly summary (e.g. warmer/cooler, wetter/drier than normal).",
+      inputSchema: {
+        ...locationSchema,
+        units: unitsSchema,
+      },
+      outputSchema: climateAnomalyOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
+    },
+    withFreshness(async ({ units = DEFAULT_UNITS, ...input }) => {
+      try {
+        const resolved = await resolveLocation(input);
+
+        if (!resolved.ok) {
+          return {
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
+          };
+        }
+
+        const { location, alternatives } = resolved;
+
+        const [{ data: forecast }, history] = await Promise.all([
+          fetchDailyForecast(location.latitude, location.longitude, COMPARISON_DAYS, units),
+          fetchClimateHistory(location.latitude, location.longitude, units),
+        ]);
+        const dates = forecast.daily.time;
+        const normals = computeNormals(history, dates);
+        const anomalies = compareToNormals(forecast.daily, normals);
+        const summary = summarizeAnomalies(anomalies, units);
+        const report = formatClimateAnomalyReport(location, summary, anomalies, units);
+
+        return {
+          content: [{ type: "text" as const, text: appendAlternatives(report, alternatives) }],
+          structuredContent: {
+            location,
+            alternatives,
+            units,
+            normalsPeriod: NORMALS_PERIOD,
+            summary,
+            days: anomalies,
+          },
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error fetching climate anomalies for "${describeLocationInput(input)}": ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    })
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * tools/climate/schema.ts — Output schema for the climate anomaly tool.
+ */
+
+import { z } from "zod";
+import { locationOutputSchema, unitSystemSchema } from "../shared/output.js";
+
+/** Mirrors `DailyAnomaly`. */
+export const dailyAnomalySchema = z.object({
+  date: z.string(),
+  forecastMax: z.number(),
+  forecastMin: z.number(),
+  forecastPrecipitation: z.number(),
+  normalMax: z.number(),
+  normalMin: z.number(),
+  normalPrecipitation: z.number(),
+  temperatureMaxAnomaly: z.number(),
+  temperatureMinAnomaly: z.number(),
+  precipitationAnomaly: z.number(),
+});
+
+/** Mirrors `AnomalySummary`. */
+export const anomalySummarySchema = z.object({
+  meanTemperatureAnomaly: z.number(),
+  temperatureTrend: z.enum(["warmer", "cooler", "near normal"]),
+  totalPrecipitation: z.number(),
+  normalPrecipitation: z.number(),
+  precipitationAnomaly: z.number(),
+  precipitationTrend: z.enum(["wetter", "drier", "near normal"]),
+  headline: z.string(),
+});
+
+/** Structured output of get_climate_anomalies. */
+export const climateAnomalyOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  normalsPeriod: z.string(),
+  summary: anomalySummarySchema,
+  days: z.array(dailyAnomalySchema),
+};
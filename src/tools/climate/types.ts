@@ -0,0 +1,54 @@
+/**
+ * tools/climate/types.ts — Type definitions for the climate anomaly tool.
+ */
+
+/** Raw archive response for days within the normals reference period. */
+export interface ClimateHistoryResponse {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  daily: {
+    time: string[];
+    temperature_2m_max: (number | null)[];
+    temperature_2m_min: (number | null)[];
+    precipitation_sum: (number | null)[];
+  };
+  daily_units: Record<string, string>;
+}
+
+/** Climate normal for one calendar date. */
+export interface DailyNormal {
+  date: string;
+  temperatureMax: number;
+  temperatureMin: number;
+  precipitation: number;
+}
+
+/** Forecast vs normal for one day. Anomalies are forecast minus normal. */
+export interface DailyAnomaly {
+  date: string;
+  forecastMax: number;
+  forecastMin: number;
+  forecastPrecipitation: number;
+  normalMax: number;
+  normalMin: number;
+  normalPrecipitation: number;
+  temperatureMaxAnomaly: number;
+  temperatureMinAnomaly: number;
+  precipitationAnomaly: number;
+}
+
+export type TemperatureTrend = "warmer" | "cooler" | "near normal";
+
+export type PrecipitationTrend = "wetter" | "drier" | "near normal";
+
+/** Whole-week comparison against normals. */
+export interface AnomalySummary {
+  meanTemperatureAnomaly: number;
+  temperatureTrend: TemperatureTrend;
+  totalPrecipitation: number;
+  normalPrecipitation: number;
+  precipitationAnomaly: number;
+  precipitationTrend: PrecipitationTrend;
+  headline: string;
+}
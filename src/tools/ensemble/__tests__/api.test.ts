@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { percentile, summarizeEnsemble } from "../api.js";
+import type { EnsembleResponse } from "../types.js";
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+/**
+ * One day, ten members. Member n peaks at 70 + n °F and has a
+ * 0.3 × n inch daily precipitation total spread over two hours.
+ */
+function ensemble(): EnsembleResponse {
+  const time = ["2025-06-01T00:00", "2025-06-01T12:00"];
+  const hourly: EnsembleResponse["hourly"] = { time };
+
+  for (let n = 0; n < 10; n++) {
+    const suffix = n === 0 ? "" : `_member${String(n).padStart(2, "0")}`;
+    hourly[`temperature_2m${suffix}`] = [50 + n, 70 + n];
+    hourly[`precipitation${suffix}`] = [0.15 * n, 0.15 * n];
+  }
+
+  return {
+    latitude: 39.74,
+    longitude: -104.98,
+    timezone: "America/Denver",
+    hourly,
+    hourly_units: { temperature_2m: "°F", precipitation: "inch" },
+  };
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("percentile", () => {
+  it("interpolates between ranks", () => {
+    expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(percentile([10, 0], 10)).toBe(1);
+  });
+});
+
+describe("summarizeEnsemble", () => {
+  it("reports median and 10th/90th percentile across members", () => {
+    const [day] = summarizeEnsemble(ensemble(), "imperial");
+
+    expect(day.members).toBe(10);
+    expect(day.temperatureMax).toEqual({ p10: 70.9, median: 74.5, p90: 78.1 });
+    expect(day.temperatureMin.median).toBe(54.5);
+  });
+
+  it("computes precipitation exceedance probabilities", () => {
+    const [day] = summarizeEnsemble(ensemble(), "imperial");
+
+    // Totals are 0, 0.3, 0.6 … 2.7 inches
+    expect(day.precipitationProbability).toBe(90);
+    expect(day.exceedance).toEqual([
+      { threshold: 0.25, probability: 90 },
+      { threshold: 0.5, probability: 80 },
+      { threshold: 1, probability: 60 },
+    ]);
+  });
+
+  it("converts thresholds for metric reports", () => {
+    const [day] = summarizeEnsemble(ensemble(), "metric");
+
+    expect(day.exceedance.map((e) => e.threshold)).toEqual([6.4, 12.7, 25.4]);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * tools/ensemble/api.ts — Open-Meteo ensemble API functions.
+ */
+
+import type { GeoResult } from "../shared/geocoding.js";
+import { formatLocationName } from "../shared/location-name.js";
+import type { EnsembleResponse, EnsembleDay, Percentiles } from "./types.js";
+import {
+  ENSEMBLE_MODEL,
+  ENSEMBLE_MODEL_NAME,
+  MAX_ENSEMBLE_DAYS,
+  DEFAULT_ENSEMBLE_DAYS,
+  MEASURABLE_PRECIP,
+  PRECIP_THRESHOLDS,
+} from "./constants.js";
+import { cachedFetchJson } from "../shared/fetch.js";
+import { TTL_FORECAST } from "../shared/cache/index.js";
+import {
+  DEFAULT_UNITS,
+  getUnitParams,
+  getUnitLabels,
+  toInches,
+  fromInches,
+  type UnitSystem,
+} from "../shared/units.js";
+
+/**
+ * Fetch hourly ensemble members for coordinates.
+ */
+export async function fetchEnsembleForecast(
+  latitude: number,
+  longitude: number,
+  days: number = DEFAULT_ENSEMBLE_DAYS,
+  units: UnitSystem = DEFAULT_UNITS
+): Promise<EnsembleResponse> {
+  const forecastDays = Math.min(days, MAX_ENSEMBLE_DAYS);
+
+  const params = new URLSearchParams({
+    latitude: latitude.toString(),
+    longitude: longitude.toString(),
+    hourly: ["temperature_2m", "precipitation"].join(","),
+    models: ENSEMBLE_MODEL,
+    ...getUnitParams(units),
+    timezone: "auto",
+    forecast_days: forecastDays.toString(),
+  });
+
+  const url = `https://ensemble-api.open-meteo.com/v1/ensemble?${params}`;
+  return cachedFetchJson<EnsembleResponse>(url, { ttlMs: TTL_FORECAST });
+}
+
+/**
+ * Linear-interpolated percentile (0-100) of a list of values.
+ */
+export function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function round(value: number, decimals: number = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function spread(values: number[], decimals: number = 1): Percentiles {
+  return {
+    p10: round(percentile(values, 10), decimals),
+    median: round(percentile(values, 50), decimals),
+    p90: round(percentile(values, 90), decimals),
+  };
+}
+
+/** Hourly series for the control run and every member of one variable. */
+function memberSeries(response: EnsembleResponse, variable: string): (number | null)[][] {
+  const pattern = new RegExp(`^${variable}(_member\\d+)?$`);
+  return Object.entries(response.hourly)
+    .filter(([key]) => pattern.test(key))
+    .map(([, values]) => values as (number | null)[]);
+}
+
+/**
+ * Reduce hourly ensemble members to per-day percentiles and
+ * precipitation exceedance probabilities.
+ *
+ * Each member contributes its daily high, low and precipitation total;
+ * members with no data for a day are skipped. Thresholds are defined in
+ * inches and member totals are normalised before comparison.
+ */
+export function summarizeEnsemble(response: EnsembleResponse, units: UnitSystem): EnsembleDay[] {
+  const { time } = response.hourly;
+  const temperature = memberSeries(response, "temperature_2m");
+  const precipitation = memberSeries(response, "precipitation");
+
+  // Group hour indices by local date (YYYY-MM-DD)
+  const dayIndices = new Map<string, number[]>();
+  for (let i = 0; i < time.length; i++) {
+    const day = time[i].slice(0, 10);
+    const group = dayIndices.get(day) ?? [];
+    group.push(i);
+    dayIndices.set(day, group);
+  }
+
+  const days: EnsembleDay[] = [];
+
+  for (const [date, indices] of dayIndices) {
+    const highs: number[] = [];
+    const lows: number[] = [];
+    const totals: number[] = [];
+
+    for (const series of temperature) {
+      const values = indices.map((i) => series[i]).filter((v): v is number => v !== null);
+      if (values.length === 0) continue;
+      highs.push(Math.max(...values));
+      lows.push(Math.min(...values));
+    }
+
+    for (const series of precipitation) {
+      const values = indices.map((i) => series[i]).filter((v): v is number => v !== null);
+      if (values.length === 0) continue;
+      totals.push(values.reduce((sum, v) => sum + v, 0));
+    }
+
+    if (highs.length === 0 || totals.length === 0) continue;
+
+    const totalsInches = totals.map((total) => toInches(total, units));
+    const share = (matches: (inches: number) => boolean) =>
+      Math.round((totalsInches.filter(matches).length / totals.length) * 100);
+
+    days.push({
+      date,
+      members: highs.length,
+      temperatureMax: spread(highs),
+      temperatureMin: spread(lows),
+      precipitation: spread(totals, 2),
+      precipitationProbability: share((inches) => inches >= MEASURABLE_PRECIP),
+      exceedance: PRECIP_THRESHOLDS.map((threshold) => ({
+        threshold: fromInches(threshold, units),
+        probability: share((inches) => inches > threshold),
+      })),
+    });
+  }
+
+  return days;
+}
+
+/**
+ * Format ensemble percentiles into a human-readable report.
+ */
+export function formatEnsembleReport(
+  location: GeoResult,
+  days: EnsembleDay[],
+  units: UnitSystem
+): string {
+  const labels = getUnitLabels(units);
+  const locationName = formatLocationName(location);
+  const members = days[0]?.members ?? 0;
+
+  const lines = [
+    `Ensemble Forecast for ${locationName}`,
+    `${ENSEMBLE_MODEL_NAME}, ${members} members — median with 10th–90th percentile range`,
+    "",
+  ];
+
+  for (const day of days) {
+    const date = new Date(day.date).toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
+    const { temperatureMax: high, temperatureMin: low, precipitation: precip } = day;
+    const exceedance = day.exceedance
+      .filter((e) => e.probability > 0)
+      .map((e) => `${e.probability}% > ${e.threshold} ${labels.precipitation}`);
+
+    lines.push(`${date}:`);
+    lines.push(`  High: ${high.median}${labels.temperature} (${high.p10}–${high.p90}${labels.temperature})`);
+    lines.push(`  Low: ${low.median}${labels.temperature} (${low.p10}–${low.p90}${labels.temperature})`);
+    lines.push(
+      `  Precip: ${day.precipitationProbability}% chance, median ${precip.median} ${labels.precipitation} ` +
+      `(${precip.p10}–${precip.p90} ${labels.precipitation})`
+    );
+    if (exceedance.length > 0) {
+      lines.push(`  Chance of heavier totals: ${exceedance.join(", ")}`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
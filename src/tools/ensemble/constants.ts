@@ -0,0 +1,34 @@
+/**
+ * tools/ensemble/constants.ts — Constants for the ensemble forecast tool.
+ */
+
+/**
+ * Ensemble model queried (GFS ensemble: control run plus 30 members).
+ */
+export const ENSEMBLE_MODEL = "gfs_seamless";
+
+/**
+ * Human-readable name for ENSEMBLE_MODEL.
+ */
+export const ENSEMBLE_MODEL_NAME = "GFS Ensemble";
+
+/**
+ * Maximum days for the ensemble forecast.
+ */
+export const MAX_ENSEMBLE_DAYS = 16;
+
+/**
+ * Default days for the ensemble forecast.
+ */
+export const DEFAULT_ENSEMBLE_DAYS = 7;
+
+/**
+ * Daily precipitation (inches) that counts as measurable.
+ */
+export const MEASURABLE_PRECIP = 0.01;
+
+/**
+ * Daily precipitation thresholds (inches) reported as exceedance
+ * probabilities. Converted for display in metric reports.
+ */
+export const PRECIP_THRESHOLDS = [0.25, 0.5, 1];
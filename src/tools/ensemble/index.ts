@@ -0,0 +1,93 @@
+/**
+ * tools/ensemble/index.ts — Ensemble forecast tool definition.
+ *
+ * Exports a function to register the ensemble forecast tool on an MCP server.
+ */
+
+import { z } from "zod";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
+import { fetchEnsembleForecast, summarizeEnsemble, formatEnsembleReport } from "./api.js";
+import { DEFAULT_ENSEMBLE_DAYS, MAX_ENSEMBLE_DAYS, ENSEMBLE_MODEL } from "./constants.js";
+import { DEFAULT_UNITS, unitsSchema } from "../shared/units.js";
+import { ensembleForecastOutputSchema } from "./schema.js";
+
+// Re-export types, schemas and constants for consumers
+export * from "./types.js";
+export * from "./schema.js";
+export * from "./constants.js";
+
+/**
+ * Register the get_ensemble_forecast tool on an MCP server.
+ */
+export function registerEnsembleForecastTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
+    "get_ensemble_forecast",
+    {
+      description:
+        "Get an ensemble forecast for a city showing forecast uncertainty. Returns per-day median and 10th/90th percentile high/low temperatures, precipitation chance, and probabilities of exceeding precipitation thresholds.",
+      inputSchema: {
+        ...locationSchema,
+        days: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_ENSEMBLE_DAYS)
+          .optional()
+          .describe(`Number of days to forecast (1-${MAX_ENSEMBLE_DAYS}, default ${DEFAULT_ENSEMBLE_DAYS})`),
+        units: unitsSchema,
+      },
+      outputSchema: ensembleForecastOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
+    },
+    withFreshness(async ({ days = DEFAULT_ENSEMBLE_DAYS, units = DEFAULT_UNITS, ...input }) => {
+      try {
+        const resolved = await resolveLocation(input);
+
+        if (!resolved.ok) {
+          return {
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
+          };
+        }
+
+        const { location, alternatives } = resolved;
+
+        const ensemble = await fetchEnsembleForecast(location.latitude, location.longitude, days, units);
+        const summary = summarizeEnsemble(ensemble, units);
+        const report = formatEnsembleReport(location, summary, units);
+
+        return {
+          content: [{ type: "text" as const, text: appendAlternatives(report, alternatives) }],
+          structuredContent: {
+            location,
+            alternatives,
+            units,
+            model: ENSEMBLE_MODEL,
+            timezone: ensemble.timezone,
+            days: summary,
+            hourly_units: ensemble.hourly_units,
+          },
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error fetching ensemble forecast for "${describeLocationInput(input)}": ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    })
+  );
+}
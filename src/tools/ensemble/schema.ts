@@ -0,0 +1,34 @@
+/**
+ * tools/ensemble/schema.ts — Output schema for the ensemble forecast tool.
+ */
+
+import { z } from "zod";
+import { locationOutputSchema, unitSystemSchema, unitLabelsSchema } from "../shared/output.js";
+
+/** Mirrors `Percentiles`. */
+export const percentilesSchema = z.object({
+  p10: z.number(),
+  median: z.number(),
+  p90: z.number(),
+});
+
+/** Mirrors `EnsembleDay`. */
+export const ensembleDaySchema = z.object({
+  date: z.string(),
+  members: z.number(),
+  temperatureMax: percentilesSchema,
+  temperatureMin: percentilesSchema,
+  precipitation: percentilesSchema,
+  precipitationProbability: z.number(),
+  exceedance: z.array(z.object({ threshold: z.number(), probability: z.number() })),
+});
+
+/** Structured output of get_ensemble_forecast. */
+export const ensembleForecastOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  model: z.string(),
+  timezone: z.string(),
+  days: z.array(ensembleDaySchema),
+  hourly_units: unitLabelsSchema,
+};
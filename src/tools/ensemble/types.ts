@@ -0,0 +1,46 @@
+/**
+ * tools/ensemble/types.ts — Type definitions for the ensemble forecast tool.
+ */
+
+/**
+ * Raw ensemble response. Each hourly variable is returned once for the
+ * control run (e.g. `temperature_2m`) and once per member
+ * (`temperature_2m_member01`, `temperature_2m_member02`, …).
+ */
+export interface EnsembleResponse {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  hourly: {
+    time: string[];
+    [variable: string]: (number | null)[] | string[];
+  };
+  hourly_units: Record<string, string>;
+}
+
+/** 10th percentile, median and 90th percentile across members. */
+export interface Percentiles {
+  p10: number;
+  median: number;
+  p90: number;
+}
+
+/** Share of members with more than a daily precipitation threshold. */
+export interface PrecipitationExceedance {
+  /** Threshold in the report's precipitation unit. */
+  threshold: number;
+  /** Percentage of members (0-100). */
+  probability: number;
+}
+
+/** Ensemble spread for one forecast day. */
+export interface EnsembleDay {
+  date: string;
+  members: number;
+  temperatureMax: Percentiles;
+  temperatureMin: Percentiles;
+  precipitation: Percentiles;
+  /** Percentage of members with measurable precipitation. */
+  precipitationProbability: number;
+  exceedance: PrecipitationExceedance[];
+}
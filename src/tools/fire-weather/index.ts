@@ -5,64 +5,87 @@
  * for wildfire risk assessment.
  */
 
-import { z } from "zod";
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { geocodeCity, type GeoResult } from "../shared/geocoding.js";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
+import type { GeoResult } from "../shared/geocoding.js";
+import { formatLocationName } from "../shared/location-name.js";
 import { getCardinalDirection } from "../shared/directions.js";
-import { cachedFetchJson } from "../shared/fetch.js";
+import { fetchForecastData } from "../shared/forecast-data.js";
+import {
+  DEFAULT_UNITS,
+  unitsSchema,
+  getUnitLabels,
+  toFahrenheit,
+  toMph,
+  toInches,
+  fromFahrenheit,
+  fromMph,
+  fromInches,
+  type UnitSystem,
+} from "../shared/units.js";
 import type { FireWeatherResponse, FireRiskLevel, FireRiskAssessment, FireWeatherData } from "./types.js";
+import { fireWeatherOutputSchema } from "./schema.js";
 
-// Re-export types
+// Re-export types and schemas
 export * from "./types.js";
+export * from "./schema.js";
 
 /**
  * Fetch fire weather data for coordinates.
  */
 async function fetchFireWeatherData(
   latitude: number,
-  longitude: number
+  longitude: number,
+  units: UnitSystem
 ): Promise<FireWeatherResponse> {
-  const params = new URLSearchParams({
-    latitude: latitude.toString(),
-    longitude: longitude.toString(),
+  return fetchForecastData<FireWeatherResponse>(latitude, longitude, units, {
     current: [
       "temperature_2m",
       "relative_humidity_2m",
       "wind_speed_10m",
       "wind_gusts_10m",
       "wind_direction_10m",
-    ].join(","),
-    daily: ["temperature_2m_max", "precipitation_sum"].join(","),
-    hourly: "soil_moisture_0_to_1cm",
-    temperature_unit: "fahrenheit",
-    wind_speed_unit: "mph",
-    precipitation_unit: "inch",
-    timezone: "auto",
-    past_days: "7",
-    forecast_days: "1",
-    forecast_hours: "1",
+    ],
+    daily: ["temperature_2m_max", "precipitation_sum"],
+    hourly: ["soil_moisture_0_to_1cm"],
+    pastDays: 7,
+    forecastDays: 1,
+    forecastHours: 1,
   });
-
-  const url = `https://api.open-meteo.com/v1/forecast?${params}`;
-  return cachedFetchJson<FireWeatherResponse>(url);
 }
 
 /**
  * Calculate fire risk based on weather conditions.
+ *
+ * Thresholds are defined in °F/mph/inches; `data` is in the caller's
+ * unit system and is normalised before comparison.
  */
-function assessFireRisk(data: FireWeatherData): FireRiskAssessment {
+function assessFireRisk(data: FireWeatherData, units: UnitSystem): FireRiskAssessment {
   let score = 0;
   const factors: string[] = [];
   const recommendations: string[] = [];
 
+  const labels = getUnitLabels(units);
+  const temperatureF = toFahrenheit(data.temperature, units);
+  const windSpeedMph = toMph(data.windSpeed, units);
+  const windGustsMph = toMph(data.windGusts, units);
+  const recentPrecipIn = toInches(data.recentPrecipitation, units);
+
   // Temperature factor (high temps increase risk)
-  if (data.temperature >= 100) {
+  if (temperatureF >= 100) {
     score += 25;
-    factors.push("Extreme heat (100°F+)");
-  } else if (data.temperature >= 90) {
+    factors.push(`Extreme heat (${fromFahrenheit(100, units)}${labels.temperature}+)`);
+  } else if (temperatureF >= 90) {
     score += 20;
-    factors.push("High temperatures (90°F+)");
-  } else if (data.temperature >= 80) {
+    factors.push(`High temperatures (${fromFahrenheit(90, units)}${labels.temperature}+)`);
+  } else if (temperatureF >= 80) {
     score += 10;
     factors.push("Warm temperatures");
   }
@@ -80,24 +103,24 @@ function assessFireRisk(data: FireWeatherData): FireRiskAssessment {
   }
 
   // Wind factor (high winds increase fire spread)
-  if (data.windGusts >= 50) {
+  if (windGustsMph >= 50) {
     score += 25;
-    factors.push("Dangerous wind gusts (50+ mph)");
-  } else if (data.windGusts >= 35) {
+    factors.push(`Dangerous wind gusts (${fromMph(50, units)}+ ${labels.windSpeed})`);
+  } else if (windGustsMph >= 35) {
     score += 20;
-    factors.push("Strong wind gusts (35+ mph)");
-  } else if (data.windSpeed >= 20) {
+    factors.push(`Strong wind gusts (${fromMph(35, units)}+ ${labels.windSpeed})`);
+  } else if (windSpeedMph >= 20) {
     score += 10;
-    factors.push("Moderate winds (20+ mph)");
+    factors.push(`Moderate winds (${fromMph(20, units)}+ ${labels.windSpeed})`);
   }
 
   // Precipitation factor (dry conditions increase risk)
-  if (data.recentPrecipitation === 0) {
+  if (recentPrecipIn === 0) {
     score += 15;
     factors.push("No rain in 7 days");
-  } else if (data.recentPrecipitation < 0.1) {
+  } else if (recentPrecipIn < 0.1) {
     score += 10;
-    factors.push("Minimal rain in 7 days (<0.1 in)");
+    factors.push(`Minimal rain in 7 days (<${fromInches(0.1, units)} ${labels.precipitation})`);
   }
 
   // Soil moisture factor (dry soil = more fuel)
@@ -146,9 +169,7 @@ function formatFireWeatherReport(
   assessment: FireRiskAssessment
 ): string {
   const { current, current_units, daily, daily_units } = response;
-  const locationName = location.admin1
-    ? `${location.name}, ${location.admin1}, ${location.country}`
-    : `${location.name}, ${location.country}`;
+  const locationName = formatLocationName(location);
 
   // Sum precipitation from last 7 days
   const recentPrecip = daily.precipitation_sum
@@ -190,32 +211,33 @@ function formatFireWeatherReport(
 /**
  * Register the get_fire_weather tool on an MCP server.
  */
-export function registerFireWeatherTool(server: McpServer): void {
-  server.tool(
+export function registerFireWeatherTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
     "get_fire_weather",
-    "Get fire weather assessment for a location. Combines wind, humidity, temperature, precipitation history, and soil moisture to assess wildfire risk with recommendations.",
     {
-      city: z
-        .string()
-        .min(1, "City name cannot be empty")
-        .describe("City or location name to assess fire weather for"),
+      description:
+        "Get fire weather assessment for a location. Combines wind, humidity, temperature, precipitation history, and soil moisture to assess wildfire risk with recommendations.",
+      inputSchema: {
+        ...locationSchema,
+        units: unitsSchema,
+      },
+      outputSchema: fireWeatherOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
     },
-    async ({ city }) => {
+    withFreshness(async ({ units = DEFAULT_UNITS, ...input }) => {
       try {
-        const location = await geocodeCity(city);
+        const resolved = await resolveLocation(input);
 
-        if (!location) {
+        if (!resolved.ok) {
           return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Could not find a location matching "${city}". Try a more specific location name.`,
-              },
-            ],
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
           };
         }
 
-        const response = await fetchFireWeatherData(location.latitude, location.longitude);
+        const { location, alternatives } = resolved;
+
+        const response = await fetchFireWeatherData(location.latitude, location.longitude, units);
 
         // Extract data for assessment
         const recentPrecip = response.daily.precipitation_sum
@@ -233,11 +255,18 @@ export function registerFireWeatherTool(server: McpServer): void {
           soilMoisture: response.hourly.soil_moisture_0_to_1cm[0],
         };
 
-        const assessment = assessFireRisk(data);
+        const assessment = assessFireRisk(data, units);
         const report = formatFireWeatherReport(location, response, assessment);
 
         return {
-          content: [{ type: "text" as const, text: report }],
+          content: [{ type: "text" as const, text: appendAlternatives(report, alternatives) }],
+          structuredContent: {
+            location,
+            alternatives,
+            units,
+            conditions: data,
+            assessment,
+          },
         };
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -245,12 +274,12 @@ export function registerFireWeatherTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error fetching fire weather for "${city}": ${message}`,
+              text: `Error fetching fire weather for "${describeLocationInput(input)}": ${message}`,
             },
           ],
           isError: true,
         };
       }
-    }
+    })
   );
 }
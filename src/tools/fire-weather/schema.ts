@@ -0,0 +1,34 @@
+/**
+ * tools/fire-weather/schema.ts — Output schema for the fire weather tool.
+ */
+
+import { z } from "zod";
+import { locationOutputSchema, unitSystemSchema } from "../shared/output.js";
+
+/** Mirrors `FireWeatherData`. */
+export const fireWeatherDataSchema = z.object({
+  temperature: z.number(),
+  temperatureMax: z.number(),
+  relativeHumidity: z.number(),
+  windSpeed: z.number(),
+  windGusts: z.number(),
+  windDirection: z.number(),
+  recentPrecipitation: z.number(),
+  soilMoisture: z.number(),
+});
+
+/** Mirrors `FireRiskAssessment`. */
+export const fireRiskAssessmentSchema = z.object({
+  level: z.enum(["Low", "Moderate", "High", "Very High", "Extreme"]),
+  score: z.number(),
+  factors: z.array(z.string()),
+  recommendations: z.array(z.string()),
+});
+
+/** Structured output of get_fire_weather. */
+export const fireWeatherOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  conditions: fireWeatherDataSchema,
+  assessment: fireRiskAssessmentSchema,
+};
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { formatDailyForecastReport, formatHourlyForecastReport, compareModels } from "../api.js";
+import type { DailyForecastResponse, HourlyForecastResponse, ModelComparisonResponse } from "../types.js";
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const DENVER = { name: "Denver", latitude: 39.74, longitude: -104.98, country: "United States" };
+
+function dailyForecast(days: number): DailyForecastResponse {
+  const time = Array.from({ length: days }, (_, i) => `2025-06-${String(i + 1).padStart(2, "0")}`);
+  const fill = (value: number) => time.map(() => value);
+  return {
+    latitude: 39.74,
+    longitude: -104.98,
+    timezone: "America/Denver",
+    daily: {
+      time,
+      weather_code: fill(0),
+      temperature_2m_max: fill(80),
+      temperature_2m_min: fill(55),
+      precipitation_sum: fill(0),
+      precipitation_probability_max: fill(10),
+      wind_speed_10m_max: fill(12),
+      wind_gusts_10m_max: fill(20),
+      sunrise: time.map(() => ""),
+      sunset: time.map(() => ""),
+    },
+    daily_units: { temperature_2m_max: "°F", temperature_2m_min: "°F", precipitation_sum: "inch", wind_speed_10m_max: "mph" },
+  };
+}
+
+function hourlyForecast(hours: number): HourlyForecastResponse {
+  const time = Array.from({ length: hours }, (_, i) => {
+    const day = String(Math.floor(i / 24) + 1).padStart(2, "0");
+    const hour = String(i % 24).padStart(2, "0");
+    return `2025-06-${day}T${hour}:00`;
+  });
+  return {
+    latitude: 39.74,
+    longitude: -104.98,
+    timezone: "America/Denver",
+    hourly: {
+      time,
+      temperature_2m: time.map((_, i) => 50 + (i % 24)),
+      relative_humidity_2m: time.map(() => 40),
+      precipitation_probability: time.map((_, i) => (i % 24 === 15 ? 60 : 10)),
+      precipitation: time.map(() => 0.01),
+      weather_code: time.map((_, i) => (i % 24 < 18 ? 2 : 61)),
+      wind_speed_10m: time.map(() => 8),
+      wind_direction_10m: time.map(() => 180),
+    },
+    hourly_units: { temperature_2m: "°F", precipitation: "inch", wind_speed_10m: "mph" },
+  };
+}
+
+const COMPARISON: ModelComparisonResponse = {
+  latitude: 39.74,
+  longitude: -104.98,
+  timezone: "America/Denver",
+  daily: {
+    time: ["2025-06-01", "2025-06-02"],
+    temperature_2m_max_ecmwf_ifs025: [80, 75],
+    temperature_2m_max_gfs_seamless: [82, 86],
+    temperature_2m_min_ecmwf_ifs025: [55, 50],
+    temperature_2m_min_gfs_seamless: [54, 51],
+    precipitation_sum_ecmwf_ifs025: [0, 0.1],
+    precipitation_sum_gfs_seamless: [0, null],
+  },
+  daily_units: { temperature_2m_max: "°F", precipitation_sum: "inch" },
+};
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("formatDailyForecastReport", () => {
+  it("lists days beyond the first week as a compact outlook", () => {
+    const report = formatDailyForecastReport(DENVER, dailyForecast(16));
+
+    expect(report).toContain("16-Day Forecast for Denver");
+    expect(report).toContain("=== Extended Outlook ===");
+    expect(report.split("\n").filter((line) => line.startsWith("  High:"))).toHaveLength(7);
+  });
+
+  it("omits the outlook for a week or less", () => {
+    expect(formatDailyForecastReport(DENVER, dailyForecast(7))).not.toContain("Extended Outlook");
+  });
+});
+
+describe("formatHourlyForecastReport", () => {
+  it("reports short ranges hour by hour", () => {
+    const report = formatHourlyForecastReport(DENVER, hourlyForecast(48));
+
+    expect(report).not.toContain("summarised by day");
+    expect(report.split("\n").filter((line) => line.includes("humidity"))).toHaveLength(48);
+  });
+
+  it("summarises long ranges by day", () => {
+    const report = formatHourlyForecastReport(DENVER, hourlyForecast(384));
+    const dayLines = report.split("\n").filter((line) => line.includes("(24h)"));
+
+    expect(report).toContain("384 hours, summarised by day");
+    expect(dayLines).toHaveLength(16);
+    expect(dayLines[0]).toContain("50–73°F");
+    expect(dayLines[0]).toContain("mostly Partly cloudy");
+    expect(dayLines[0]).toContain("up to 60% precip (0.24inch total)");
+  });
+});
+
+describe("compareModels", () => {
+  it("flags days where the model spread exceeds the threshold", () => {
+    const [agree, disagree] = compareModels(COMPARISON, ["ecmwf_ifs025", "gfs_seamless"], 5, 0.25);
+
+    expect(agree.highSpread).toBe(2);
+    expect(agree.disagreements).toEqual([]);
+    expect(disagree.highSpread).toBe(11);
+    expect(disagree.disagreements).toEqual(["high"]);
+  });
+
+  it("ignores models without data for a day", () => {
+    const [, day] = compareModels(COMPARISON, ["ecmwf_ifs025", "gfs_seamless"], 5, 0.25);
+
+    expect(day.values[1].precipitation).toBeNull();
+    expect(day.precipitationSpread).toBeNull();
+  });
+});
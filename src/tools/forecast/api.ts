@@ -1,77 +1,143 @@
 /**
- * tools/forecast/api.ts — Open-Meteo forecast API functions.
+ * tools/forecast/api.ts — Forecast API functions.
  */
 
 import type { GeoResult } from "../shared/geocoding.js";
-import type { DailyForecastResponse, HourlyForecastResponse } from "./types.js";
-import { MAX_FORECAST_DAYS, MAX_FORECAST_HOURS } from "./constants.js";
+import { formatLocationName } from "../shared/location-name.js";
+import type {
+  DailyForecastResponse,
+  HourlyForecastResponse,
+  ForecastModel,
+  ModelComparisonResponse,
+  ModelComparisonDay,
+} from "./types.js";
+import {
+  MAX_FORECAST_DAYS,
+  DEFAULT_FORECAST_DAYS,
+  DETAILED_FORECAST_DAYS,
+  DETAILED_FORECAST_HOURS,
+  FORECAST_MODELS,
+  DEFAULT_FORECAST_MODEL,
+} from "./constants.js";
 import { WMO_CODES } from "../weather/constants.js";
 import { cachedFetchJson } from "../shared/fetch.js";
 import { TTL_FORECAST } from "../shared/cache/index.js";
+import { DEFAULT_UNITS, getUnitParams, getUnitLabels, type UnitSystem } from "../shared/units.js";
+import { fetchFromProvider, type ProviderId, type ProviderResult } from "../shared/providers/index.js";
 
 /**
- * Fetch 7-day daily forecast for coordinates.
+ * Fetch daily forecast for coordinates.
+ *
+ * Uses the requested provider, or the configured default with fallback.
+ * Picking a specific model always goes to Open-Meteo, the only provider
+ * with model selection.
  */
 export async function fetchDailyForecast(
   latitude: number,
-  longitude: number
-): Promise<DailyForecastResponse> {
+  longitude: number,
+  days: number = DEFAULT_FORECAST_DAYS,
+  units: UnitSystem = DEFAULT_UNITS,
+  model: ForecastModel = DEFAULT_FORECAST_MODEL,
+  provider?: ProviderId
+): Promise<ProviderResult<DailyForecastResponse>> {
+  return fetchFromProvider(
+    "daily",
+    latitude,
+    longitude,
+    (p) => p.getDailyForecast(latitude, longitude, days, units, { model }),
+    model !== DEFAULT_FORECAST_MODEL ? "open-meteo" : provider
+  );
+}
+
+/**
+ * Fetch daily highs, lows and precipitation from several models at once.
+ */
+export async function fetchModelComparison(
+  latitude: number,
+  longitude: number,
+  models: ForecastModel[],
+  days: number = DEFAULT_FORECAST_DAYS,
+  units: UnitSystem = DEFAULT_UNITS
+): Promise<ModelComparisonResponse> {
+  const forecastDays = Math.min(days, MAX_FORECAST_DAYS);
+
   const params = new URLSearchParams({
     latitude: latitude.toString(),
     longitude: longitude.toString(),
-    daily: [
-      "weather_code",
-      "temperature_2m_max",
-      "temperature_2m_min",
-      "precipitation_sum",
-      "precipitation_probability_max",
-      "wind_speed_10m_max",
-      "wind_gusts_10m_max",
-      "sunrise",
-      "sunset",
-    ].join(","),
-    temperature_unit: "fahrenheit",
-    wind_speed_unit: "mph",
-    precipitation_unit: "inch",
+    daily: ["temperature_2m_max", "temperature_2m_min", "precipitation_sum"].join(","),
+    models: models.join(","),
+    ...getUnitParams(units),
     timezone: "auto",
-    forecast_days: MAX_FORECAST_DAYS.toString(),
+    forecast_days: forecastDays.toString(),
   });
 
   const url = `https://api.open-meteo.com/v1/forecast?${params}`;
-  return cachedFetchJson<DailyForecastResponse>(url, { ttlMs: TTL_FORECAST });
+  return cachedFetchJson<ModelComparisonResponse>(url, { ttlMs: TTL_FORECAST });
+}
+
+/** Max minus min of the non-null values, or null with fewer than two. */
+function spreadOf(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length < 2) return null;
+  return Math.round((Math.max(...present) - Math.min(...present)) * 100) / 100;
+}
+
+/**
+ * Compare models day by day and flag where they disagree.
+ *
+ * Thresholds are in the response's units. A variable disagrees when the
+ * spread between the highest and lowest model exceeds its threshold.
+ */
+export function compareModels(
+  response: ModelComparisonResponse,
+  models: ForecastModel[],
+  temperatureSpread: number,
+  precipitationSpread: number
+): ModelComparisonDay[] {
+  const { daily } = response;
+  const series = (variable: string, model: ForecastModel) =>
+    (daily[`${variable}_${model}`] as (number | null)[] | undefined) ?? [];
+
+  return daily.time.map((date, i) => {
+    const values = models.map((model) => ({
+      model,
+      high: series("temperature_2m_max", model)[i] ?? null,
+      low: series("temperature_2m_min", model)[i] ?? null,
+      precipitation: series("precipitation_sum", model)[i] ?? null,
+    }));
+
+    const highSpread = spreadOf(values.map((v) => v.high));
+    const lowSpread = spreadOf(values.map((v) => v.low));
+    const precipSpread = spreadOf(values.map((v) => v.precipitation));
+
+    const disagreements: ModelComparisonDay["disagreements"] = [];
+    if (highSpread !== null && highSpread > temperatureSpread) disagreements.push("high");
+    if (lowSpread !== null && lowSpread > temperatureSpread) disagreements.push("low");
+    if (precipSpread !== null && precipSpread > precipitationSpread) disagreements.push("precipitation");
+
+    return { date, values, highSpread, lowSpread, precipitationSpread: precipSpread, disagreements };
+  });
 }
 
 /**
  * Fetch hourly forecast for coordinates.
+ *
+ * Uses the requested provider, or the configured default with fallback.
  */
 export async function fetchHourlyForecast(
   latitude: number,
   longitude: number,
-  hours: number = 24
-): Promise<HourlyForecastResponse> {
-  const forecastHours = Math.min(hours, MAX_FORECAST_HOURS);
-
-  const params = new URLSearchParams({
-    latitude: latitude.toString(),
-    longitude: longitude.toString(),
-    hourly: [
-      "temperature_2m",
-      "relative_humidity_2m",
-      "precipitation_probability",
-      "precipitation",
-      "weather_code",
-      "wind_speed_10m",
-      "wind_direction_10m",
-    ].join(","),
-    temperature_unit: "fahrenheit",
-    wind_speed_unit: "mph",
-    precipitation_unit: "inch",
-    timezone: "auto",
-    forecast_hours: forecastHours.toString(),
-  });
-
-  const url = `https://api.open-meteo.com/v1/forecast?${params}`;
-  return cachedFetchJson<HourlyForecastResponse>(url, { ttlMs: TTL_FORECAST });
+  hours: number = 24,
+  units: UnitSystem = DEFAULT_UNITS,
+  provider?: ProviderId
+): Promise<ProviderResult<HourlyForecastResponse>> {
+  return fetchFromProvider(
+    "hourly",
+    latitude,
+    longitude,
+    (p) => p.getHourlyForecast(latitude, longitude, hours, units),
+    provider
+  );
 }
 
 /**
@@ -79,16 +145,16 @@ export async function fetchHourlyForecast(
  */
 export function formatDailyForecastReport(
   location: GeoResult,
-  forecast: DailyForecastResponse
+  forecast: DailyForecastResponse,
+  model: ForecastModel = DEFAULT_FORECAST_MODEL
 ): string {
   const { daily, daily_units } = forecast;
-  const locationName = location.admin1
-    ? `${location.name}, ${location.admin1}, ${location.country}`
-    : `${location.name}, ${location.country}`;
+  const locationName = formatLocationName(location);
+  const modelName = model !== DEFAULT_FORECAST_MODEL ? ` (${FORECAST_MODELS[model]})` : "";
 
-  const lines = [`7-Day Forecast for ${locationName}`, ""];
+  const lines = [`${daily.time.length}-Day Forecast for ${locationName}${modelName}`, ""];
 
-  for (let i = 0; i < daily.time.length; i++) {
+  for (let i = 0; i < Math.min(daily.time.length, DETAILED_FORECAST_DAYS); i++) {
     const date = new Date(daily.time[i]).toLocaleDateString("en-US", {
       weekday: "short",
       month: "short",
@@ -109,20 +175,44 @@ export function formatDailyForecastReport(
     lines.push("");
   }
 
+  // Later days as one line each to keep long ranges readable
+  if (daily.time.length > DETAILED_FORECAST_DAYS) {
+    lines.push("=== Extended Outlook ===");
+    for (let i = DETAILED_FORECAST_DAYS; i < daily.time.length; i++) {
+      const date = new Date(daily.time[i]).toLocaleDateString("en-US", {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+      });
+      const condition = WMO_CODES[daily.weather_code[i]] ?? "Unknown";
+
+      lines.push(
+        `${date}: ${condition}, ${daily.temperature_2m_max[i]}/${daily.temperature_2m_min[i]}${daily_units.temperature_2m_max}, ` +
+        `${daily.precipitation_probability_max[i]}% precip (${daily.precipitation_sum[i]}${daily_units.precipitation_sum}), ` +
+        `wind up to ${daily.wind_speed_10m_max[i]} ${daily_units.wind_speed_10m_max}`
+      );
+    }
+  }
+
   return lines.join("\n");
 }
 
 /**
  * Format hourly forecast into a human-readable report.
+ *
+ * Ranges longer than DETAILED_FORECAST_HOURS are summarised by day
+ * rather than listing every hour.
  */
 export function formatHourlyForecastReport(
   location: GeoResult,
   forecast: HourlyForecastResponse
 ): string {
   const { hourly, hourly_units } = forecast;
-  const locationName = location.admin1
-    ? `${location.name}, ${location.admin1}, ${location.country}`
-    : `${location.name}, ${location.country}`;
+  const locationName = formatLocationName(location);
+
+  if (hourly.time.length > DETAILED_FORECAST_HOURS) {
+    return formatHourlyDailySummary(locationName, forecast);
+  }
 
   const lines = [`Hourly Forecast for ${locationName}`, ""];
 
@@ -146,3 +236,120 @@ export function formatHourlyForecastReport(
 
   return lines.join("\n");
 }
+
+/**
+ * Most frequent value in a list (first seen wins ties).
+ */
+function mostFrequent(values: number[]): number {
+  const counts = new Map<number, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  let best = values[0];
+  for (const [value, count] of counts) {
+    if (count > (counts.get(best) ?? 0)) best = value;
+  }
+  return best;
+}
+
+/**
+ * Summarise a long hourly forecast into one line per calendar day.
+ */
+function formatHourlyDailySummary(locationName: string, forecast: HourlyForecastResponse): string {
+  const { hourly, hourly_units } = forecast;
+
+  // Group hour indices by local date (YYYY-MM-DD)
+  const days = new Map<string, number[]>();
+  for (let i = 0; i < hourly.time.length; i++) {
+    const day = hourly.time[i].slice(0, 10);
+    const group = days.get(day) ?? [];
+    group.push(i);
+    days.set(day, group);
+  }
+
+  const lines = [
+    `Hourly Forecast for ${locationName} (${hourly.time.length} hours, summarised by day)`,
+    "",
+  ];
+
+  for (const [day, indices] of days) {
+    const date = new Date(day).toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
+    const pick = (values: number[]) => indices.map((i) => values[i]);
+    const temps = pick(hourly.temperature_2m);
+    const precipTotal = pick(hourly.precipitation).reduce((sum, v) => sum + v, 0);
+    const condition = WMO_CODES[mostFrequent(pick(hourly.weather_code))] ?? "Unknown";
+
+    lines.push(
+      `${date} (${indices.length}h): ${Math.min(...temps)}–${Math.max(...temps)}${hourly_units.temperature_2m}, ` +
+      `mostly ${condition}, up to ${Math.max(...pick(hourly.precipitation_probability))}% precip ` +
+      `(${precipTotal.toFixed(2)}${hourly_units.precipitation} total), ` +
+      `wind up to ${Math.max(...pick(hourly.wind_speed_10m))} ${hourly_units.wind_speed_10m}`
+    );
+  }
+
+  lines.push("");
+  lines.push(`Request ${DETAILED_FORECAST_HOURS} hours or fewer for hour-by-hour detail.`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a multi-model comparison into a human-readable report.
+ */
+export function formatModelComparisonReport(
+  location: GeoResult,
+  days: ModelComparisonDay[],
+  models: ForecastModel[],
+  temperatureSpread: number,
+  precipitationSpread: number,
+  units: UnitSystem
+): string {
+  const labels = getUnitLabels(units);
+  const locationName = formatLocationName(location);
+  const value = (v: number | null, unit: string) => (v === null ? "n/a" : `${v}${unit}`);
+
+  const lines = [
+    `Model Comparison for ${locationName}`,
+    `Models: ${models.map((m) => FORECAST_MODELS[m]).join(", ")}`,
+    `Flagging spreads over ${temperatureSpread}${labels.temperature} (temperature) ` +
+    `or ${precipitationSpread} ${labels.precipitation} (precipitation)`,
+    "",
+  ];
+
+  const disputed: string[] = [];
+
+  for (const day of days) {
+    const date = new Date(day.date).toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
+    const flag = day.disagreements.length > 0 ? ` ⚠️ models disagree on ${day.disagreements.join(", ")}` : "";
+    if (flag) disputed.push(date);
+
+    lines.push(`${date}:${flag}`);
+    for (const v of day.values) {
+      lines.push(
+        `  ${FORECAST_MODELS[v.model]}: High ${value(v.high, labels.temperature)} / ` +
+        `Low ${value(v.low, labels.temperature)}, Precip ${value(v.precipitation, ` ${labels.precipitation}`)}`
+      );
+    }
+    lines.push(
+      `  Spread: high ${value(day.highSpread, labels.temperature)}, low ${value(day.lowSpread, labels.temperature)}, ` +
+      `precip ${value(day.precipitationSpread, ` ${labels.precipitation}`)}`
+    );
+    lines.push("");
+  }
+
+  lines.push(
+    disputed.length > 0
+      ? `Summary: models disagree on ${disputed.length} of ${days.length} days (${disputed.join("; ")}).`
+      : `Summary: models agree within thresholds on all ${days.length} days.`
+  );
+
+  return lines.join("\n");
+}
@@ -2,21 +2,75 @@
  * tools/forecast/constants.ts — Constants for forecast tools.
  */
 
+import type { ForecastModel } from "./types.js";
+
+/**
+ * Maximum days for daily forecast (upstream limit).
+ */
+export const MAX_FORECAST_DAYS = 16;
+
+/**
+ * Default days for daily forecast.
+ */
+export const DEFAULT_FORECAST_DAYS = 7;
+
 /**
- * Maximum days for daily forecast.
+ * Daily forecast days shown in full detail; later days are listed
+ * as a compact extended outlook.
  */
-export const MAX_FORECAST_DAYS = 7;
+export const DETAILED_FORECAST_DAYS = 7;
 
 /**
- * Maximum hours for hourly forecast.
+ * Maximum hours for hourly forecast (upstream limit, 16 days).
  */
-export const MAX_FORECAST_HOURS = 48;
+export const MAX_FORECAST_HOURS = 384;
 
 /**
  * Default hours for hourly forecast.
  */
 export const DEFAULT_FORECAST_HOURS = 24;
 
+/**
+ * Longest hourly forecast reported hour by hour. Longer ranges are
+ * summarised by day in the text report.
+ */
+export const DETAILED_FORECAST_HOURS = 48;
+
+/**
+ * Selectable forecast models and their display names.
+ * `best_match` is Open-Meteo's default blend for the location.
+ */
+export const FORECAST_MODELS: Record<ForecastModel, string> = {
+  best_match: "Best match (default blend)",
+  ecmwf_ifs025: "ECMWF IFS",
+  gfs_seamless: "NOAA GFS",
+  icon_seamless: "DWD ICON",
+  gem_seamless: "CMC GEM",
+  meteofrance_seamless: "Météo-France",
+  ukmo_seamless: "UK Met Office",
+  jma_seamless: "JMA",
+};
+
+/**
+ * Default model for single-model forecasts.
+ */
+export const DEFAULT_FORECAST_MODEL: ForecastModel = "best_match";
+
+/**
+ * Maximum models in a single comparison.
+ */
+export const MAX_COMPARISON_MODELS = 5;
+
+/**
+ * Default temperature spread (°F) above which models are flagged as disagreeing.
+ */
+export const DEFAULT_TEMPERATURE_SPREAD = 5;
+
+/**
+ * Default daily precipitation spread (inches) above which models are flagged as disagreeing.
+ */
+export const DEFAULT_PRECIPITATION_SPREAD = 0.25;
+
 /**
  * Precipitation intensity descriptions.
  */
@@ -5,53 +5,190 @@
  */
 
 import { z } from "zod";
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { geocodeCity } from "../shared/geocoding.js";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
 import {
   fetchDailyForecast,
   fetchHourlyForecast,
+  fetchModelComparison,
+  compareModels,
   formatDailyForecastReport,
   formatHourlyForecastReport,
+  formatModelComparisonReport,
 } from "./api.js";
-import { DEFAULT_FORECAST_HOURS, MAX_FORECAST_HOURS } from "./constants.js";
+import {
+  DEFAULT_FORECAST_DAYS,
+  MAX_FORECAST_DAYS,
+  DEFAULT_FORECAST_HOURS,
+  MAX_FORECAST_HOURS,
+  DETAILED_FORECAST_HOURS,
+  FORECAST_MODELS,
+  DEFAULT_FORECAST_MODEL,
+  MAX_COMPARISON_MODELS,
+  DEFAULT_TEMPERATURE_SPREAD,
+  DEFAULT_PRECIPITATION_SPREAD,
+} from "./constants.js";
+import type { ForecastModel } from "./types.js";
+import {
+  DEFAULT_UNITS,
+  unitsSchema,
+  fromFahrenheitDelta,
+  fromInches,
+} from "../shared/units.js";
+import { providerSchema, formatProviderSource } from "../shared/providers/index.js";
+import { dailyForecastOutputSchema, hourlyForecastOutputSchema } from "./schema.js";
 
-// Re-export types and constants for consumers
+// Re-export types, schemas and constants for consumers
 export * from "./types.js";
+export * from "./schema.js";
 export * from "./constants.js";
 
+const modelSchema = z.enum(Object.keys(FORECAST_MODELS) as [ForecastModel, ...ForecastModel[]]);
+
 /**
  * Register the get_forecast tool on an MCP server.
  */
-export function registerForecastTool(server: McpServer): void {
-  server.tool(
+export function registerForecastTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
     "get_forecast",
-    "Get 7-day daily weather forecast for a city. Returns daily high/low temperatures, conditions, and precipitation chance.",
     {
-      city: z
-        .string()
-        .min(1, "City name cannot be empty")
-        .describe("City name to get forecast for (e.g., 'London', 'Tokyo', 'New York')"),
+      description:
+        "Get daily weather forecast for a city, up to 16 days. Returns daily high/low temperatures, conditions, and precipitation chance. Optionally pick a weather model (ECMWF, GFS, ICON, …) or compare several models to see where they disagree (Open-Meteo only).",
+      inputSchema: {
+        ...locationSchema,
+        days: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_FORECAST_DAYS)
+          .optional()
+          .describe(`Number of days to forecast (1-${MAX_FORECAST_DAYS}, default ${DEFAULT_FORECAST_DAYS})`),
+        model: modelSchema
+          .optional()
+          .describe(`Weather model to use (default ${DEFAULT_FORECAST_MODEL}, Open-Meteo's blend for the location)`),
+        compare_models: z
+          .array(modelSchema)
+          .min(2)
+          .max(MAX_COMPARISON_MODELS)
+          .transform((models) => [...new Set(models)])
+          .refine((models) => models.length >= 2, { message: "compare_models needs at least 2 different models" })
+          .optional()
+          .describe(`Compare these models side by side instead of a single forecast (2-${MAX_COMPARISON_MODELS} models)`),
+        temperature_spread: z
+          .number()
+          .positive()
+          .optional()
+          .describe(`Comparison mode: flag days where model highs or lows differ by more than this (default ${DEFAULT_TEMPERATURE_SPREAD}°F / ${fromFahrenheitDelta(DEFAULT_TEMPERATURE_SPREAD, "metric")}°C)`),
+        precipitation_spread: z
+          .number()
+          .positive()
+          .optional()
+          .describe(`Comparison mode: flag days where model precipitation differs by more than this (default ${DEFAULT_PRECIPITATION_SPREAD} in / ${fromInches(DEFAULT_PRECIPITATION_SPREAD, "metric")} mm)`),
+        units: unitsSchema,
+        provider: providerSchema,
+      },
+      outputSchema: dailyForecastOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
     },
-    async ({ city }) => {
+    withFreshness(async ({
+      days = DEFAULT_FORECAST_DAYS,
+      model = DEFAULT_FORECAST_MODEL,
+      compare_models: models,
+      temperature_spread,
+      precipitation_spread,
+      units = DEFAULT_UNITS,
+      provider,
+      ...input
+    }) => {
+      if (provider && provider !== "open-meteo" && (models || model !== DEFAULT_FORECAST_MODEL)) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Model selection and comparison are only available from Open-Meteo. Omit the provider or set it to 'open-meteo'.",
+            },
+          ],
+          isError: true,
+        };
+      }
+
       try {
-        const location = await geocodeCity(city);
+        const resolved = await resolveLocation(input);
+
+        if (!resolved.ok) {
+          return {
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
+          };
+        }
+
+        const { location, alternatives } = resolved;
+
+        if (models) {
+          const temperatureSpread = temperature_spread ?? fromFahrenheitDelta(DEFAULT_TEMPERATURE_SPREAD, units);
+          const precipitationSpread = precipitation_spread ?? fromInches(DEFAULT_PRECIPITATION_SPREAD, units);
+
+          const comparison = await fetchModelComparison(location.latitude, location.longitude, models, days, units);
+          const comparisonDays = compareModels(comparison, models, temperatureSpread, precipitationSpread);
+          const report = formatModelComparisonReport(
+            location,
+            comparisonDays,
+            models,
+            temperatureSpread,
+            precipitationSpread,
+            units
+          );
 
-        if (!location) {
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Could not find a location matching "${city}". Try a more specific city name.`,
+                text: appendAlternatives(`${report}\n\n${formatProviderSource("open-meteo")}`, alternatives),
               },
             ],
+            structuredContent: {
+              location,
+              alternatives,
+              units,
+              provider: "open-meteo" as const,
+              models,
+              timezone: comparison.timezone,
+              daily: comparison.daily,
+              daily_units: comparison.daily_units,
+              comparison: { temperatureSpread, precipitationSpread, days: comparisonDays },
+            },
           };
         }
 
-        const forecast = await fetchDailyForecast(location.latitude, location.longitude);
-        const report = formatDailyForecastReport(location, forecast);
+        const { data: forecast, provider: source } = await fetchDailyForecast(
+          location.latitude,
+          location.longitude,
+          days,
+          units,
+          model,
+          provider
+        );
+        const report = `${formatDailyForecastReport(location, forecast, model)}\n\n${formatProviderSource(source)}`;
 
         return {
-          content: [{ type: "text" as const, text: report }],
+          content: [{ type: "text" as const, text: appendAlternatives(report, alternatives) }],
+          structuredContent: {
+            location,
+            alternatives,
+            units,
+            provider: source,
+            models: [model],
+            timezone: forecast.timezone,
+            daily: forecast.daily,
+            daily_units: forecast.daily_units,
+          },
         };
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -59,60 +196,76 @@ export function registerForecastTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error fetching forecast for "${city}": ${message}`,
+              text: `Error fetching forecast for "${describeLocationInput(input)}": ${message}`,
             },
           ],
           isError: true,
         };
       }
-    }
+    })
   );
 }
 
 /**
  * Register the get_hourly_forecast tool on an MCP server.
  */
-export function registerHourlyForecastTool(server: McpServer): void {
-  server.tool(
+export function registerHourlyForecastTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
     "get_hourly_forecast",
-    "Get hourly weather forecast for a city. Returns temperature, conditions, and precipitation probability for each hour.",
     {
-      city: z
-        .string()
-        .min(1, "City name cannot be empty")
-        .describe("City name to get hourly forecast for"),
-      hours: z
-        .number()
-        .int()
-        .min(1)
-        .max(MAX_FORECAST_HOURS)
-        .optional()
-        .describe(`Number of hours to forecast (1-${MAX_FORECAST_HOURS}, default ${DEFAULT_FORECAST_HOURS})`),
+      description:
+        "Get hourly weather forecast for a city, up to 384 hours (16 days). Returns temperature, conditions, and precipitation probability for each hour; ranges over 48 hours are summarised by day in the text report.",
+      inputSchema: {
+        ...locationSchema,
+        hours: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_FORECAST_HOURS)
+          .optional()
+          .describe(
+            `Number of hours to forecast (1-${MAX_FORECAST_HOURS}, default ${DEFAULT_FORECAST_HOURS}). ` +
+            `Over ${DETAILED_FORECAST_HOURS} hours the text report is summarised by day.`
+          ),
+        units: unitsSchema,
+        provider: providerSchema,
+      },
+      outputSchema: hourlyForecastOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
     },
-    async ({ city, hours }) => {
+    withFreshness(async ({ hours = DEFAULT_FORECAST_HOURS, units = DEFAULT_UNITS, provider, ...input }) => {
       try {
-        const location = await geocodeCity(city);
+        const resolved = await resolveLocation(input);
 
-        if (!location) {
+        if (!resolved.ok) {
           return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Could not find a location matching "${city}". Try a more specific city name.`,
-              },
-            ],
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
           };
         }
 
-        const forecast = await fetchHourlyForecast(
+        const { location, alternatives } = resolved;
+
+        const { data: forecast, provider: source } = await fetchHourlyForecast(
           location.latitude,
           location.longitude,
-          hours ?? DEFAULT_FORECAST_HOURS
+          hours,
+          units,
+          provider
         );
-        const report = formatHourlyForecastReport(location, forecast);
+        const report = `${formatHourlyForecastReport(location, forecast)}\n\n${formatProviderSource(source)}`;
 
         return {
-          content: [{ type: "text" as const, text: report }],
+          content: [{ type: "text" as const, text: appendAlternatives(report, alternatives) }],
+          structuredContent: {
+            location,
+            alternatives,
+            units,
+            provider: source,
+            timezone: forecast.timezone,
+            hourly: forecast.hourly,
+            hourly_units: forecast.hourly_units,
+          },
         };
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -120,12 +273,12 @@ export function registerHourlyForecastTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error fetching hourly forecast for "${city}": ${message}`,
+              text: `Error fetching hourly forecast for "${describeLocationInput(input)}": ${message}`,
             },
           ],
           isError: true,
         };
       }
-    }
+    })
   );
 }
@@ -0,0 +1,60 @@
+/**
+ * tools/forecast/schema.ts — Output schemas for forecast tools.
+ */
+
+import { z } from "zod";
+import {
+  locationOutputSchema,
+  unitSystemSchema,
+  providerIdSchema,
+  seriesBlockSchema,
+  unitLabelsSchema,
+} from "../shared/output.js";
+
+/** Mirrors `ModelComparisonDay`. */
+export const modelComparisonDaySchema = z.object({
+  date: z.string(),
+  values: z.array(
+    z.object({
+      model: z.string(),
+      high: z.number().nullable(),
+      low: z.number().nullable(),
+      precipitation: z.number().nullable(),
+    })
+  ),
+  highSpread: z.number().nullable(),
+  lowSpread: z.number().nullable(),
+  precipitationSpread: z.number().nullable(),
+  disagreements: z.array(z.enum(["high", "low", "precipitation"])),
+});
+
+/**
+ * Structured output of get_forecast. In comparison mode `daily` holds
+ * model-suffixed variables and `comparison` the per-day spreads.
+ */
+export const dailyForecastOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  provider: providerIdSchema,
+  models: z.array(z.string()),
+  timezone: z.string(),
+  daily: seriesBlockSchema,
+  daily_units: unitLabelsSchema,
+  comparison: z
+    .object({
+      temperatureSpread: z.number(),
+      precipitationSpread: z.number(),
+      days: z.array(modelComparisonDaySchema),
+    })
+    .optional(),
+};
+
+/** Structured output of get_hourly_forecast. */
+export const hourlyForecastOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  provider: providerIdSchema,
+  timezone: z.string(),
+  hourly: seriesBlockSchema,
+  hourly_units: unitLabelsSchema,
+};
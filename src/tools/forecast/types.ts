@@ -41,3 +41,48 @@ export interface HourlyForecastResponse {
   hourly: HourlyForecast;
   hourly_units: Record<string, string>;
 }
+
+/** Open-Meteo forecast models selectable via the `models` parameter. */
+export type ForecastModel =
+  | "best_match"
+  | "ecmwf_ifs025"
+  | "gfs_seamless"
+  | "icon_seamless"
+  | "gem_seamless"
+  | "meteofrance_seamless"
+  | "ukmo_seamless"
+  | "jma_seamless";
+
+/**
+ * Multi-model daily response. Each daily variable is suffixed with the
+ * model name (e.g. `temperature_2m_max_gfs_seamless`).
+ */
+export interface ModelComparisonResponse {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  daily: {
+    time: string[];
+    [variable: string]: (number | null)[] | string[];
+  };
+  daily_units: Record<string, string>;
+}
+
+/** One model's values for a day (null where the model has no data). */
+export interface ModelDayValues {
+  model: ForecastModel;
+  high: number | null;
+  low: number | null;
+  precipitation: number | null;
+}
+
+/** Cross-model comparison for one forecast day. */
+export interface ModelComparisonDay {
+  date: string;
+  values: ModelDayValues[];
+  highSpread: number | null;
+  lowSpread: number | null;
+  precipitationSpread: number | null;
+  /** Variables whose spread exceeds the configured threshold. */
+  disagreements: ("high" | "low" | "precipitation")[];
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { resolveDateRange, archiveTtl } from "../api.js";
+import { TTL_FORECAST, TTL_STATIC } from "../../shared/cache/index.js";
+
+const NOW = new Date("2025-06-15T12:00:00Z");
+
+describe("resolveDateRange", () => {
+  it("defaults end_date to start_date", () => {
+    expect(resolveDateRange("2024-03-14", undefined, false, NOW)).toEqual({
+      ok: true,
+      startDate: "2024-03-14",
+      endDate: "2024-03-14",
+    });
+  });
+
+  it("rejects dates that don't exist", () => {
+    const result = resolveDateRange("2024-02-30", undefined, false, NOW);
+
+    expect(result).toEqual({ ok: false, message: 'Invalid start_date "2024-02-30". Use YYYY-MM-DD.' });
+  });
+
+  it("rejects a reversed range", () => {
+    expect(resolveDateRange("2024-03-14", "2024-03-01", false, NOW).ok).toBe(false);
+  });
+
+  it("rejects dates before the archive starts", () => {
+    expect(resolveDateRange("1939-12-31", "1940-01-02", false, NOW).ok).toBe(false);
+  });
+
+  it("rejects today and future dates", () => {
+    expect(resolveDateRange("2025-06-14", undefined, false, NOW).ok).toBe(true);
+    expect(resolveDateRange("2025-06-15", undefined, false, NOW).ok).toBe(false);
+  });
+
+  it("caps the range more tightly when hourly data is requested", () => {
+    expect(resolveDateRange("2024-03-01", "2024-03-31", false, NOW).ok).toBe(true);
+    expect(resolveDateRange("2024-03-01", "2024-04-01", false, NOW).ok).toBe(false);
+    expect(resolveDateRange("2024-03-01", "2024-03-07", true, NOW).ok).toBe(true);
+    expect(resolveDateRange("2024-03-01", "2024-03-08", true, NOW).ok).toBe(false);
+  });
+});
+
+describe("archiveTtl", () => {
+  it("caches settled ranges for a long time", () => {
+    expect(archiveTtl("2025-06-09", NOW)).toBe(TTL_STATIC);
+  });
+
+  it("caches ranges reaching into the archive delay briefly", () => {
+    expect(archiveTtl("2025-06-10", NOW)).toBe(TTL_FORECAST);
+    expect(archiveTtl("2025-06-14", NOW)).toBe(TTL_FORECAST);
+  });
+});
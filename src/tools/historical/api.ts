@@ -0,0 +1,201 @@
+/**
+ * tools/historical/api.ts — Open-Meteo archive API functions.
+ */
+
+import type { GeoResult } from "../shared/geocoding.js";
+import { formatLocationName } from "../shared/location-name.js";
+import type { DateRangeResult, HistoricalWeatherResponse } from "./types.js";
+import {
+  ARCHIVE_START_DATE,
+  ARCHIVE_DELAY_DAYS,
+  MAX_HISTORICAL_DAYS,
+  MAX_HISTORICAL_HOURLY_DAYS,
+} from "./constants.js";
+import { WMO_CODES } from "../weather/constants.js";
+import { cachedFetchJson } from "../shared/fetch.js";
+import { TTL_FORECAST, TTL_STATIC } from "../shared/cache/index.js";
+import { DEFAULT_UNITS, getUnitParams, type UnitSystem } from "../shared/units.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Parse a YYYY-MM-DD string as a UTC date, or null if it isn't a real date. */
+function parseDate(value: string): Date | null {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) return null;
+  // Reject dates JavaScript silently rolls over (e.g. 2024-02-30)
+  return date.toISOString().slice(0, 10) === value ? date : null;
+}
+
+/**
+ * Validate a requested date range against the archive's limits.
+ *
+ * `endDate` defaults to `startDate` (a single day). Dates must be in the
+ * past; the range is capped more tightly when hourly data is requested.
+ */
+export function resolveDateRange(
+  startDate: string,
+  endDate: string | undefined,
+  includeHourly: boolean,
+  now: Date = new Date()
+): DateRangeResult {
+  const end = endDate ?? startDate;
+  const startParsed = parseDate(startDate);
+  const endParsed = parseDate(end);
+
+  if (!startParsed) return { ok: false, message: `Invalid start_date "${startDate}". Use YYYY-MM-DD.` };
+  if (!endParsed) return { ok: false, message: `Invalid end_date "${end}". Use YYYY-MM-DD.` };
+
+  if (endParsed < startParsed) {
+    return { ok: false, message: "end_date must be on or after start_date." };
+  }
+  if (startDate < ARCHIVE_START_DATE) {
+    return { ok: false, message: `Historical data is available from ${ARCHIVE_START_DATE} onwards.` };
+  }
+
+  const today = now.toISOString().slice(0, 10);
+  if (end >= today) {
+    return { ok: false, message: "Dates must be in the past. Use get_forecast for today and future dates." };
+  }
+
+  const days = Math.round((endParsed.getTime() - startParsed.getTime()) / DAY_MS) + 1;
+  const maxDays = includeHourly ? MAX_HISTORICAL_HOURLY_DAYS : MAX_HISTORICAL_DAYS;
+  if (days > maxDays) {
+    const detail = includeHourly ? " when include_hourly is set" : "";
+    return { ok: false, message: `Date range is limited to ${maxDays} days${detail} (requested ${days}).` };
+  }
+
+  return { ok: true, startDate, endDate: end };
+}
+
+/**
+ * Cache TTL for an archive range ending on `endDate`.
+ *
+ * Days within the archive delay are still being backfilled (missing
+ * values until then), so those ranges get a short TTL; settled ranges
+ * don't change and are cached for a long time.
+ */
+export function archiveTtl(endDate: string, now: Date = new Date()): number {
+  const settledThrough = new Date(now.getTime() - ARCHIVE_DELAY_DAYS * DAY_MS).toISOString().slice(0, 10);
+  return endDate < settledThrough ? TTL_STATIC : TTL_FORECAST;
+}
+
+/**
+ * Fetch daily (and optionally hourly) observations for a date range.
+ */
+export async function fetchHistoricalWeather(
+  latitude: number,
+  longitude: number,
+  startDate: string,
+  endDate: string,
+  includeHourly: boolean = false,
+  units: UnitSystem = DEFAULT_UNITS
+): Promise<HistoricalWeatherResponse> {
+  const params = new URLSearchParams({
+    latitude: latitude.toString(),
+    longitude: longitude.toString(),
+    start_date: startDate,
+    end_date: endDate,
+    daily: [
+      "weather_code",
+      "temperature_2m_max",
+      "temperature_2m_min",
+      "precipitation_sum",
+      "wind_speed_10m_max",
+      "wind_gusts_10m_max",
+      "sunrise",
+      "sunset",
+    ].join(","),
+    ...getUnitParams(units),
+    timezone: "auto",
+  });
+
+  if (includeHourly) {
+    params.set(
+      "hourly",
+      [
+        "temperature_2m",
+        "relative_humidity_2m",
+        "precipitation",
+        "weather_code",
+        "wind_speed_10m",
+        "wind_direction_10m",
+      ].join(",")
+    );
+  }
+
+  const url = `https://archive-api.open-meteo.com/v1/archive?${params}`;
+  return cachedFetchJson<HistoricalWeatherResponse>(url, { ttlMs: archiveTtl(endDate) });
+}
+
+/**
+ * Format historical observations into a human-readable report.
+ */
+export function formatHistoricalWeatherReport(
+  location: GeoResult,
+  history: HistoricalWeatherResponse,
+  startDate: string,
+  endDate: string
+): string {
+  const { daily, daily_units, hourly, hourly_units } = history;
+  const locationName = formatLocationName(location);
+  const period = startDate === endDate ? startDate : `${startDate} to ${endDate}`;
+
+  const lines = [`Historical Weather for ${locationName} (${period})`, ""];
+
+  for (let i = 0; i < daily.time.length; i++) {
+    const date = new Date(`${daily.time[i]}T00:00:00Z`).toLocaleDateString("en-US", {
+      weekday: "short",
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    });
+    const high = daily.temperature_2m_max[i];
+    const low = daily.temperature_2m_min[i];
+
+    lines.push(`${date}:`);
+    if (high === null || low === null) {
+      lines.push("  No observations available yet");
+      lines.push("");
+      continue;
+    }
+
+    const condition = WMO_CODES[daily.weather_code[i]] ?? "Unknown";
+    lines.push(`  ${condition}`);
+    lines.push(`  High: ${high}${daily_units.temperature_2m_max} / Low: ${low}${daily_units.temperature_2m_min}`);
+    lines.push(`  Precip: ${daily.precipitation_sum[i]}${daily_units.precipitation_sum}`);
+    lines.push(
+      `  Wind: up to ${daily.wind_speed_10m_max[i]} ${daily_units.wind_speed_10m_max}` +
+      ` (gusts ${daily.wind_gusts_10m_max[i]} ${daily_units.wind_gusts_10m_max})`
+    );
+    lines.push("");
+  }
+
+  if (hourly && hourly_units) {
+    lines.push("=== Hourly Observations ===");
+    for (let i = 0; i < hourly.time.length; i++) {
+      const time = new Date(`${hourly.time[i]}Z`).toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        hour12: true,
+        timeZone: "UTC",
+      });
+      const condition = WMO_CODES[hourly.weather_code[i]] ?? "Unknown";
+
+      lines.push(
+        `${time}: ${hourly.temperature_2m[i]}${hourly_units.temperature_2m}, ${condition}, ` +
+        `${hourly.precipitation[i]}${hourly_units.precipitation} precip, ` +
+        `${hourly.relative_humidity_2m[i]}% humidity, ${hourly.wind_speed_10m[i]} ${hourly_units.wind_speed_10m} wind`
+      );
+    }
+    lines.push("");
+  }
+
+  const recentCutoff = new Date(Date.now() - ARCHIVE_DELAY_DAYS * DAY_MS).toISOString().slice(0, 10);
+  if (endDate > recentCutoff) {
+    lines.push(`Note: the archive lags about ${ARCHIVE_DELAY_DAYS} days behind today, so recent days may be incomplete.`);
+  }
+
+  return lines.join("\n").trimEnd();
+}
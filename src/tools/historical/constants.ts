@@ -0,0 +1,24 @@
+/**
+ * tools/historical/constants.ts — Constants for the historical weather tool.
+ */
+
+/**
+ * Earliest date available from the Open-Meteo archive (ERA5 reanalysis).
+ */
+export const ARCHIVE_START_DATE = "1940-01-01";
+
+/**
+ * Maximum days per request for daily observations.
+ */
+export const MAX_HISTORICAL_DAYS = 31;
+
+/**
+ * Maximum days per request when hourly observations are included.
+ */
+export const MAX_HISTORICAL_HOURLY_DAYS = 7;
+
+/**
+ * Days the archive typically lags behind today. Requests for more recent
+ * dates succeed but may contain missing values.
+ */
+export const ARCHIVE_DELAY_DAYS = 5;
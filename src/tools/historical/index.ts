@@ -0,0 +1,115 @@
+/**
+ * tools/historical/index.ts — Historical weather tool definition.
+ *
+ * Exports a function to register the historical weather tool on an MCP server.
+ */
+
+import { z } from "zod";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
+import { resolveDateRange, fetchHistoricalWeather, formatHistoricalWeatherReport } from "./api.js";
+import { MAX_HISTORICAL_DAYS, MAX_HISTORICAL_HOURLY_DAYS } from "./constants.js";
+import { DEFAULT_UNITS, unitsSchema } from "../shared/units.js";
+import { historicalWeatherOutputSchema } from "./schema.js";
+
+// Re-export types, schemas and constants for consumers
+export * from "./types.js";
+export * from "./schema.js";
+export * from "./constants.js";
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+/**
+ * Register the get_historical_weather tool on an MCP server.
+ */
+export function registerHistoricalWeatherTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
+    "get_historical_weather",
+    {
+      description:
+        "Get observed weather for a past date or date range. Returns daily high/low temperatures, conditions, precipitation, and wind, with optional hourly observations.",
+      inputSchema: {
+        ...locationSchema,
+        start_date: dateSchema.describe("First date to look up (YYYY-MM-DD, from 1940-01-01)"),
+        end_date: dateSchema
+          .optional()
+          .describe(`Last date to look up (YYYY-MM-DD, defaults to start_date, up to ${MAX_HISTORICAL_DAYS} days)`),
+        include_hourly: z
+          .boolean()
+          .optional()
+          .describe(`Include hourly observations (limits the range to ${MAX_HISTORICAL_HOURLY_DAYS} days)`),
+        units: unitsSchema,
+      },
+      outputSchema: historicalWeatherOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
+    },
+    withFreshness(async ({ start_date, end_date, include_hourly = false, units = DEFAULT_UNITS, ...input }) => {
+      try {
+        const range = resolveDateRange(start_date, end_date, include_hourly);
+
+        if (!range.ok) {
+          return {
+            content: [{ type: "text" as const, text: range.message }],
+            isError: true,
+          };
+        }
+
+        const resolved = await resolveLocation(input);
+
+        if (!resolved.ok) {
+          return {
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
+          };
+        }
+
+        const { location, alternatives } = resolved;
+        const { startDate, endDate } = range;
+
+        const history = await fetchHistoricalWeather(
+          location.latitude,
+          location.longitude,
+          startDate,
+          endDate,
+          include_hourly,
+          units
+        );
+        const report = formatHistoricalWeatherReport(location, history, startDate, endDate);
+
+        return {
+          content: [{ type: "text" as const, text: appendAlternatives(report, alternatives) }],
+          structuredContent: {
+            location,
+            alternatives,
+            units,
+            timezone: history.timezone,
+            start_date: startDate,
+            end_date: endDate,
+            daily: history.daily,
+            daily_units: history.daily_units,
+            hourly: history.hourly,
+            hourly_units: history.hourly_units,
+          },
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error fetching historical weather for "${describeLocationInput(input)}": ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    })
+  );
+}
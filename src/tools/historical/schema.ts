@@ -0,0 +1,24 @@
+/**
+ * tools/historical/schema.ts — Output schema for the historical weather tool.
+ */
+
+import { z } from "zod";
+import {
+  locationOutputSchema,
+  unitSystemSchema,
+  seriesBlockSchema,
+  unitLabelsSchema,
+} from "../shared/output.js";
+
+/** Structured output of get_historical_weather. */
+export const historicalWeatherOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  timezone: z.string(),
+  start_date: z.string(),
+  end_date: z.string(),
+  daily: seriesBlockSchema,
+  daily_units: unitLabelsSchema,
+  hourly: seriesBlockSchema.optional(),
+  hourly_units: unitLabelsSchema.optional(),
+};
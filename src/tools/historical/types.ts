@@ -0,0 +1,26 @@
+/**
+ * tools/historical/types.ts — Type definitions for the historical weather tool.
+ *
+ * Observations use the same shapes as the forecast types, minus the
+ * precipitation probability fields which only exist for forecasts.
+ */
+
+import type { DailyForecast, HourlyForecast } from "../forecast/types.js";
+
+export type HistoricalDaily = Omit<DailyForecast, "precipitation_probability_max">;
+
+export type HistoricalHourly = Omit<HourlyForecast, "precipitation_probability">;
+
+export interface HistoricalWeatherResponse {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  daily: HistoricalDaily;
+  daily_units: Record<string, string>;
+  hourly?: HistoricalHourly;
+  hourly_units?: Record<string, string>;
+}
+
+export type DateRangeResult =
+  | { ok: true; startDate: string; endDate: string }
+  | { ok: false; message: string };
@@ -3,7 +3,9 @@
  */
 
 import type { GeoResult } from "../shared/geocoding.js";
-import { cachedFetchJson } from "../shared/fetch.js";
+import { formatLocationName } from "../shared/location-name.js";
+import { fetchForecastData } from "../shared/forecast-data.js";
+import { DEFAULT_UNITS, toFahrenheit, type UnitSystem } from "../shared/units.js";
 import type { HumidityResponse } from "./types.js";
 import {
   getHumidityLevel,
@@ -17,31 +19,25 @@ import {
  */
 export async function fetchHumidityData(
   latitude: number,
-  longitude: number
+  longitude: number,
+  units: UnitSystem = DEFAULT_UNITS
 ): Promise<HumidityResponse> {
-  const params = new URLSearchParams({
-    latitude: latitude.toString(),
-    longitude: longitude.toString(),
+  return fetchForecastData<HumidityResponse>(latitude, longitude, units, {
     current: [
       "temperature_2m",
       "relative_humidity_2m",
       "dew_point_2m",
       "apparent_temperature",
       "surface_pressure",
-    ].join(","),
+    ],
     hourly: [
       "relative_humidity_2m",
       "dew_point_2m",
       "vapour_pressure_deficit",
-    ].join(","),
-    temperature_unit: "fahrenheit",
-    timezone: "auto",
-    forecast_days: "7",
-    forecast_hours: "48",
+    ],
+    forecastDays: 7,
+    forecastHours: 48,
   });
-
-  const url = `https://api.open-meteo.com/v1/forecast?${params}`;
-  return cachedFetchJson<HumidityResponse>(url);
 }
 
 /**
@@ -49,16 +45,17 @@ export async function fetchHumidityData(
  */
 export function formatHumidityReport(
   location: GeoResult,
-  data: HumidityResponse
+  data: HumidityResponse,
+  units: UnitSystem = DEFAULT_UNITS
 ): string {
   const { current, current_units, hourly, hourly_units } = data;
-  const locationName = location.admin1
-    ? `${location.name}, ${location.admin1}, ${location.country}`
-    : `${location.name}, ${location.country}`;
+  const locationName = formatLocationName(location);
 
   const humidityLevel = getHumidityLevel(current.relative_humidity_2m);
-  const dewPointComfort = getDewPointComfort(current.dew_point_2m);
-  const fogPotential = getFogPotential(current.temperature_2m, current.dew_point_2m);
+  // Comfort and fog thresholds are defined in °F
+  const dewPointF = toFahrenheit(current.dew_point_2m, units);
+  const dewPointComfort = getDewPointComfort(dewPointF);
+  const fogPotential = getFogPotential(toFahrenheit(current.temperature_2m, units), dewPointF);
 
   const lines = [
     `Humidity & Moisture for ${locationName}`,
@@ -4,48 +4,68 @@
  * Exports a function to register the humidity tool on an MCP server.
  */
 
-import { z } from "zod";
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { geocodeCity } from "../shared/geocoding.js";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
 import { fetchHumidityData, formatHumidityReport } from "./api.js";
+import { DEFAULT_UNITS, unitsSchema } from "../shared/units.js";
+import { humidityOutputSchema } from "./schema.js";
 
-// Re-export types and constants for consumers
+// Re-export types, schemas and constants for consumers
 export * from "./types.js";
+export * from "./schema.js";
 export * from "./constants.js";
 
 /**
  * Register the get_humidity tool on an MCP server.
  */
-export function registerHumidityTool(server: McpServer): void {
-  server.tool(
+export function registerHumidityTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
     "get_humidity",
-    "Get humidity and moisture data for a city. Returns relative humidity, dew point, comfort levels, fog potential, and 48-hour forecast.",
     {
-      city: z
-        .string()
-        .min(1, "City name cannot be empty")
-        .describe("City name to get humidity data for (e.g., 'Miami', 'Phoenix')"),
+      description:
+        "Get humidity and moisture data for a city. Returns relative humidity, dew point, comfort levels, fog potential, and 48-hour forecast.",
+      inputSchema: {
+        ...locationSchema,
+        units: unitsSchema,
+      },
+      outputSchema: humidityOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
     },
-    async ({ city }) => {
+    withFreshness(async ({ units = DEFAULT_UNITS, ...input }) => {
       try {
-        const location = await geocodeCity(city);
+        const resolved = await resolveLocation(input);
 
-        if (!location) {
+        if (!resolved.ok) {
           return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Could not find a location matching "${city}". Try a more specific city name.`,
-              },
-            ],
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
           };
         }
 
-        const humidityData = await fetchHumidityData(location.latitude, location.longitude);
-        const report = formatHumidityReport(location, humidityData);
+        const { location, alternatives } = resolved;
+
+        const humidityData = await fetchHumidityData(location.latitude, location.longitude, units);
+        const report = formatHumidityReport(location, humidityData, units);
 
         return {
-          content: [{ type: "text" as const, text: report }],
+          content: [{ type: "text" as const, text: appendAlternatives(report, alternatives) }],
+          structuredContent: {
+            location,
+            alternatives,
+            units,
+            timezone: humidityData.timezone,
+            current: humidityData.current,
+            current_units: humidityData.current_units,
+            hourly: humidityData.hourly,
+            hourly_units: humidityData.hourly_units,
+          },
         };
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -53,12 +73,12 @@ export function registerHumidityTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error fetching humidity data for "${city}": ${message}`,
+              text: `Error fetching humidity data for "${describeLocationInput(input)}": ${message}`,
             },
           ],
           isError: true,
         };
       }
-    }
+    })
   );
 }
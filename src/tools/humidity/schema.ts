@@ -0,0 +1,23 @@
+/**
+ * tools/humidity/schema.ts — Output schema for the humidity tool.
+ */
+
+import { z } from "zod";
+import {
+  locationOutputSchema,
+  unitSystemSchema,
+  currentBlockSchema,
+  seriesBlockSchema,
+  unitLabelsSchema,
+} from "../shared/output.js";
+
+/** Structured output of get_humidity. */
+export const humidityOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  timezone: z.string(),
+  current: currentBlockSchema,
+  current_units: unitLabelsSchema,
+  hourly: seriesBlockSchema,
+  hourly_units: unitLabelsSchema,
+};
@@ -8,11 +8,16 @@
  * - Tool discovery for hub registration
  */
 
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { instrumentTools } from "./shared/instrumentation.js";
+import { authorizeTools, type ToolAccess } from "./shared/scopes.js";
 
 // Layer 1: Primitives
+import { registerSearchLocationsTool } from "./locations/index.js";
 import { registerWeatherTool } from "./weather/index.js";
 import { registerForecastTool, registerHourlyForecastTool } from "./forecast/index.js";
+import { registerHistoricalWeatherTool } from "./historical/index.js";
+import { registerEnsembleForecastTool } from "./ensemble/index.js";
 import { registerAirQualityTool } from "./air-quality/index.js";
 import { registerMarineTool } from "./marine/index.js";
 import { registerSoilTool } from "./soil/index.js";
@@ -26,38 +31,61 @@ import { registerAgricultureTool } from "./agriculture/index.js";
 import { registerOutdoorTool } from "./outdoor/index.js";
 import { registerMarineConditionsTool } from "./marine-conditions/index.js";
 import { registerSevereWeatherTool } from "./severe-weather/index.js";
+import { registerClimateAnomalyTool } from "./climate/index.js";
 
 /**
- * Register all available tools on an MCP server.
+ * Register all available tools on an MCP server, authorized for callers
+ * with `access` (see `authorizeTools`).
  *
  * Add new tool registrations here as they're created.
  */
-export function registerAllTools(server: McpServer): void {
-  // Layer 1: Primitives - single-purpose tools returning focused data
-  registerWeatherTool(server);
-  registerForecastTool(server);
-  registerHourlyForecastTool(server);
-  registerAirQualityTool(server);
-  registerMarineTool(server);
-  registerSoilTool(server);
-  registerWindTool(server);
-  registerPrecipitationTool(server);
-  registerHumidityTool(server);
+export function registerAllTools(server: McpServer, access: ToolAccess): void {
+  const tools = {
+    // Layer 1: Primitives - single-purpose tools returning focused data
+    search_locations: registerSearchLocationsTool(server),
+    get_weather: registerWeatherTool(server),
+    get_forecast: registerForecastTool(server),
+    get_hourly_forecast: registerHourlyForecastTool(server),
+    get_historical_weather: registerHistoricalWeatherTool(server),
+    get_ensemble_forecast: registerEnsembleForecastTool(server),
+    get_air_quality: registerAirQualityTool(server),
+    get_marine: registerMarineTool(server),
+    get_soil_conditions: registerSoilTool(server),
+    get_wind: registerWindTool(server),
+    get_precipitation: registerPrecipitationTool(server),
+    get_humidity: registerHumidityTool(server),
 
-  // Layer 2: Vertical Compound Tools - combine multiple data sources
-  registerFireWeatherTool(server);
-  registerAgricultureTool(server);
-  registerOutdoorTool(server);
-  registerMarineConditionsTool(server);
-  registerSevereWeatherTool(server);
+    // Layer 2: Vertical Compound Tools - combine multiple data sources
+    get_fire_weather: registerFireWeatherTool(server),
+    get_growing_conditions: registerAgricultureTool(server),
+    get_outdoor_conditions: registerOutdoorTool(server),
+    get_marine_conditions: registerMarineConditionsTool(server),
+    get_severe_weather: registerSevereWeatherTool(server),
+    get_climate_anomalies: registerClimateAnomalyTool(server),
+  } satisfies Record<ToolName, RegisteredTool>;
+
+  // Check the caller's scopes against each tool's requiredScopes, then
+  // count and time every call (denied ones included)
+  authorizeTools(server, tools, access);
+  instrumentTools(tools);
 }
 
+/** Name of a tool in the manifest. */
+type ToolName = (typeof toolManifest)[number]["name"];
+
 /**
  * Tool manifest for hub discovery.
  * Lists available tools without requiring server instantiation.
  */
 export const toolManifest = [
   // Layer 1: Primitives
+  {
+    name: "search_locations",
+    description:
+      "Search for locations by name or postal code. Returns ranked candidates with region, country, population, elevation, timezone, and a location_id for other tools.",
+    category: "primitive",
+    tags: ["geocoding", "location", "search"],
+  },
   {
     name: "get_weather",
     description:
@@ -68,17 +96,31 @@ export const toolManifest = [
   {
     name: "get_forecast",
     description:
-      "Get 7-day daily weather forecast for a city. Returns daily high/low temperatures, conditions, and precipitation chance.",
+      "Get daily weather forecast for a city, up to 16 days. Returns daily high/low temperatures, conditions, and precipitation chance. Supports model selection and multi-model comparison.",
     category: "primitive",
-    tags: ["weather", "forecast", "daily"],
+    tags: ["weather", "forecast", "daily", "models"],
   },
   {
     name: "get_hourly_forecast",
     description:
-      "Get hourly weather forecast for a city. Returns temperature, conditions, and precipitation probability for each hour.",
+      "Get hourly weather forecast for a city, up to 384 hours (16 days). Returns temperature, conditions, and precipitation probability for each hour.",
     category: "primitive",
     tags: ["weather", "forecast", "hourly"],
   },
+  {
+    name: "get_historical_weather",
+    description:
+      "Get observed weather for a past date or date range. Returns daily high/low temperatures, conditions, precipitation, and wind, with optional hourly observations.",
+    category: "primitive",
+    tags: ["weather", "historical", "archive"],
+  },
+  {
+    name: "get_ensemble_forecast",
+    description:
+      "Get an ensemble forecast for a city showing forecast uncertainty. Returns per-day median and 10th/90th percentile temperatures, precipitation chance, and threshold exceedance probabilities.",
+    category: "primitive",
+    tags: ["weather", "forecast", "ensemble", "uncertainty"],
+  },
   {
     name: "get_air_quality",
     description:
@@ -158,4 +200,11 @@ export const toolManifest = [
     category: "compound",
     tags: ["severe", "alerts", "warnings", "safety", "hazards"],
   },
+  {
+    name: "get_climate_anomalies",
+    description:
+      "Compare the 7-day forecast for a city against 30-year climate normals. Returns per-day temperature and precipitation anomalies and a weekly summary.",
+    category: "compound",
+    tags: ["climate", "normals", "anomaly", "forecast"],
+  },
 ] as const;
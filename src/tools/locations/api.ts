@@ -0,0 +1,37 @@
+/**
+ * tools/locations/api.ts — Location search formatting.
+ */
+
+import type { GeoResult } from "../shared/geocoding.js";
+import { formatCoordinates, formatLocationName } from "../shared/location-name.js";
+
+/**
+ * Format ranked location candidates into a human-readable report.
+ */
+export function formatLocationSearchReport(
+  query: string,
+  candidates: GeoResult[]
+): string {
+  const lines = [`Location matches for "${query}"`, ""];
+
+  candidates.forEach((candidate, i) => {
+    lines.push(`${i + 1}. ${formatLocationName(candidate)}`);
+    if (candidate.id !== undefined) {
+      lines.push(`   location_id: ${candidate.id}`);
+    }
+    lines.push(`   Coordinates: ${formatCoordinates(candidate.latitude, candidate.longitude)}`);
+
+    const details: string[] = [];
+    if (candidate.elevation !== undefined) details.push(`Elevation: ${candidate.elevation} m`);
+    if (candidate.population !== undefined) details.push(`Population: ${candidate.population.toLocaleString("en-US")}`);
+    if (candidate.timezone) details.push(`Timezone: ${candidate.timezone}`);
+    if (details.length > 0) {
+      lines.push(`   ${details.join(" | ")}`);
+    }
+  });
+
+  lines.push("");
+  lines.push("Pass location_id to any weather tool to use a specific match.");
+
+  return lines.join("\n");
+}
@@ -0,0 +1,16 @@
+/**
+ * tools/locations/constants.ts — Constants for location search tool.
+ */
+
+import { GEOCODING_SEARCH_COUNT } from "../shared/geocoding.js";
+
+/**
+ * Default number of candidates returned by search_locations.
+ */
+export const DEFAULT_SEARCH_RESULTS = 5;
+
+/**
+ * Maximum number of candidates returned by search_locations.
+ * Matches the number of results requested from the geocoder.
+ */
+export const MAX_SEARCH_RESULTS = GEOCODING_SEARCH_COUNT;
@@ -0,0 +1,88 @@
+/**
+ * tools/locations/index.ts — Location search tool definition.
+ *
+ * Exports a function to register the search_locations tool on an MCP server.
+ * Lets agents disambiguate a place name before calling weather tools.
+ */
+
+import { z } from "zod";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { searchLocations } from "../shared/geocoding.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
+import { formatLocationSearchReport } from "./api.js";
+import { DEFAULT_SEARCH_RESULTS, MAX_SEARCH_RESULTS } from "./constants.js";
+import { locationSearchOutputSchema } from "./schema.js";
+
+// Re-export constants and schemas for consumers
+export * from "./constants.js";
+export * from "./schema.js";
+
+/**
+ * Register the search_locations tool on an MCP server.
+ */
+export function registerSearchLocationsTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
+    "search_locations",
+    {
+      description:
+        "Search for locations by name or postal code. Returns ranked candidates with region, country, population, elevation, timezone, coordinates, and a location_id that other tools accept.",
+      inputSchema: {
+        query: z
+          .string()
+          .min(2, "Query must be at least 2 characters")
+          .describe("Place name or postal code to search for (e.g., 'Paris', 'Springfield', '10001')"),
+        country_code: z
+          .string()
+          .length(2, "Country code must be a 2-letter ISO code")
+          .optional()
+          .describe("ISO-3166-1 alpha-2 country code to restrict results (e.g., 'US', 'FR')"),
+        count: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_SEARCH_RESULTS)
+          .optional()
+          .describe(`Number of candidates to return (1-${MAX_SEARCH_RESULTS}, default ${DEFAULT_SEARCH_RESULTS})`),
+      },
+      outputSchema: locationSearchOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
+    },
+    withFreshness(async ({ query, country_code, count = DEFAULT_SEARCH_RESULTS }) => {
+      try {
+        const candidates = await searchLocations(query, country_code);
+
+        if (candidates.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `No locations found matching "${query}". Try a different spelling or a larger nearby place.`,
+              },
+            ],
+            structuredContent: { query, results: [] },
+          };
+        }
+
+        const results = candidates.slice(0, count);
+        const report = formatLocationSearchReport(query, results);
+
+        return {
+          content: [{ type: "text" as const, text: report }],
+          structuredContent: { query, results },
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error searching locations for "${query}": ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    })
+  );
+}
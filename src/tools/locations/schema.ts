@@ -0,0 +1,13 @@
+/**
+ * tools/locations/schema.ts — Output schema for the location search tool.
+ */
+
+import { z } from "zod";
+import { geoResultSchema, freshnessOutputSchema } from "../shared/output.js";
+
+/** Structured output of search_locations. Results are ranked best match first. */
+export const locationSearchOutputSchema = {
+  query: z.string(),
+  results: z.array(geoResultSchema),
+  ...freshnessOutputSchema,
+};
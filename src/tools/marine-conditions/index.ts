@@ -5,23 +5,45 @@
  * marine activity assessment.
  */
 
-import { z } from "zod";
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
+import { formatCoordinates } from "../shared/location-name.js";
 import { WMO_CODES } from "../weather/constants.js";
 import { getCardinalDirection } from "../shared/directions.js";
 import { getSeaState } from "../shared/sea-state.js";
 import { cachedFetchJson } from "../shared/fetch.js";
+import { fetchForecastData } from "../shared/forecast-data.js";
+import {
+  DEFAULT_UNITS,
+  unitsSchema,
+  getLengthUnitParam,
+  toFahrenheit,
+  toMph,
+  toFeet,
+  toMeters,
+  type UnitSystem,
+} from "../shared/units.js";
 import type { MarineConditionsResponse, MarineAssessment, ActivitySuitability, MarineActivity } from "./types.js";
+import { marineConditionsOutputSchema } from "./schema.js";
 
-// Re-export types
+// Re-export types and schemas
 export * from "./types.js";
+export * from "./schema.js";
 
 /**
  * Fetch marine conditions data for coordinates.
  */
 async function fetchMarineConditionsData(
   latitude: number,
-  longitude: number
+  longitude: number,
+  units: UnitSystem
 ): Promise<MarineConditionsResponse> {
   const marineParams = new URLSearchParams({
     latitude: latitude.toString(),
@@ -39,29 +61,22 @@ async function fetchMarineConditionsData(
       "ocean_current_direction",
     ].join(","),
     daily: ["wave_height_max", "wave_period_max"].join(","),
-    length_unit: "imperial",
+    length_unit: getLengthUnitParam(units),
     timezone: "auto",
     forecast_days: "3",
   });
 
-  const weatherParams = new URLSearchParams({
-    latitude: latitude.toString(),
-    longitude: longitude.toString(),
-    current: [
-      "temperature_2m",
-      "wind_speed_10m",
-      "wind_direction_10m",
-      "wind_gusts_10m",
-      "weather_code",
-    ].join(","),
-    temperature_unit: "fahrenheit",
-    wind_speed_unit: "mph",
-    timezone: "auto",
-  });
-
   const [marine, weather] = await Promise.all([
     cachedFetchJson<MarineConditionsResponse["marine"]>(`https://marine-api.open-meteo.com/v1/marine?${marineParams}`),
-    cachedFetchJson<MarineConditionsResponse["weather"]>(`https://api.open-meteo.com/v1/forecast?${weatherParams}`),
+    fetchForecastData<MarineConditionsResponse["weather"]>(latitude, longitude, units, {
+      current: [
+        "temperature_2m",
+        "wind_speed_10m",
+        "wind_direction_10m",
+        "wind_gusts_10m",
+        "weather_code",
+      ],
+    }),
   ]);
 
   return {
@@ -72,17 +87,23 @@ async function fetchMarineConditionsData(
   };
 }
 
-/** Feet to meters conversion factor. */
-const FEET_TO_METERS = 0.3048;
-
 /**
  * Assess marine conditions for various activities.
+ *
+ * Activity thresholds are defined in feet/mph/°F; values are normalised
+ * from the requested unit system before comparison.
  */
-function assessMarineConditions(data: MarineConditionsResponse): MarineAssessment {
+function assessMarineConditions(data: MarineConditionsResponse, units: UnitSystem): MarineAssessment {
   const m = data.marine.current;
   const w = data.weather.current;
 
-  const seaStateInfo = getSeaState(m.wave_height * FEET_TO_METERS);
+  const waveHeightFt = toFeet(m.wave_height, units);
+  const swellHeightFt = toFeet(m.swell_wave_height, units);
+  const windSpeedMph = toMph(w.wind_speed_10m, units);
+  const windGustsMph = toMph(w.wind_gusts_10m, units);
+  const temperatureF = toFahrenheit(w.temperature_2m, units);
+
+  const seaStateInfo = getSeaState(toMeters(m.wave_height, units));
   const warnings: string[] = [];
   let overallSafety: MarineAssessment["overallSafety"] = "Safe";
 
@@ -90,13 +111,13 @@ function assessMarineConditions(data: MarineConditionsResponse): MarineAssessmen
   if (seaStateInfo.code >= 6) {
     overallSafety = "Hazardous";
     warnings.push("Dangerous sea state - avoid water activities");
-  } else if (seaStateInfo.code >= 4 || w.wind_gusts_10m >= 35) {
+  } else if (seaStateInfo.code >= 4 || windGustsMph >= 35) {
     overallSafety = "Caution";
     if (seaStateInfo.code >= 4) warnings.push("Rough seas - exercise caution");
-    if (w.wind_gusts_10m >= 35) warnings.push("Strong wind gusts");
+    if (windGustsMph >= 35) warnings.push("Strong wind gusts");
   }
 
-  if (w.wind_speed_10m >= 25) {
+  if (windSpeedMph >= 25) {
     warnings.push("Strong sustained winds");
   }
 
@@ -108,23 +129,23 @@ function assessMarineConditions(data: MarineConditionsResponse): MarineAssessmen
   const activities: ActivitySuitability[] = [];
 
   // Swimming
-  const swimmingRating = assessSwimming(m.wave_height, m.ocean_current_velocity, w.temperature_2m);
+  const swimmingRating = assessSwimming(waveHeightFt, m.ocean_current_velocity, temperatureF);
   activities.push(swimmingRating);
 
   // Surfing
-  const surfingRating = assessSurfing(m.wave_height, m.wave_period, m.swell_wave_height, w.wind_speed_10m);
+  const surfingRating = assessSurfing(waveHeightFt, m.wave_period, swellHeightFt, windSpeedMph);
   activities.push(surfingRating);
 
   // Boating
-  const boatingRating = assessBoating(seaStateInfo.code, w.wind_speed_10m, w.wind_gusts_10m);
+  const boatingRating = assessBoating(seaStateInfo.code, windSpeedMph, windGustsMph);
   activities.push(boatingRating);
 
   // Fishing
-  const fishingRating = assessFishing(seaStateInfo.code, w.wind_speed_10m, w.weather_code);
+  const fishingRating = assessFishing(seaStateInfo.code, windSpeedMph, w.weather_code);
   activities.push(fishingRating);
 
   // Diving
-  const divingRating = assessDiving(m.wave_height, m.ocean_current_velocity, seaStateInfo.code);
+  const divingRating = assessDiving(waveHeightFt, m.ocean_current_velocity, seaStateInfo.code);
   activities.push(divingRating);
 
   return {
@@ -233,9 +254,7 @@ function formatMarineConditionsReport(
   const w = data.weather.current;
   const wu = data.weather.current_units;
 
-  const latDir = latitude >= 0 ? "N" : "S";
-  const lonDir = longitude >= 0 ? "E" : "W";
-  const locStr = `${Math.abs(latitude).toFixed(4)}°${latDir}, ${Math.abs(longitude).toFixed(4)}°${lonDir}`;
+  const locStr = formatCoordinates(latitude, longitude);
 
   const condition = WMO_CODES[w.weather_code] ?? "Unknown";
   const windDir = getCardinalDirection(w.wind_direction_10m);
@@ -319,30 +338,46 @@ function formatMarineConditionsReport(
 /**
  * Register the get_marine_conditions tool on an MCP server.
  */
-export function registerMarineConditionsTool(server: McpServer): void {
-  server.tool(
+export function registerMarineConditionsTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
     "get_marine_conditions",
-    "Get comprehensive marine conditions assessment for ocean coordinates. Includes waves, swell, wind, currents, and activity recommendations for swimming, surfing, boating, fishing, and diving.",
     {
-      latitude: z
-        .number()
-        .min(-90)
-        .max(90)
-        .describe("Latitude of the ocean location (-90 to 90)"),
-      longitude: z
-        .number()
-        .min(-180)
-        .max(180)
-        .describe("Longitude of the ocean location (-180 to 180)"),
+      description:
+        "Get comprehensive marine conditions assessment for ocean coordinates. Includes waves, swell, wind, currents, and activity recommendations for swimming, surfing, boating, fishing, and diving.",
+      inputSchema: {
+        ...locationSchema,
+        units: unitsSchema,
+      },
+      outputSchema: marineConditionsOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead, TOOL_SCOPES.marineRead),
     },
-    async ({ latitude, longitude }) => {
+    withFreshness(async ({ units = DEFAULT_UNITS, ...input }) => {
       try {
-        const data = await fetchMarineConditionsData(latitude, longitude);
-        const assessment = assessMarineConditions(data);
+        const resolved = await resolveLocation(input);
+
+        if (!resolved.ok) {
+          return {
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
+          };
+        }
+
+        const { latitude, longitude } = resolved.location;
+
+        const data = await fetchMarineConditionsData(latitude, longitude, units);
+        const assessment = assessMarineConditions(data, units);
         const report = formatMarineConditionsReport(latitude, longitude, data, assessment);
 
         return {
-          content: [{ type: "text" as const, text: report }],
+          content: [{ type: "text" as const, text: appendAlternatives(report, resolved.alternatives) }],
+          structuredContent: {
+            location: resolved.location,
+            alternatives: resolved.alternatives,
+            units,
+            assessment,
+            marine: { current: data.marine.current, current_units: data.marine.current_units },
+            weather: { current: data.weather.current, current_units: data.weather.current_units },
+          },
         };
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -350,12 +385,12 @@ export function registerMarineConditionsTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error fetching marine conditions for (${latitude}, ${longitude}): ${message}`,
+              text: `Error fetching marine conditions for "${describeLocationInput(input)}": ${message}`,
             },
           ],
           isError: true,
         };
       }
-    }
+    })
   );
 }
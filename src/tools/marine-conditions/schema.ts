@@ -0,0 +1,36 @@
+/**
+ * tools/marine-conditions/schema.ts — Output schema for the marine conditions tool.
+ */
+
+import { z } from "zod";
+import {
+  locationOutputSchema,
+  unitSystemSchema,
+  currentBlockSchema,
+  unitLabelsSchema,
+} from "../shared/output.js";
+
+/** Mirrors `ActivitySuitability`. */
+export const activitySuitabilitySchema = z.object({
+  activity: z.enum(["swimming", "surfing", "boating", "fishing", "diving"]),
+  rating: z.enum(["Excellent", "Good", "Fair", "Poor", "Dangerous"]),
+  notes: z.string(),
+});
+
+/** Mirrors `MarineAssessment`. */
+export const marineAssessmentSchema = z.object({
+  seaState: z.string(),
+  seaStateCode: z.number(),
+  overallSafety: z.enum(["Safe", "Caution", "Hazardous"]),
+  activities: z.array(activitySuitabilitySchema),
+  warnings: z.array(z.string()),
+});
+
+/** Structured output of get_marine_conditions. */
+export const marineConditionsOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  assessment: marineAssessmentSchema,
+  marine: z.object({ current: currentBlockSchema, current_units: unitLabelsSchema }),
+  weather: z.object({ current: currentBlockSchema, current_units: unitLabelsSchema }),
+};
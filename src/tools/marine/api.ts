@@ -1,40 +1,25 @@
 /**
- * tools/marine/api.ts — Open-Meteo Marine API functions.
+ * tools/marine/api.ts — Marine weather API functions.
  */
 
 import type { MarineResponse } from "./types.js";
 import { getSeaState, getCardinalDirection, getWaveConditions } from "./constants.js";
-import { cachedFetchJson } from "../shared/fetch.js";
+import { fetchFromProvider } from "../shared/providers/index.js";
+import { formatCoordinates } from "../shared/location-name.js";
+import { DEFAULT_UNITS, toMeters, type UnitSystem } from "../shared/units.js";
 
 /**
  * Fetch current marine weather for coordinates.
  */
 export async function fetchMarineWeather(
   latitude: number,
-  longitude: number
+  longitude: number,
+  units: UnitSystem = DEFAULT_UNITS
 ): Promise<MarineResponse> {
-  const params = new URLSearchParams({
-    latitude: latitude.toString(),
-    longitude: longitude.toString(),
-    current: [
-      "wave_height",
-      "wave_direction",
-      "wave_period",
-      "wind_wave_height",
-      "wind_wave_direction",
-      "wind_wave_period",
-      "swell_wave_height",
-      "swell_wave_direction",
-      "swell_wave_period",
-      "ocean_current_velocity",
-      "ocean_current_direction",
-    ].join(","),
-    length_unit: "imperial",
-    timezone: "auto",
-  });
-
-  const url = `https://marine-api.open-meteo.com/v1/marine?${params}`;
-  return cachedFetchJson<MarineResponse>(url);
+  const { data } = await fetchFromProvider("marine", latitude, longitude, (provider) =>
+    provider.getMarineWeather(latitude, longitude, units)
+  );
+  return data;
 }
 
 /**
@@ -43,16 +28,15 @@ export async function fetchMarineWeather(
 export function formatMarineReport(
   latitude: number,
   longitude: number,
-  data: MarineResponse
+  data: MarineResponse,
+  units: UnitSystem = DEFAULT_UNITS
 ): string {
   const { current, current_units } = data;
 
-  const latDirection = latitude >= 0 ? "N" : "S";
-  const lonDirection = longitude >= 0 ? "E" : "W";
-  const locationStr = `${Math.abs(latitude).toFixed(4)}°${latDirection}, ${Math.abs(longitude).toFixed(4)}°${lonDirection}`;
+  const locationStr = formatCoordinates(latitude, longitude);
 
-  // Convert feet to meters for sea state calculation (API returns feet with imperial setting)
-  const waveHeightMeters = current.wave_height * 0.3048;
+  // Sea state and wave conditions are defined in meters
+  const waveHeightMeters = toMeters(current.wave_height, units);
   const seaState = getSeaState(waveHeightMeters);
   const waveConditions = getWaveConditions(waveHeightMeters);
   const waveDir = getCardinalDirection(current.wave_direction);
@@ -4,40 +4,67 @@
  * Exports a function to register the marine weather tool on an MCP server.
  */
 
-import { z } from "zod";
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
 import { fetchMarineWeather, formatMarineReport } from "./api.js";
+import { DEFAULT_UNITS, unitsSchema } from "../shared/units.js";
+import { marineOutputSchema } from "./schema.js";
 
-// Re-export types and constants for consumers
+// Re-export types, schemas and constants for consumers
 export * from "./types.js";
+export * from "./schema.js";
 export * from "./constants.js";
 
 /**
  * Register the get_marine tool on an MCP server.
  */
-export function registerMarineTool(server: McpServer): void {
-  server.tool(
+export function registerMarineTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
     "get_marine",
-    "Get current marine weather conditions for ocean coordinates. Returns wave height/direction/period, swell data, and ocean currents. Requires coordinates since marine data is only available for ocean locations.",
     {
-      latitude: z
-        .number()
-        .min(-90)
-        .max(90)
-        .describe("Latitude of the ocean location (-90 to 90)"),
-      longitude: z
-        .number()
-        .min(-180)
-        .max(180)
-        .describe("Longitude of the ocean location (-180 to 180)"),
+      description:
+        "Get current marine weather conditions for ocean coordinates. Returns wave height/direction/period, swell data, and ocean currents. Coordinates are recommended since marine data is only available for ocean locations.",
+      inputSchema: {
+        ...locationSchema,
+        units: unitsSchema,
+      },
+      outputSchema: marineOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.marineRead),
     },
-    async ({ latitude, longitude }) => {
+    withFreshness(async ({ units = DEFAULT_UNITS, ...input }) => {
       try {
-        const marine = await fetchMarineWeather(latitude, longitude);
-        const report = formatMarineReport(latitude, longitude, marine);
+        const resolved = await resolveLocation(input);
+
+        if (!resolved.ok) {
+          return {
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
+          };
+        }
+
+        const { latitude, longitude } = resolved.location;
+
+        const marine = await fetchMarineWeather(latitude, longitude, units);
+        const report = formatMarineReport(latitude, longitude, marine, units);
 
         return {
-          content: [{ type: "text" as const, text: report }],
+          content: [{ type: "text" as const, text: appendAlternatives(report, resolved.alternatives) }],
+          structuredContent: {
+            location: resolved.location,
+            alternatives: resolved.alternatives,
+            units,
+            current: marine.current,
+            current_units: marine.current_units,
+            daily: marine.daily,
+            daily_units: marine.daily_units,
+          },
         };
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -45,12 +72,12 @@ export function registerMarineTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error fetching marine data for coordinates (${latitude}, ${longitude}): ${message}`,
+              text: `Error fetching marine data for "${describeLocationInput(input)}": ${message}`,
             },
           ],
           isError: true,
         };
       }
-    }
+    })
   );
 }
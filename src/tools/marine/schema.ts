@@ -0,0 +1,21 @@
+/**
+ * tools/marine/schema.ts — Output schema for the marine tool.
+ */
+
+import {
+  locationOutputSchema,
+  unitSystemSchema,
+  currentBlockSchema,
+  seriesBlockSchema,
+  unitLabelsSchema,
+} from "../shared/output.js";
+
+/** Structured output of get_marine. */
+export const marineOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  current: currentBlockSchema,
+  current_units: unitLabelsSchema,
+  daily: seriesBlockSchema.optional(),
+  daily_units: unitLabelsSchema.optional(),
+};
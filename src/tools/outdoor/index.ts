@@ -5,42 +5,43 @@
  * for outdoor activity recommendations.
  */
 
-import { z } from "zod";
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { geocodeCity, type GeoResult } from "../shared/geocoding.js";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
+import { formatLocationName } from "../shared/location-name.js";
+import type { GeoResult } from "../shared/geocoding.js";
 import { cachedFetchJson } from "../shared/fetch.js";
+import { fetchForecastData } from "../shared/forecast-data.js";
+import {
+  DEFAULT_UNITS,
+  unitsSchema,
+  toFahrenheit,
+  toMph,
+  toInches,
+  type UnitSystem,
+} from "../shared/units.js";
 import { WMO_CODES } from "../weather/constants.js";
 import type { OutdoorResponse, OutdoorAssessment, ActivityRecommendation } from "./types.js";
+import { outdoorOutputSchema } from "./schema.js";
 
-// Re-export types
+// Re-export types and schemas
 export * from "./types.js";
+export * from "./schema.js";
 
 /**
  * Fetch outdoor conditions data for coordinates.
  */
 async function fetchOutdoorData(
   latitude: number,
-  longitude: number
+  longitude: number,
+  units: UnitSystem
 ): Promise<OutdoorResponse> {
-  // Fetch weather and air quality in parallel
-  const weatherParams = new URLSearchParams({
-    latitude: latitude.toString(),
-    longitude: longitude.toString(),
-    current: [
-      "temperature_2m",
-      "apparent_temperature",
-      "relative_humidity_2m",
-      "wind_speed_10m",
-      "wind_gusts_10m",
-      "weather_code",
-      "precipitation",
-    ].join(","),
-    temperature_unit: "fahrenheit",
-    wind_speed_unit: "mph",
-    precipitation_unit: "inch",
-    timezone: "auto",
-  });
-
   const aqParams = new URLSearchParams({
     latitude: latitude.toString(),
     longitude: longitude.toString(),
@@ -59,8 +60,19 @@ async function fetchOutdoorData(
     timezone: "auto",
   });
 
+  // Fetch weather and air quality in parallel
   const [weather, airQuality] = await Promise.all([
-    cachedFetchJson<OutdoorResponse["weather"]>(`https://api.open-meteo.com/v1/forecast?${weatherParams}`),
+    fetchForecastData<OutdoorResponse["weather"]>(latitude, longitude, units, {
+      current: [
+        "temperature_2m",
+        "apparent_temperature",
+        "relative_humidity_2m",
+        "wind_speed_10m",
+        "wind_gusts_10m",
+        "weather_code",
+        "precipitation",
+      ],
+    }),
     cachedFetchJson<OutdoorResponse["airQuality"]>(`https://air-quality-api.open-meteo.com/v1/air-quality?${aqParams}`),
   ]);
 
@@ -74,12 +86,20 @@ async function fetchOutdoorData(
 
 /**
  * Assess outdoor conditions.
+ *
+ * Weather thresholds are defined in °F/mph/inches; values are normalised
+ * from the requested unit system before comparison.
  */
-function assessOutdoorConditions(data: OutdoorResponse): OutdoorAssessment {
+function assessOutdoorConditions(data: OutdoorResponse, units: UnitSystem): OutdoorAssessment {
   const { weather, airQuality } = data;
   const w = weather.current;
   const aq = airQuality.current;
 
+  const temperatureF = toFahrenheit(w.temperature_2m, units);
+  const precipitationIn = toInches(w.precipitation, units);
+  const windSpeedMph = toMph(w.wind_speed_10m, units);
+  const windGustsMph = toMph(w.wind_gusts_10m, units);
+
   const concerns: string[] = [];
   const recommendations: string[] = [];
   let score = 100;
@@ -88,22 +108,22 @@ function assessOutdoorConditions(data: OutdoorResponse): OutdoorAssessment {
   let weatherSuitability: ActivityRecommendation = "Excellent";
 
   // Temperature comfort (ideal: 60-80°F)
-  if (w.temperature_2m < 32) {
+  if (temperatureF < 32) {
     score -= 30;
     weatherSuitability = "Poor";
     concerns.push("Freezing temperatures");
     recommendations.push("Dress in warm layers");
-  } else if (w.temperature_2m < 50) {
+  } else if (temperatureF < 50) {
     score -= 15;
     if (weatherSuitability === "Excellent") weatherSuitability = "Good";
     concerns.push("Cold temperatures");
     recommendations.push("Wear warm clothing");
-  } else if (w.temperature_2m > 95) {
+  } else if (temperatureF > 95) {
     score -= 30;
     weatherSuitability = "Poor";
     concerns.push("Extreme heat");
     recommendations.push("Limit outdoor activity, stay hydrated");
-  } else if (w.temperature_2m > 85) {
+  } else if (temperatureF > 85) {
     score -= 15;
     if (weatherSuitability === "Excellent") weatherSuitability = "Fair";
     concerns.push("Hot temperatures");
@@ -111,7 +131,7 @@ function assessOutdoorConditions(data: OutdoorResponse): OutdoorAssessment {
   }
 
   // Precipitation
-  if (w.precipitation > 0.1 || w.weather_code >= 61) {
+  if (precipitationIn > 0.1 || w.weather_code >= 61) {
     score -= 20;
     weatherSuitability = "Poor";
     concerns.push("Active precipitation");
@@ -123,12 +143,12 @@ function assessOutdoorConditions(data: OutdoorResponse): OutdoorAssessment {
   }
 
   // Wind
-  if (w.wind_gusts_10m >= 40) {
+  if (windGustsMph >= 40) {
     score -= 20;
     weatherSuitability = "Poor";
     concerns.push("Dangerous wind gusts");
     recommendations.push("Avoid outdoor activities");
-  } else if (w.wind_speed_10m >= 20) {
+  } else if (windSpeedMph >= 20) {
     score -= 10;
     if (weatherSuitability === "Excellent") weatherSuitability = "Fair";
     concerns.push("Windy conditions");
@@ -254,9 +274,7 @@ function formatOutdoorReport(
   const wu = weather.current_units;
   const aq = airQuality.current;
 
-  const locationName = location.admin1
-    ? `${location.name}, ${location.admin1}, ${location.country}`
-    : `${location.name}, ${location.country}`;
+  const locationName = formatLocationName(location);
 
   const condition = WMO_CODES[w.weather_code] ?? "Unknown";
 
@@ -332,37 +350,46 @@ function formatOutdoorReport(
 /**
  * Register the get_outdoor_conditions tool on an MCP server.
  */
-export function registerOutdoorTool(server: McpServer): void {
-  server.tool(
+export function registerOutdoorTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
     "get_outdoor_conditions",
-    "Get comprehensive outdoor activity assessment for a city. Combines current weather, air quality (AQI), UV index, and pollen levels with suitability recommendations.",
     {
-      city: z
-        .string()
-        .min(1, "City name cannot be empty")
-        .describe("City name to get outdoor conditions for"),
+      description:
+        "Get comprehensive outdoor activity assessment for a city. Combines current weather, air quality (AQI), UV index, and pollen levels with suitability recommendations.",
+      inputSchema: {
+        ...locationSchema,
+        units: unitsSchema,
+      },
+      outputSchema: outdoorOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
     },
-    async ({ city }) => {
+    withFreshness(async ({ units = DEFAULT_UNITS, ...input }) => {
       try {
-        const location = await geocodeCity(city);
+        const resolved = await resolveLocation(input);
 
-        if (!location) {
+        if (!resolved.ok) {
           return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Could not find a location matching "${city}". Try a more specific city name.`,
-              },
-            ],
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
           };
         }
 
-        const data = await fetchOutdoorData(location.latitude, location.longitude);
-        const assessment = assessOutdoorConditions(data);
+        const { location, alternatives } = resolved;
+
+        const data = await fetchOutdoorData(location.latitude, location.longitude, units);
+        const assessment = assessOutdoorConditions(data, units);
         const report = formatOutdoorReport(location, data, assessment);
 
         return {
-          content: [{ type: "text" as const, text: report }],
+          content: [{ type: "text" as const, text: appendAlternatives(report, alternatives) }],
+          structuredContent: {
+            location,
+            alternatives,
+            units,
+            assessment,
+            weather: { current: data.weather.current, current_units: data.weather.current_units },
+            airQuality: { current: data.airQuality.current, current_units: data.airQuality.current_units },
+          },
         };
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -370,12 +397,12 @@ export function registerOutdoorTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error fetching outdoor conditions for "${city}": ${message}`,
+              text: `Error fetching outdoor conditions for "${describeLocationInput(input)}": ${message}`,
             },
           ],
           isError: true,
         };
       }
-    }
+    })
   );
 }
@@ -0,0 +1,33 @@
+/**
+ * tools/outdoor/schema.ts — Output schema for the outdoor conditions tool.
+ */
+
+import { z } from "zod";
+import {
+  locationOutputSchema,
+  unitSystemSchema,
+  currentBlockSchema,
+  unitLabelsSchema,
+} from "../shared/output.js";
+
+const recommendationSchema = z.enum(["Excellent", "Good", "Fair", "Poor", "Avoid"]);
+
+/** Mirrors `OutdoorAssessment`. */
+export const outdoorAssessmentSchema = z.object({
+  overall: recommendationSchema,
+  score: z.number(),
+  weatherSuitability: recommendationSchema,
+  airQualitySuitability: recommendationSchema,
+  uvSafety: recommendationSchema,
+  concerns: z.array(z.string()),
+  recommendations: z.array(z.string()),
+});
+
+/** Structured output of get_outdoor_conditions. */
+export const outdoorOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  assessment: outdoorAssessmentSchema,
+  weather: z.object({ current: currentBlockSchema, current_units: unitLabelsSchema }),
+  airQuality: z.object({ current: currentBlockSchema, current_units: unitLabelsSchema }),
+};
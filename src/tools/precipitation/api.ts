@@ -3,22 +3,23 @@
  */
 
 import type { GeoResult } from "../shared/geocoding.js";
+import { formatLocationName } from "../shared/location-name.js";
 import type { PrecipitationResponse } from "./types.js";
 import { getPrecipIntensity, getPrecipType, getProbabilityDescription } from "./constants.js";
 import { WMO_CODES } from "../weather/constants.js";
-import { cachedFetchJson } from "../shared/fetch.js";
+import { fetchForecastData } from "../shared/forecast-data.js";
+import { DEFAULT_UNITS, toInches, type UnitSystem } from "../shared/units.js";
 
 /**
  * Fetch precipitation data for coordinates.
  */
 export async function fetchPrecipitationData(
   latitude: number,
-  longitude: number
+  longitude: number,
+  units: UnitSystem = DEFAULT_UNITS
 ): Promise<PrecipitationResponse> {
-  const params = new URLSearchParams({
-    latitude: latitude.toString(),
-    longitude: longitude.toString(),
-    current: ["precipitation", "rain", "showers", "snowfall", "weather_code"].join(","),
+  return fetchForecastData<PrecipitationResponse>(latitude, longitude, units, {
+    current: ["precipitation", "rain", "showers", "snowfall", "weather_code"],
     hourly: [
       "precipitation",
       "precipitation_probability",
@@ -26,7 +27,7 @@ export async function fetchPrecipitationData(
       "showers",
       "snowfall",
       "weather_code",
-    ].join(","),
+    ],
     daily: [
       "precipitation_sum",
       "precipitation_hours",
@@ -34,15 +35,10 @@ export async function fetchPrecipitationData(
       "rain_sum",
       "showers_sum",
       "snowfall_sum",
-    ].join(","),
-    precipitation_unit: "inch",
-    timezone: "auto",
-    forecast_days: "7",
-    forecast_hours: "48",
+    ],
+    forecastDays: 7,
+    forecastHours: 48,
   });
-
-  const url = `https://api.open-meteo.com/v1/forecast?${params}`;
-  return cachedFetchJson<PrecipitationResponse>(url);
 }
 
 /**
@@ -50,17 +46,16 @@ export async function fetchPrecipitationData(
  */
 export function formatPrecipitationReport(
   location: GeoResult,
-  data: PrecipitationResponse
+  data: PrecipitationResponse,
+  units: UnitSystem = DEFAULT_UNITS
 ): string {
   const { current, current_units, hourly, hourly_units, daily, daily_units } = data;
-  const locationName = location.admin1
-    ? `${location.name}, ${location.admin1}, ${location.country}`
-    : `${location.name}, ${location.country}`;
+  const locationName = formatLocationName(location);
 
   const precipType = getPrecipType(current.weather_code);
   const condition = WMO_CODES[current.weather_code] ?? "Unknown";
   const totalCurrent = current.precipitation;
-  const intensity = getPrecipIntensity(totalCurrent);
+  const intensity = getPrecipIntensity(toInches(totalCurrent, units));
 
   const lines = [
     `Precipitation for ${locationName}`,
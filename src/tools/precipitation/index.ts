@@ -4,48 +4,70 @@
  * Exports a function to register the precipitation tool on an MCP server.
  */
 
-import { z } from "zod";
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { geocodeCity } from "../shared/geocoding.js";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
 import { fetchPrecipitationData, formatPrecipitationReport } from "./api.js";
+import { DEFAULT_UNITS, unitsSchema } from "../shared/units.js";
+import { precipitationOutputSchema } from "./schema.js";
 
-// Re-export types and constants for consumers
+// Re-export types, schemas and constants for consumers
 export * from "./types.js";
+export * from "./schema.js";
 export * from "./constants.js";
 
 /**
  * Register the get_precipitation tool on an MCP server.
  */
-export function registerPrecipitationTool(server: McpServer): void {
-  server.tool(
+export function registerPrecipitationTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
     "get_precipitation",
-    "Get precipitation data for a city. Returns current precipitation (rain, snow, showers), hourly probabilities, and 7-day forecast with totals.",
     {
-      city: z
-        .string()
-        .min(1, "City name cannot be empty")
-        .describe("City name to get precipitation data for (e.g., 'Seattle', 'London')"),
+      description:
+        "Get precipitation data for a city. Returns current precipitation (rain, snow, showers), hourly probabilities, and 7-day forecast with totals.",
+      inputSchema: {
+        ...locationSchema,
+        units: unitsSchema,
+      },
+      outputSchema: precipitationOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
     },
-    async ({ city }) => {
+    withFreshness(async ({ units = DEFAULT_UNITS, ...input }) => {
       try {
-        const location = await geocodeCity(city);
+        const resolved = await resolveLocation(input);
 
-        if (!location) {
+        if (!resolved.ok) {
           return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Could not find a location matching "${city}". Try a more specific city name.`,
-              },
-            ],
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
           };
         }
 
-        const precipData = await fetchPrecipitationData(location.latitude, location.longitude);
-        const report = formatPrecipitationReport(location, precipData);
+        const { location, alternatives } = resolved;
+
+        const precipData = await fetchPrecipitationData(location.latitude, location.longitude, units);
+        const report = formatPrecipitationReport(location, precipData, units);
 
         return {
-          content: [{ type: "text" as const, text: report }],
+          content: [{ type: "text" as const, text: appendAlternatives(report, alternatives) }],
+          structuredContent: {
+            location,
+            alternatives,
+            units,
+            timezone: precipData.timezone,
+            current: precipData.current,
+            current_units: precipData.current_units,
+            hourly: precipData.hourly,
+            hourly_units: precipData.hourly_units,
+            daily: precipData.daily,
+            daily_units: precipData.daily_units,
+          },
         };
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -53,12 +75,12 @@ export function registerPrecipitationTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error fetching precipitation data for "${city}": ${message}`,
+              text: `Error fetching precipitation data for "${describeLocationInput(input)}": ${message}`,
             },
           ],
           isError: true,
         };
       }
-    }
+    })
   );
 }
@@ -0,0 +1,25 @@
+/**
+ * tools/precipitation/schema.ts — Output schema for the precipitation tool.
+ */
+
+import { z } from "zod";
+import {
+  locationOutputSchema,
+  unitSystemSchema,
+  currentBlockSchema,
+  seriesBlockSchema,
+  unitLabelsSchema,
+} from "../shared/output.js";
+
+/** Structured output of get_precipitation. */
+export const precipitationOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  timezone: z.string(),
+  current: currentBlockSchema,
+  current_units: unitLabelsSchema,
+  hourly: seriesBlockSchema,
+  hourly_units: unitLabelsSchema,
+  daily: seriesBlockSchema,
+  daily_units: unitLabelsSchema,
+};
@@ -2,7 +2,8 @@
  * tools/severe-weather/constants.ts — Alert thresholds.
  *
  * Thresholds modelled after US National Weather Service criteria
- * for watches, warnings, and advisories.
+ * for watches, warnings, and advisories. All values are imperial;
+ * metric data is normalised before comparison (see shared/units.ts).
  */
 
 // ─── Heat ────────────────────────────────────────────────────────────────────
@@ -6,11 +6,30 @@
  * alert report.
  */
 
-import { z } from "zod";
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { geocodeCity, type GeoResult } from "../shared/geocoding.js";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
+import { formatLocationName } from "../shared/location-name.js";
+import type { GeoResult } from "../shared/geocoding.js";
 import { cachedFetchJson } from "../shared/fetch.js";
+import { fetchForecastData } from "../shared/forecast-data.js";
 import { TTL_FORECAST } from "../shared/cache/index.js";
+import {
+  DEFAULT_UNITS,
+  unitsSchema,
+  getUnitLabels,
+  toFahrenheit,
+  toMph,
+  toInches,
+  snowToInches,
+  type UnitSystem,
+} from "../shared/units.js";
 import type {
   Alert,
   AlertCategory,
@@ -38,9 +57,11 @@ import {
   UV_WARNING,
   SEVERITY_RANK,
 } from "./constants.js";
+import { severeWeatherOutputSchema } from "./schema.js";
 
-// Re-export types and constants
+// Re-export types, schemas and constants
 export * from "./types.js";
+export * from "./schema.js";
 export * from "./constants.js";
 
 // ─── All alert categories for the "all clear" section ────────────────────────
@@ -60,37 +81,8 @@ const ALL_CATEGORIES: AlertCategory[] = [
 async function fetchSevereWeatherData(
   latitude: number,
   longitude: number,
+  units: UnitSystem,
 ): Promise<{ forecast: SevereWeatherForecastResponse; aq: SevereWeatherAQResponse }> {
-  const forecastParams = new URLSearchParams({
-    latitude: latitude.toString(),
-    longitude: longitude.toString(),
-    current: [
-      "temperature_2m",
-      "apparent_temperature",
-      "wind_speed_10m",
-      "wind_gusts_10m",
-      "weather_code",
-      "precipitation",
-      "snowfall",
-    ].join(","),
-    daily: [
-      "temperature_2m_max",
-      "temperature_2m_min",
-      "apparent_temperature_max",
-      "apparent_temperature_min",
-      "precipitation_sum",
-      "snowfall_sum",
-      "wind_speed_10m_max",
-      "wind_gusts_10m_max",
-      "weather_code",
-    ].join(","),
-    temperature_unit: "fahrenheit",
-    wind_speed_unit: "mph",
-    precipitation_unit: "inch",
-    timezone: "auto",
-    forecast_days: "7",
-  });
-
   const aqParams = new URLSearchParams({
     latitude: latitude.toString(),
     longitude: longitude.toString(),
@@ -99,8 +91,33 @@ async function fetchSevereWeatherData(
   });
 
   const [forecast, aq] = await Promise.all([
-    cachedFetchJson<SevereWeatherForecastResponse>(
-      `https://api.open-meteo.com/v1/forecast?${forecastParams}`,
+    fetchForecastData<SevereWeatherForecastResponse>(
+      latitude,
+      longitude,
+      units,
+      {
+        current: [
+          "temperature_2m",
+          "apparent_temperature",
+          "wind_speed_10m",
+          "wind_gusts_10m",
+          "weather_code",
+          "precipitation",
+          "snowfall",
+        ],
+        daily: [
+          "temperature_2m_max",
+          "temperature_2m_min",
+          "apparent_temperature_max",
+          "apparent_temperature_min",
+          "precipitation_sum",
+          "snowfall_sum",
+          "wind_speed_10m_max",
+          "wind_gusts_10m_max",
+          "weather_code",
+        ],
+        forecastDays: 7,
+      },
       { ttlMs: TTL_FORECAST },
     ),
     cachedFetchJson<SevereWeatherAQResponse>(
@@ -119,51 +136,69 @@ function formatDay(dateStr: string): string {
   });
 }
 
+/**
+ * Format a rain/snow depth for a headline (inches keep the `"` shorthand).
+ */
+function formatDepth(value: number, unit: string): string {
+  return unit === "in" ? `${value.toFixed(1)}"` : `${value.toFixed(1)} ${unit}`;
+}
+
+/**
+ * Evaluate forecast and air quality data against alert thresholds.
+ *
+ * Thresholds in constants.ts are in °F/mph/inches. Values arrive in the
+ * requested unit system and are normalised before every comparison, while
+ * headlines keep the requested units.
+ */
 function evaluateAlerts(
   forecast: SevereWeatherForecastResponse,
   aq: SevereWeatherAQResponse,
+  units: UnitSystem,
 ): Alert[] {
   const alerts: Alert[] = [];
   const { current, daily } = forecast;
+  const labels = getUnitLabels(units);
+  const tempF = (value: number) => toFahrenheit(value, units);
+  const mph = (value: number) => toMph(value, units);
 
   // ── Heat ─────────────────────────────────────────────────────────────────
 
   // Current
-  if (current.apparent_temperature >= HEAT_WARNING) {
+  if (tempF(current.apparent_temperature) >= HEAT_WARNING) {
     alerts.push({
       category: "Heat",
       severity: "Warning",
-      headline: `Feels like ${current.apparent_temperature}°F`,
+      headline: `Feels like ${current.apparent_temperature}${labels.temperature}`,
       timeframe: "Now",
       recommendation: "Limit outdoor activity, stay hydrated, check on vulnerable people",
     });
-  } else if (current.apparent_temperature >= HEAT_ADVISORY) {
+  } else if (tempF(current.apparent_temperature) >= HEAT_ADVISORY) {
     alerts.push({
       category: "Heat",
       severity: "Advisory",
-      headline: `Feels like ${current.apparent_temperature}°F`,
+      headline: `Feels like ${current.apparent_temperature}${labels.temperature}`,
       timeframe: "Now",
       recommendation: "Stay hydrated, take frequent breaks in shade",
     });
   }
 
   // Forecast (skip today = index 0 if current already handled)
-  for (let i = current.apparent_temperature >= HEAT_ADVISORY ? 1 : 0; i < daily.time.length; i++) {
+  for (let i = tempF(current.apparent_temperature) >= HEAT_ADVISORY ? 1 : 0; i < daily.time.length; i++) {
     const feelsMax = daily.apparent_temperature_max[i];
-    if (feelsMax >= HEAT_WARNING) {
+    if (tempF(feelsMax) >= HEAT_WARNING) {
       alerts.push({
         category: "Heat",
         severity: "Watch",
-        headline: `Feels like ${feelsMax}°F expected`,
+        headline: `Feels like ${feelsMax}${labels.temperature} expected`,
         timeframe: formatDay(daily.time[i]),
         recommendation: "Prepare for extreme heat, plan to limit outdoor exposure",
       });
       break; // one forecast alert per category is enough
-    } else if (feelsMax >= HEAT_ADVISORY) {
+    } else if (tempF(feelsMax) >= HEAT_ADVISORY) {
       alerts.push({
         category: "Heat",
         severity: "Watch",
-        headline: `Feels like ${feelsMax}°F expected`,
+        headline: `Feels like ${feelsMax}${labels.temperature} expected`,
         timeframe: formatDay(daily.time[i]),
         recommendation: "Plan to stay hydrated and take breaks",
       });
@@ -173,41 +208,41 @@ function evaluateAlerts(
 
   // ── Cold / Freeze ────────────────────────────────────────────────────────
 
-  if (current.apparent_temperature <= COLD_WARNING) {
+  if (tempF(current.apparent_temperature) <= COLD_WARNING) {
     alerts.push({
       category: "Cold",
       severity: "Warning",
-      headline: `Wind chill ${current.apparent_temperature}°F`,
+      headline: `Wind chill ${current.apparent_temperature}${labels.temperature}`,
       timeframe: "Now",
       recommendation: "Limit time outdoors, cover exposed skin, risk of frostbite",
     });
-  } else if (current.temperature_2m <= FREEZE_ADVISORY) {
+  } else if (tempF(current.temperature_2m) <= FREEZE_ADVISORY) {
     alerts.push({
       category: "Cold",
       severity: "Advisory",
-      headline: `Temperature ${current.temperature_2m}°F`,
+      headline: `Temperature ${current.temperature_2m}${labels.temperature}`,
       timeframe: "Now",
       recommendation: "Protect pipes and plants, dress in warm layers",
     });
   }
 
-  for (let i = current.temperature_2m <= FREEZE_ADVISORY ? 1 : 0; i < daily.time.length; i++) {
+  for (let i = tempF(current.temperature_2m) <= FREEZE_ADVISORY ? 1 : 0; i < daily.time.length; i++) {
     const minTemp = daily.temperature_2m_min[i];
     const feelsMin = daily.apparent_temperature_min[i];
-    if (feelsMin <= COLD_WARNING) {
+    if (tempF(feelsMin) <= COLD_WARNING) {
       alerts.push({
         category: "Cold",
         severity: "Watch",
-        headline: `Wind chill ${feelsMin}°F expected`,
+        headline: `Wind chill ${feelsMin}${labels.temperature} expected`,
         timeframe: formatDay(daily.time[i]),
         recommendation: "Prepare for dangerous cold, protect pipes and pets",
       });
       break;
-    } else if (minTemp <= FREEZE_ADVISORY) {
+    } else if (tempF(minTemp) <= FREEZE_ADVISORY) {
       alerts.push({
         category: "Cold",
         severity: "Watch",
-        headline: `Low of ${minTemp}°F expected`,
+        headline: `Low of ${minTemp}${labels.temperature} expected`,
         timeframe: formatDay(daily.time[i]),
         recommendation: "Protect sensitive plants and outdoor pipes",
       });
@@ -217,42 +252,42 @@ function evaluateAlerts(
 
   // ── Wind ─────────────────────────────────────────────────────────────────
 
-  if (current.wind_speed_10m >= WIND_WARNING_SUSTAINED || current.wind_gusts_10m >= WIND_WARNING_GUSTS) {
+  if (mph(current.wind_speed_10m) >= WIND_WARNING_SUSTAINED || mph(current.wind_gusts_10m) >= WIND_WARNING_GUSTS) {
     alerts.push({
       category: "Wind",
       severity: "Warning",
-      headline: `Winds ${current.wind_speed_10m} mph, gusts ${current.wind_gusts_10m} mph`,
+      headline: `Winds ${current.wind_speed_10m} ${labels.windSpeed}, gusts ${current.wind_gusts_10m} ${labels.windSpeed}`,
       timeframe: "Now",
       recommendation: "Secure loose objects, avoid driving high-profile vehicles",
     });
-  } else if (current.wind_speed_10m >= WIND_ADVISORY_SUSTAINED || current.wind_gusts_10m >= WIND_ADVISORY_GUSTS) {
+  } else if (mph(current.wind_speed_10m) >= WIND_ADVISORY_SUSTAINED || mph(current.wind_gusts_10m) >= WIND_ADVISORY_GUSTS) {
     alerts.push({
       category: "Wind",
       severity: "Advisory",
-      headline: `Winds ${current.wind_speed_10m} mph, gusts ${current.wind_gusts_10m} mph`,
+      headline: `Winds ${current.wind_speed_10m} ${labels.windSpeed}, gusts ${current.wind_gusts_10m} ${labels.windSpeed}`,
       timeframe: "Now",
       recommendation: "Use caution outdoors, secure lightweight items",
     });
   }
 
-  const currentWindAlert = current.wind_speed_10m >= WIND_ADVISORY_SUSTAINED || current.wind_gusts_10m >= WIND_ADVISORY_GUSTS;
+  const currentWindAlert = mph(current.wind_speed_10m) >= WIND_ADVISORY_SUSTAINED || mph(current.wind_gusts_10m) >= WIND_ADVISORY_GUSTS;
   for (let i = currentWindAlert ? 1 : 0; i < daily.time.length; i++) {
     const maxWind = daily.wind_speed_10m_max[i];
     const maxGusts = daily.wind_gusts_10m_max[i];
-    if (maxWind >= WIND_WARNING_SUSTAINED || maxGusts >= WIND_WARNING_GUSTS) {
+    if (mph(maxWind) >= WIND_WARNING_SUSTAINED || mph(maxGusts) >= WIND_WARNING_GUSTS) {
       alerts.push({
         category: "Wind",
         severity: "Watch",
-        headline: `Winds to ${maxWind} mph, gusts to ${maxGusts} mph expected`,
+        headline: `Winds to ${maxWind} ${labels.windSpeed}, gusts to ${maxGusts} ${labels.windSpeed} expected`,
         timeframe: formatDay(daily.time[i]),
         recommendation: "Secure outdoor furniture and plan accordingly",
       });
       break;
-    } else if (maxWind >= WIND_ADVISORY_SUSTAINED || maxGusts >= WIND_ADVISORY_GUSTS) {
+    } else if (mph(maxWind) >= WIND_ADVISORY_SUSTAINED || mph(maxGusts) >= WIND_ADVISORY_GUSTS) {
       alerts.push({
         category: "Wind",
         severity: "Watch",
-        headline: `Winds to ${maxWind} mph, gusts to ${maxGusts} mph expected`,
+        headline: `Winds to ${maxWind} ${labels.windSpeed}, gusts to ${maxGusts} ${labels.windSpeed} expected`,
         timeframe: formatDay(daily.time[i]),
         recommendation: "Be prepared for gusty conditions",
       });
@@ -274,39 +309,39 @@ function evaluateAlerts(
     let candidate: Alert | null = null;
     let candidateRank: number;
 
-    if (rain >= RAIN_WARNING) {
+    if (toInches(rain, units) >= RAIN_WARNING) {
       candidateRank = 0; // Warning
       candidate = {
         category: "Precipitation",
         severity: i === 0 ? "Warning" : "Watch",
-        headline: `${rain.toFixed(1)}" of rain expected`,
+        headline: `${formatDepth(rain, labels.precipitation)} of rain expected`,
         timeframe,
         recommendation: "Flash flooding possible, avoid low-lying areas",
       };
-    } else if (snow >= SNOW_WARNING) {
+    } else if (snowToInches(snow, units) >= SNOW_WARNING) {
       candidateRank = 0;
       candidate = {
         category: "Precipitation",
         severity: i === 0 ? "Warning" : "Watch",
-        headline: `${snow.toFixed(1)}" of snow expected`,
+        headline: `${formatDepth(snow, labels.snowfall)} of snow expected`,
         timeframe,
         recommendation: "Hazardous travel expected, stock supplies",
       };
-    } else if (rain >= RAIN_ADVISORY) {
+    } else if (toInches(rain, units) >= RAIN_ADVISORY) {
       candidateRank = 2; // Advisory
       candidate = {
         category: "Precipitation",
         severity: i === 0 ? "Advisory" : "Watch",
-        headline: `${rain.toFixed(1)}" of rain expected`,
+        headline: `${formatDepth(rain, labels.precipitation)} of rain expected`,
         timeframe,
         recommendation: "Localized flooding possible, plan travel carefully",
       };
-    } else if (snow >= SNOW_ADVISORY) {
+    } else if (snowToInches(snow, units) >= SNOW_ADVISORY) {
       candidateRank = 2;
       candidate = {
         category: "Precipitation",
         severity: i === 0 ? "Advisory" : "Watch",
-        headline: `${snow.toFixed(1)}" of snow expected`,
+        headline: `${formatDepth(snow, labels.snowfall)} of snow expected`,
         timeframe,
         recommendation: "Slippery roads possible, allow extra travel time",
       };
@@ -401,9 +436,7 @@ function formatSevereWeatherReport(
   location: GeoResult,
   alerts: Alert[],
 ): string {
-  const locationName = location.admin1
-    ? `${location.name}, ${location.admin1}, ${location.country}`
-    : `${location.name}, ${location.country}`;
+  const locationName = formatLocationName(location);
 
   const lines = [`Severe Weather Summary for ${locationName}`, ""];
 
@@ -455,40 +488,48 @@ function formatSevereWeatherReport(
 /**
  * Register the get_severe_weather tool on an MCP server.
  */
-export function registerSevereWeatherTool(server: McpServer): void {
-  server.tool(
+export function registerSevereWeatherTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
     "get_severe_weather",
-    "Get severe weather summary for a city. Scans current conditions and 7-day forecast for heat, cold, wind, precipitation, thunderstorm, air quality, and UV hazards. Returns prioritised alerts with recommendations.",
     {
-      city: z
-        .string()
-        .min(1, "City name cannot be empty")
-        .describe("City or location name to check for severe weather"),
+      description:
+        "Get severe weather summary for a city. Scans current conditions and 7-day forecast for heat, cold, wind, precipitation, thunderstorm, air quality, and UV hazards. Returns prioritised alerts with recommendations.",
+      inputSchema: {
+        ...locationSchema,
+        units: unitsSchema,
+      },
+      outputSchema: severeWeatherOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
     },
-    async ({ city }) => {
+    withFreshness(async ({ units = DEFAULT_UNITS, ...input }) => {
       try {
-        const location = await geocodeCity(city);
+        const resolved = await resolveLocation(input);
 
-        if (!location) {
+        if (!resolved.ok) {
           return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Could not find a location matching "${city}". Try a more specific location name.`,
-              },
-            ],
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
           };
         }
 
+        const { location, alternatives } = resolved;
+
         const { forecast, aq } = await fetchSevereWeatherData(
           location.latitude,
           location.longitude,
+          units,
         );
-        const alerts = evaluateAlerts(forecast, aq);
+        const alerts = evaluateAlerts(forecast, aq, units);
         const report = formatSevereWeatherReport(location, alerts);
 
         return {
-          content: [{ type: "text" as const, text: report }],
+          content: [{ type: "text" as const, text: appendAlternatives(report, alternatives) }],
+          structuredContent: {
+            location,
+            alternatives,
+            units,
+            alerts,
+          },
         };
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -496,12 +537,12 @@ export function registerSevereWeatherTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error fetching severe weather for "${city}": ${message}`,
+              text: `Error fetching severe weather for "${describeLocationInput(input)}": ${message}`,
             },
           ],
           isError: true,
         };
       }
-    },
+    }),
   );
 }
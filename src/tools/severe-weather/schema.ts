@@ -0,0 +1,22 @@
+/**
+ * tools/severe-weather/schema.ts — Output schema for the severe weather tool.
+ */
+
+import { z } from "zod";
+import { locationOutputSchema, unitSystemSchema } from "../shared/output.js";
+
+/** Mirrors `Alert`. */
+export const alertSchema = z.object({
+  category: z.enum(["Heat", "Cold", "Wind", "Precipitation", "Thunderstorm", "Air Quality", "UV"]),
+  severity: z.enum(["Warning", "Watch", "Advisory"]),
+  headline: z.string(),
+  timeframe: z.string(),
+  recommendation: z.string(),
+});
+
+/** Structured output of get_severe_weather. Alerts are ordered warnings first. */
+export const severeWeatherOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  alerts: z.array(alertSchema),
+};
@@ -0,0 +1,88 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { InMemoryCache, TTL_REALTIME, TTL_STATIC } from "../cache/index.js";
+import { writeCacheSnapshot, readCacheSnapshot } from "../cache/snapshot.js";
+
+const MINUTE = 60 * 1000;
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("cache snapshots", () => {
+  let dir: string;
+  let path: string;
+  let source: InMemoryCache;
+  let target: InMemoryCache;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    dir = await mkdtemp(join(tmpdir(), "cache-snapshot-"));
+    path = join(dir, "snapshot.json");
+    source = new InMemoryCache();
+    target = new InMemoryCache();
+  });
+
+  afterEach(async () => {
+    source.dispose();
+    target.dispose();
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("restores unexpired entries with their original expiry", async () => {
+    await source.set("geocode:denver", { latitude: 39.74 }, { ttlMs: TTL_STATIC });
+    await source.set("weather:denver", { temp: 20 }, { ttlMs: TTL_REALTIME });
+    vi.advanceTimersByTime(TTL_REALTIME + MINUTE);
+
+    expect(await writeCacheSnapshot(source, path)).toBe(1);
+    vi.advanceTimersByTime(10 * MINUTE);
+
+    expect(await readCacheSnapshot(target, path)).toBe(1);
+    expect(await target.get("geocode:denver")).toEqual({ latitude: 39.74 });
+    expect(await target.has("weather:denver")).toBe(false);
+
+    const entry = await target.getEntry("geocode:denver");
+    const original = await source.getEntry("geocode:denver");
+    expect(entry?.expiresAt).toBe(original?.expiresAt);
+  });
+
+  it("skips entries that expired while the process was down", async () => {
+    await source.set("weather:denver", { temp: 20 }, { ttlMs: TTL_REALTIME });
+    await writeCacheSnapshot(source, path);
+    vi.advanceTimersByTime(TTL_REALTIME + MINUTE);
+
+    expect(await readCacheSnapshot(target, path)).toBe(0);
+  });
+
+  it("writes through a temporary file and leaves only the snapshot", async () => {
+    await source.set("geocode:denver", { latitude: 39.74 }, { ttlMs: TTL_STATIC });
+    await writeFile(path, "previous snapshot");
+
+    await writeCacheSnapshot(source, path);
+
+    expect(await readdir(dir)).toEqual(["snapshot.json"]);
+    expect(JSON.parse(await readFile(path, "utf8"))).toMatchObject({ version: 1, entries: [{ key: "geocode:denver" }] });
+  });
+
+  it("restores nothing when there is no snapshot yet", async () => {
+    expect(await readCacheSnapshot(target, path)).toBe(0);
+  });
+
+  it("moves a corrupt snapshot aside instead of loading it", async () => {
+    await source.set("geocode:denver", { latitude: 39.74 }, { ttlMs: TTL_STATIC });
+    await writeCacheSnapshot(source, path);
+    const body = await readFile(path, "utf8");
+    await writeFile(path, body.slice(0, body.length / 2));
+
+    expect(await readCacheSnapshot(target, path)).toBe(0);
+    expect(await target.size()).toBe(0);
+    expect(await readdir(dir)).toEqual(["snapshot.json.corrupt"]);
+  });
+
+  it("rejects a snapshot with the wrong shape", async () => {
+    await writeFile(path, JSON.stringify({ version: 2, entries: "nope" }));
+
+    expect(await readCacheSnapshot(target, path)).toBe(0);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { InMemoryCache, cacheKeyPrefix, getCache, resetCache } from "../cache/index.js";
+import { metricsRegistry } from "../../../shared/index.js";
+
+const FORECAST_URL = "https://api.open-meteo.com/v1/forecast";
+const GEOCODING_URL = "https://geocoding-api.open-meteo.com/v1/search";
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("cacheKeyPrefix", () => {
+  it("groups URL keys by host and path, ignoring the query", () => {
+    expect(cacheKeyPrefix(`${FORECAST_URL}?latitude=1&longitude=2`)).toBe("api.open-meteo.com/v1/forecast");
+  });
+
+  it("groups other keys by the text before the first colon", () => {
+    expect(cacheKeyPrefix("session:abc")).toBe("session");
+    expect(cacheKeyPrefix("plain")).toBe("plain");
+  });
+});
+
+describe("InMemoryCache", () => {
+  let cache: InMemoryCache;
+
+  afterEach(() => {
+    cache.dispose();
+    vi.useRealTimers();
+  });
+
+  it("evicts the least recently used entry past the entry budget", async () => {
+    cache = new InMemoryCache({ maxEntries: 2 });
+    await cache.set("a", 1);
+    await cache.set("b", 2);
+    await cache.get("a"); // "b" is now least recently used
+    await cache.set("c", 3);
+
+    expect(await cache.has("a")).toBe(true);
+    expect(await cache.has("b")).toBe(false);
+    expect(await cache.has("c")).toBe(true);
+  });
+
+  it("evicts until the byte budget is met", async () => {
+    cache = new InMemoryCache({ maxBytes: 250 });
+    await cache.set("a", "x".repeat(100));
+    await cache.set("b", "x".repeat(100));
+    await cache.set("c", "x".repeat(100));
+
+    const stats = await cache.stats();
+    expect(stats.entries).toBe(2);
+    expect(stats.bytes).toBeLessThanOrEqual(250);
+    expect(await cache.has("a")).toBe(false);
+  });
+
+  it("skips values larger than the whole byte budget", async () => {
+    cache = new InMemoryCache({ maxBytes: 50 });
+    await cache.set("small", 1);
+    await cache.set("huge", "x".repeat(100));
+
+    expect(await cache.has("huge")).toBe(false);
+    expect(await cache.has("small")).toBe(true);
+  });
+
+  it("keeps the byte count in step when entries are replaced or deleted", async () => {
+    cache = new InMemoryCache();
+    await cache.set("a", "x".repeat(100));
+    await cache.set("a", "x");
+    await cache.set("b", "x");
+    await cache.delete("b");
+
+    expect((await cache.stats()).bytes).toBe(Buffer.byteLength('a"x"'));
+  });
+
+  it("counts hits, misses and evictions per prefix", async () => {
+    vi.useFakeTimers();
+    cache = new InMemoryCache({ maxEntries: 1 });
+    await cache.set(`${FORECAST_URL}?latitude=1`, { temp: 70 }, { ttlMs: 1_000 });
+    await cache.get(`${FORECAST_URL}?latitude=1`);
+    await cache.get(`${FORECAST_URL}?latitude=2`);
+    await cache.set(`${GEOCODING_URL}?name=Paris`, []);
+    await cache.get(`${GEOCODING_URL}?name=Paris`);
+
+    vi.advanceTimersByTime(1_001);
+    await cache.get(`${FORECAST_URL}?latitude=1`);
+
+    const stats = await cache.stats();
+    expect(stats.prefixes["api.open-meteo.com/v1/forecast"]).toEqual({
+      hits: 1,
+      misses: 2,
+      evictions: 1,
+      staleServes: 0,
+    });
+    expect(stats.prefixes["geocoding-api.open-meteo.com/v1/search"]).toMatchObject({ hits: 1, misses: 0 });
+    expect(stats.totals).toMatchObject({ hits: 2, misses: 2, evictions: 1 });
+    expect(stats).toMatchObject({ backend: "memory", entries: 1, maxEntries: 1 });
+  });
+
+  it("keeps expired entries for their stale window, served only via getEntry", async () => {
+    vi.useFakeTimers();
+    cache = new InMemoryCache();
+    await cache.set("a", 1, { ttlMs: 1_000, staleTtlMs: 5_000 });
+    vi.advanceTimersByTime(2_000);
+
+    expect(await cache.get("a")).toBeUndefined();
+    expect(await cache.has("a")).toBe(false);
+    expect(await cache.getEntry("a")).toBeUndefined();
+    expect(await cache.getEntry("a", { maxStaleMs: 5_000 })).toMatchObject({ value: 1 });
+    expect((await cache.stats()).totals.staleServes).toBe(1);
+
+    vi.advanceTimersByTime(5_000);
+    expect(await cache.getEntry("a", { maxStaleMs: 10_000 })).toBeUndefined();
+    expect(await cache.size()).toBe(0);
+  });
+
+  it("lists and deletes keys by prefix", async () => {
+    cache = new InMemoryCache();
+    await cache.set(`${FORECAST_URL}?latitude=1`, 1);
+    await cache.set(`${FORECAST_URL}?latitude=2`, 2);
+    await cache.set(`${GEOCODING_URL}?name=Denver`, 3);
+
+    expect(await cache.keys(FORECAST_URL)).toEqual([`${FORECAST_URL}?latitude=1`, `${FORECAST_URL}?latitude=2`]);
+    expect(await cache.deletePrefix(FORECAST_URL)).toBe(2);
+    expect(await cache.keys()).toEqual([`${GEOCODING_URL}?name=Denver`]);
+  });
+
+  it("peeks at expired entries without counting a lookup", async () => {
+    vi.useFakeTimers();
+    cache = new InMemoryCache();
+    await cache.set("a", 1, { ttlMs: 1_000, staleTtlMs: 1_000 });
+    vi.advanceTimersByTime(1_500);
+
+    expect(await cache.peek("a")).toMatchObject({ value: 1, expiresAt: Date.now() - 500 });
+    expect((await cache.stats()).totals).toMatchObject({ hits: 0, misses: 0, staleServes: 0 });
+  });
+
+  it("does not count expiry as eviction", async () => {
+    vi.useFakeTimers();
+    cache = new InMemoryCache();
+    await cache.set("a", 1, { ttlMs: 1_000 });
+    vi.advanceTimersByTime(1_001);
+
+    const stats = await cache.stats();
+    expect(stats.entries).toBe(0);
+    expect(stats.totals.evictions).toBe(0);
+  });
+
+  it("lists prewarmed keys until a regular write or delete replaces them", async () => {
+    cache = new InMemoryCache();
+    await cache.set("a", 1, { prewarmed: true });
+    await cache.set("b", 2, { prewarmed: true });
+    await cache.set("c", 3);
+    expect((await cache.stats()).prewarmed).toEqual(["a", "b"]);
+
+    await cache.set("a", 4);
+    await cache.delete("b");
+    expect((await cache.stats()).prewarmed).toEqual([]);
+  });
+});
+
+describe("cache metrics", () => {
+  afterEach(() => {
+    resetCache();
+    vi.restoreAllMocks();
+  });
+
+  it("reports the hit ratio from counters and recounts entries at most every 30 s", async () => {
+    resetCache();
+    const cache = getCache();
+    await cache.set("a", 1);
+    await cache.get("a");
+    await cache.get("b");
+    const size = vi.spyOn(cache, "size");
+    const stats = vi.spyOn(cache, "stats");
+
+    const metrics = () => metricsRegistry.getMetricsAsJSON();
+    const value = async (name: string) => (await metrics()).find((m) => m.name === name)?.values[0].value;
+
+    expect(await value("cache_hit_ratio")).toBe(0.5);
+    expect(await value("cache_entries")).toBe(1);
+    expect(await value("cache_entries")).toBe(1);
+    expect(size).toHaveBeenCalledTimes(1);
+    expect(stats).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { CircuitBreaker, getCircuitStates, resetCircuitBreakers, UPSTREAM_HOSTS } from "../circuit-breaker.js";
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("CircuitBreaker", () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    breaker = new CircuitBreaker("api.open-meteo.com", { failureThreshold: 3, resetTimeoutMs: 30_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("opens after consecutive failures and fails fast", () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state).toBe("closed");
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.status()).toMatchObject({ state: "open", failures: 3, retryAt: expect.any(String) });
+  });
+
+  it("resets the failure count on success", () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("admits a single trial request once the reset timeout passes", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    vi.advanceTimersByTime(30_000);
+
+    expect(breaker.state).toBe("half-open");
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("re-opens when the trial request fails", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    vi.advanceTimersByTime(30_000);
+    breaker.allowRequest();
+
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe("open");
+    expect(breaker.retryInMs()).toBe(30_000);
+  });
+});
+
+describe("getCircuitStates", () => {
+  beforeEach(() => {
+    resetCircuitBreakers();
+  });
+
+  it("reports the main upstream hosts before any request", () => {
+    const states = getCircuitStates();
+
+    for (const host of UPSTREAM_HOSTS) {
+      expect(states[host]).toEqual({ state: "closed", failures: 0 });
+    }
+  });
+});
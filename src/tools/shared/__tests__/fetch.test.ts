@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { cachedFetchJson, fetchWithRetry, parseRetryAfter } from "../fetch.js";
+import { getCircuitBreaker, resetCircuitBreakers } from "../circuit-breaker.js";
+import { withFreshness, formatAge } from "../freshness.js";
+import { resetCache, getCache, TTL_FORECAST, STALE_FORECAST } from "../cache/index.js";
+
+const URL = "https://api.open-meteo.com/v1/forecast?latitude=1&longitude=2";
+const MINUTE = 60 * 1000;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+/** Run a fetch inside a tool-call context and return the annotated result. */
+const fetchAsTool = withFreshness(async () => {
+  const data = await cachedFetchJson<{ temp: number }>(URL, { ttlMs: TTL_FORECAST });
+  return {
+    content: [{ type: "text" as const, text: `Temp: ${data.temp}` }],
+    structuredContent: { temp: data.temp } as Record<string, unknown>,
+  };
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("cachedFetchJson", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    resetCache();
+    resetCircuitBreakers();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    fetchMock = vi.fn().mockResolvedValue(jsonResponse({ temp: 70 }));
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("serves fresh hits without a network call", async () => {
+    await cachedFetchJson(URL, { ttlMs: TTL_FORECAST });
+    const result = await fetchAsTool();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.content[0].text).toBe("Temp: 70");
+    expect(result.structuredContent).not.toHaveProperty("staleData");
+  });
+
+  it("serves an expired value within the revalidation window and refreshes it", async () => {
+    await cachedFetchJson(URL, { ttlMs: TTL_FORECAST });
+    fetchMock.mockResolvedValue(jsonResponse({ temp: 75 }));
+    vi.advanceTimersByTime(TTL_FORECAST + MINUTE);
+
+    const result = await fetchAsTool();
+
+    expect(result.content[0].text).toContain("Temp: 70");
+    expect(result.content[0].text).toContain("16 min old (refresh in progress)");
+    expect(result.structuredContent?.staleData).toEqual([
+      { source: "api.open-meteo.com/v1/forecast", ageSeconds: 960, reason: "revalidating" },
+    ]);
+
+    await vi.waitFor(async () => expect(await getCache().get(URL)).toEqual({ temp: 75 }));
+  });
+
+  it("falls back to the stale value when the upstream fails", async () => {
+    await cachedFetchJson(URL, { ttlMs: TTL_FORECAST });
+    fetchMock.mockResolvedValue(jsonResponse({}, 503));
+    vi.advanceTimersByTime(TTL_FORECAST + STALE_FORECAST.staleWhileRevalidateMs + MINUTE);
+
+    const result = await fetchAsTool();
+
+    expect(result.content[0].text).toContain("Temp: 70");
+    expect(result.content[0].text).toContain("31 min old (upstream unavailable)");
+    expect(result.structuredContent?.staleData).toMatchObject([{ reason: "upstream error" }]);
+  });
+
+  it("throws once the value is older than the stale-if-error window", async () => {
+    await cachedFetchJson(URL, { ttlMs: TTL_FORECAST });
+    fetchMock.mockResolvedValue(jsonResponse({}, 503));
+    vi.advanceTimersByTime(TTL_FORECAST + STALE_FORECAST.staleIfErrorMs + MINUTE);
+
+    await expect(cachedFetchJson(URL, { ttlMs: TTL_FORECAST })).rejects.toThrow(
+      "api.open-meteo.com returned 503"
+    );
+  });
+
+  it("counts stale serves in the cache stats", async () => {
+    await cachedFetchJson(URL, { ttlMs: TTL_FORECAST });
+    vi.advanceTimersByTime(TTL_FORECAST + MINUTE);
+    await cachedFetchJson(URL, { ttlMs: TTL_FORECAST });
+
+    const stats = await getCache().stats();
+    expect(stats.prefixes["api.open-meteo.com/v1/forecast"].staleServes).toBe(1);
+  });
+});
+
+describe("fetchWithRetry", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    resetCircuitBreakers();
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("retries 5xx responses and network errors until one succeeds", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({}, 502))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+    const response = await fetchWithRetry(URL, undefined, { retries: 2, retryBaseMs: 1 });
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("returns the last failed response once retries are exhausted", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({}, 500));
+
+    const response = await fetchWithRetry(URL, undefined, { retries: 2, retryBaseMs: 1 });
+
+    expect(response.status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry client errors or non-idempotent requests", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({}, 404));
+    await fetchWithRetry(URL, undefined, { retries: 2, retryBaseMs: 1 });
+
+    fetchMock.mockImplementation(async () => jsonResponse({}, 503));
+    await fetchWithRetry(URL, { method: "POST" }, { retries: 2, retryBaseMs: 1 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits for Retry-After on 429, but gives up when it exceeds the cap", async () => {
+    const rateLimited = (retryAfter: string) =>
+      new Response("", { status: 429, headers: { "Retry-After": retryAfter } });
+
+    fetchMock.mockResolvedValueOnce(rateLimited("0")).mockResolvedValueOnce(jsonResponse({}));
+    expect((await fetchWithRetry(URL, undefined, { retries: 1 })).status).toBe(200);
+
+    fetchMock.mockReset().mockResolvedValue(rateLimited("120"));
+    expect((await fetchWithRetry(URL, undefined, { retries: 1, retryMaxMs: 5_000 })).status).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails fast while the host's circuit is open", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({}, 503));
+    for (let i = 0; i < 5; i++) {
+      await fetchWithRetry(URL, undefined, { retries: 0 });
+    }
+
+    await expect(fetchWithRetry(URL)).rejects.toThrow("api.open-meteo.com is unavailable (circuit open");
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+    expect(getCircuitBreaker("api.open-meteo.com").state).toBe("open");
+  });
+
+  it("parses Retry-After as seconds or an HTTP date", () => {
+    expect(parseRetryAfter("3")).toBe(3_000);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+    expect(parseRetryAfter(new Date(Date.now() + 10_000).toUTCString())).toBeGreaterThan(8_000);
+  });
+});
+
+describe("formatAge", () => {
+  it("formats seconds, minutes and hours", () => {
+    expect(formatAge(45)).toBe("45 sec");
+    expect(formatAge(12 * 60)).toBe("12 min");
+    expect(formatAge(3 * 3600)).toBe("3 hr");
+    expect(formatAge(3 * 3600 + 5 * 60)).toBe("3 hr 5 min");
+  });
+});
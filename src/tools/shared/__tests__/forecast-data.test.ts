@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { fetchForecastData } from "../forecast-data.js";
+import { resetCache, TTL_FORECAST, TTL_REALTIME } from "../cache/index.js";
+import { resetCircuitBreakers } from "../circuit-breaker.js";
+
+const DAYS = ["2026-10-17", "2026-10-18", "2026-10-19", "2026-10-20"];
+const HOURS = DAYS.flatMap((day) => Array.from({ length: 24 }, (_, h) => `${day}T${String(h).padStart(2, "0")}:00`));
+
+/** A combined response with every variable the tests ask for. */
+const COMBINED = {
+  latitude: 39.75,
+  longitude: -105,
+  timezone: "America/Denver",
+  utc_offset_seconds: -6 * 3600,
+  current: { time: "2026-10-19T09:30", interval: 900, temperature_2m: 15, wind_speed_10m: 12, weather_code: 2 },
+  current_units: { time: "iso8601", interval: "seconds", temperature_2m: "°C", wind_speed_10m: "km/h", weather_code: "wmo code" },
+  hourly: { time: HOURS, soil_moisture_0_to_1cm: HOURS.map((_, i) => i) },
+  hourly_units: { time: "iso8601", soil_moisture_0_to_1cm: "m³/m³" },
+  daily: { time: DAYS, precipitation_sum: [1, 2, 3, 4], temperature_2m_max: [20, 21, 22, 23] },
+  daily_units: { time: "iso8601", precipitation_sum: "mm", temperature_2m_max: "°C" },
+};
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200 });
+}
+
+function requestedUrl(fetchMock: ReturnType<typeof vi.fn>, call: number): URL {
+  return new URL(fetchMock.mock.calls[call][0] as string);
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("fetchForecastData", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    resetCache();
+    resetCircuitBreakers();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-19T15:30:00Z"));
+    fetchMock = vi.fn(async () => jsonResponse(COMBINED));
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("merges concurrent requests for a location into one upstream call", async () => {
+    const [wind, temperature] = await Promise.all([
+      fetchForecastData<typeof COMBINED>(39.75, -105, "metric", { current: ["wind_speed_10m"] }),
+      fetchForecastData<typeof COMBINED>(39.75, -105, "metric", { current: ["temperature_2m", "weather_code"] }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(requestedUrl(fetchMock, 0).searchParams.get("current")).toBe("temperature_2m,weather_code,wind_speed_10m");
+    expect(wind.current).toEqual({ time: "2026-10-19T09:30", interval: 900, wind_speed_10m: 12 });
+    expect(temperature.current).toEqual({ time: "2026-10-19T09:30", interval: 900, temperature_2m: 15, weather_code: 2 });
+    expect(temperature.current_units).not.toHaveProperty("wind_speed_10m");
+  });
+
+  it("serves later requests inside the stored coverage from the combined response", async () => {
+    await fetchForecastData(39.75, -105, "metric", { current: ["temperature_2m", "wind_speed_10m"] });
+    const result = await fetchForecastData<typeof COMBINED>(39.75, -105, "metric", { current: ["wind_speed_10m"] });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.current.wind_speed_10m).toBe(12);
+  });
+
+  it("widens the coverage when a request needs more", async () => {
+    await fetchForecastData(39.75, -105, "metric", { current: ["temperature_2m"] });
+    await fetchForecastData(39.75, -105, "metric", { daily: ["precipitation_sum"], pastDays: 2 });
+    await fetchForecastData(39.75, -105, "metric", { current: ["temperature_2m"] });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const widened = requestedUrl(fetchMock, 1).searchParams;
+    expect(widened.get("current")).toBe("temperature_2m");
+    expect(widened.get("daily")).toBe("precipitation_sum");
+    expect(widened.get("past_days")).toBe("2");
+  });
+
+  it("keeps locations and unit systems apart", async () => {
+    await Promise.all([
+      fetchForecastData(39.75, -105, "metric", { current: ["temperature_2m"] }),
+      fetchForecastData(39.75, -105, "imperial", { current: ["temperature_2m"] }),
+      fetchForecastData(40, -105, "metric", { current: ["temperature_2m"] }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("slices daily history and hourly data back to each request's window", async () => {
+    const [history, ahead] = await Promise.all([
+      fetchForecastData<typeof COMBINED>(39.75, -105, "metric", {
+        daily: ["precipitation_sum"],
+        pastDays: 2,
+        forecastDays: 1,
+      }),
+      fetchForecastData<typeof COMBINED>(39.75, -105, "metric", {
+        daily: ["temperature_2m_max"],
+        hourly: ["soil_moisture_0_to_1cm"],
+        forecastDays: 2,
+        forecastHours: 2,
+      }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(history.daily).toEqual({ time: DAYS.slice(0, 3), precipitation_sum: [1, 2, 3] });
+    expect(ahead.daily).toEqual({ time: DAYS.slice(2), temperature_2m_max: [22, 23] });
+    // 15:30 UTC is 09:30 in Denver
+    expect(ahead.hourly).toEqual({
+      time: ["2026-10-19T09:00", "2026-10-19T10:00"],
+      soil_moisture_0_to_1cm: [57, 58],
+    });
+    expect(history).not.toHaveProperty("hourly");
+  });
+
+  it("refetches the shared URL for a caller with a shorter TTL", async () => {
+    await fetchForecastData(39.75, -105, "metric", { current: ["temperature_2m"] }, { ttlMs: TTL_FORECAST });
+    vi.setSystemTime(Date.now() + TTL_REALTIME + 1);
+    await fetchForecastData(39.75, -105, "metric", { current: ["temperature_2m"] }, { ttlMs: TTL_FORECAST });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // Past the realtime TTL and its revalidation window: too old to serve
+    vi.setSystemTime(Date.now() + 2 * 60 * 1_000);
+    await fetchForecastData(39.75, -105, "metric", { current: ["temperature_2m"] }, { ttlMs: TTL_REALTIME });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("shrinks the coverage once it expires", async () => {
+    await fetchForecastData(39.75, -105, "metric", { current: ["temperature_2m"] });
+    await fetchForecastData(39.75, -105, "metric", { daily: ["precipitation_sum"], forecastDays: 16 });
+    vi.setSystemTime(Date.now() + TTL_FORECAST + 1);
+    await fetchForecastData(39.75, -105, "metric", { current: ["temperature_2m"] });
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const shrunk = requestedUrl(fetchMock, 2).searchParams;
+    expect(shrunk.get("current")).toBe("temperature_2m");
+    expect(shrunk.get("daily")).toBeNull();
+    expect(shrunk.get("forecast_days")).toBe("7");
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { instrumentTools } from "../instrumentation.js";
+import { toolCallsTotal, toolCallDuration } from "../../../shared/index.js";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+async function connect(): Promise<Client> {
+  const server = new McpServer({ name: "test", version: "1.0.0" });
+
+  instrumentTools({
+    echo: server.registerTool("echo", { inputSchema: { text: z.string() } }, async ({ text }) => ({
+      content: [{ type: "text", text }],
+      isError: text === "fail",
+    })),
+    explode: server.registerTool("explode", {}, async () => {
+      throw new Error("boom");
+    }),
+  });
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+async function callCount(tool: string, outcome: string): Promise<number> {
+  const { values } = await toolCallsTotal.get();
+  return values.find((v) => v.labels.tool === tool && v.labels.outcome === outcome)?.value ?? 0;
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("instrumentTools", () => {
+  beforeEach(() => {
+    toolCallsTotal.reset();
+    toolCallDuration.reset();
+  });
+
+  it("counts calls by tool and outcome", async () => {
+    const client = await connect();
+
+    await client.callTool({ name: "echo", arguments: { text: "hi" } });
+    await client.callTool({ name: "echo", arguments: { text: "fail" } });
+    await client.callTool({ name: "explode", arguments: {} });
+
+    expect(await callCount("echo", "success")).toBe(1);
+    expect(await callCount("echo", "error")).toBe(1);
+    expect(await callCount("explode", "error")).toBe(1);
+  });
+
+  it("times each call", async () => {
+    const client = await connect();
+
+    await client.callTool({ name: "echo", arguments: { text: "hi" } });
+
+    const { values } = await toolCallDuration.get();
+    const count = values.find((v) => v.metricName === "mcp_tool_call_duration_seconds_count");
+    expect(count).toMatchObject({ labels: { tool: "echo" }, value: 1 });
+  });
+
+  it("passes results through unchanged", async () => {
+    const client = await connect();
+
+    const result = await client.callTool({ name: "echo", arguments: { text: "hi" } });
+
+    expect(result.content).toEqual([{ type: "text", text: "hi" }]);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ─── Mocks ────────────────────────────────────────────────────────────────────
+
+const mockSearchLocations = vi.fn();
+const mockGeocodePostalCode = vi.fn();
+const mockGetLocationById = vi.fn();
+
+vi.mock("../geocoding.js", () => ({
+  searchLocations: (...args: unknown[]) => mockSearchLocations(...args),
+  geocodePostalCode: (...args: unknown[]) => mockGeocodePostalCode(...args),
+  getLocationById: (...args: unknown[]) => mockGetLocationById(...args),
+}));
+
+const { resolveLocation, describeLocationInput, findAlternatives, appendAlternatives, roundToGrid, snapToGrid } =
+  await import("../location.js");
+const { formatLocationName } = await import("../location-name.js");
+
+const PARIS_FR = { id: 2988507, name: "Paris", latitude: 48.85, longitude: 2.35, country: "France" };
+const PARIS_TX = { id: 4717560, name: "Paris", latitude: 33.66, longitude: -95.56, country: "United States", admin1: "Texas" };
+const PARISH_NY = { id: 5129248, name: "Parish", latitude: 43.41, longitude: -76.13, country: "United States", admin1: "New York" };
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("resolveLocation", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("geocodes a city, passing the optional country code", async () => {
+    mockSearchLocations.mockResolvedValueOnce([PARIS_FR]);
+
+    const result = await resolveLocation({ city: "Paris", country_code: "FR" });
+
+    expect(mockSearchLocations).toHaveBeenCalledWith("Paris", "FR");
+    expect(result).toEqual({ ok: true, location: PARIS_FR, alternatives: [] });
+  });
+
+  it("reports same-named candidates as alternatives", async () => {
+    mockSearchLocations.mockResolvedValueOnce([PARIS_FR, PARISH_NY, PARIS_TX]);
+
+    const result = await resolveLocation({ city: "Paris" });
+
+    expect(result).toEqual({ ok: true, location: PARIS_FR, alternatives: [PARIS_TX] });
+  });
+
+  it("uses coordinates without calling the geocoder, rounded to the grid", async () => {
+    const result = await resolveLocation({ latitude: 40.7128, longitude: -74.006 });
+
+    expect(mockSearchLocations).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      ok: true,
+      location: {
+        name: "40.7128°N, 74.0060°W",
+        latitude: 40.71,
+        longitude: -74.01,
+        country: "",
+        gridRounding: { latitude: 40.7128, longitude: -74.006, gridDegrees: 0.01 },
+      },
+      alternatives: [],
+    });
+  });
+
+  it("rounds geocoded coordinates so nearby lookups match", async () => {
+    mockGetLocationById.mockResolvedValueOnce({ ...PARIS_FR, latitude: 48.85341, longitude: 2.3488 });
+
+    const result = await resolveLocation({ location_id: PARIS_FR.id });
+
+    expect(result).toMatchObject({ ok: true, location: { latitude: 48.85, longitude: 2.35 } });
+  });
+
+  it("rejects a latitude without a longitude", async () => {
+    const result = await resolveLocation({ latitude: 40.7 });
+
+    expect(result.ok).toBe(false);
+  });
+
+  it("requires country_code with postal_code", async () => {
+    const result = await resolveLocation({ postal_code: "10001" });
+
+    expect(result).toEqual({ ok: false, message: "country_code is required when using postal_code." });
+    expect(mockGeocodePostalCode).not.toHaveBeenCalled();
+  });
+
+  it("geocodes a postal code within a country", async () => {
+    mockGeocodePostalCode.mockResolvedValueOnce(PARIS_FR);
+
+    const result = await resolveLocation({ postal_code: "75001", country_code: "FR" });
+
+    expect(mockGeocodePostalCode).toHaveBeenCalledWith("75001", "FR");
+    expect(result.ok).toBe(true);
+  });
+
+  it("gives location_id precedence over other fields", async () => {
+    mockGetLocationById.mockResolvedValueOnce(PARIS_FR);
+
+    const result = await resolveLocation({ location_id: 2988507, city: "Paris, Texas" });
+
+    expect(mockGetLocationById).toHaveBeenCalledWith(2988507);
+    expect(mockSearchLocations).not.toHaveBeenCalled();
+    expect(result).toEqual({ ok: true, location: PARIS_FR, alternatives: [] });
+  });
+
+  it("reports a not-found city", async () => {
+    mockSearchLocations.mockResolvedValueOnce([]);
+
+    const result = await resolveLocation({ city: "Atlantis" });
+
+    expect(result).toEqual({
+      ok: false,
+      message: 'Could not find a location matching "Atlantis". Try a more specific city name.',
+    });
+  });
+
+  it("requires at least one location field", async () => {
+    const result = await resolveLocation({});
+
+    expect(result.ok).toBe(false);
+  });
+});
+
+describe("snapToGrid", () => {
+  it("rounds to the nearest grid point without float noise", () => {
+    expect(roundToGrid(40.71281, 0.01)).toBe(40.71);
+    expect(roundToGrid(-104.9876, 0.1)).toBe(-105);
+    expect(roundToGrid(51.13, 0.25)).toBe(51.25);
+    expect(roundToGrid(40.71281, 0)).toBe(40.71281);
+  });
+
+  it("leaves on-grid locations untouched", () => {
+    expect(snapToGrid(PARIS_FR, 0.01)).toBe(PARIS_FR);
+  });
+
+  it("reports the grid point in the location name", () => {
+    const location = snapToGrid({ ...PARIS_TX, latitude: 33.6609, longitude: -95.5555 }, 0.01);
+
+    expect(formatLocationName(location)).toBe("Paris, Texas, United States (rounded to 0.01° grid: 33.6600°N, 95.5600°W)");
+  });
+});
+
+describe("describeLocationInput", () => {
+  it("describes each input form", () => {
+    expect(describeLocationInput({ city: "Denver" })).toBe("Denver");
+    expect(describeLocationInput({ location_id: 42 })).toBe("location ID 42");
+    expect(describeLocationInput({ postal_code: "80202", country_code: "US" })).toBe("80202, US");
+    expect(describeLocationInput({ latitude: -33.87, longitude: 151.21 })).toBe("33.8700°S, 151.2100°E");
+  });
+});
+
+describe("findAlternatives", () => {
+  it("returns nothing for an empty or single-result search", () => {
+    expect(findAlternatives([])).toEqual([]);
+    expect(findAlternatives([PARIS_FR])).toEqual([]);
+  });
+
+  it("caps the number of alternatives", () => {
+    const springfields = Array.from({ length: 6 }, (_, i) => ({ ...PARIS_TX, id: i, name: "Springfield" }));
+    expect(findAlternatives(springfields)).toHaveLength(3);
+  });
+});
+
+describe("appendAlternatives", () => {
+  it("leaves the report untouched when there are no alternatives", () => {
+    expect(appendAlternatives("Report", [])).toBe("Report");
+  });
+
+  it("lists alternatives with their location IDs", () => {
+    const text = appendAlternatives("Report", [PARIS_TX]);
+
+    expect(text).toContain("Did you mean");
+    expect(text).toContain("Paris, Texas, United States (location_id: 4717560)");
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { RedisCache, type RedisClient } from "../cache/redis.js";
+
+// ─── In-process Redis stand-in ────────────────────────────────────────────────
+
+/**
+ * Implements the commands RedisCache uses against a Map, with PX expiry
+ * and glob-style MATCH on (escaped) `prefix*` patterns.
+ */
+class FakeRedis implements RedisClient {
+  store = new Map<string, { value: string; expiresAt: number }>();
+  closed = false;
+  failing = false;
+
+  private live(key: string) {
+    this.check();
+    const entry = this.store.get(key);
+    if (entry && Date.now() >= entry.expiresAt) {
+      this.store.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private check() {
+    if (this.failing) throw new Error("ECONNREFUSED");
+  }
+
+  async get(key: string) {
+    return this.live(key)?.value ?? null;
+  }
+
+  async set(key: string, value: string, options: { expiration: { type: "PX"; value: number } }) {
+    this.check();
+    this.store.set(key, { value, expiresAt: Date.now() + options.expiration.value });
+    return "OK";
+  }
+
+  async del(keys: string | string[]) {
+    this.check();
+    let removed = 0;
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      if (this.live(key) && this.store.delete(key)) removed++;
+    }
+    return removed;
+  }
+
+  async *scanIterator(options: { MATCH: string; COUNT?: number }) {
+    this.check();
+    const prefix = options.MATCH.replace(/\*$/, "").replace(/\\(.)/g, "$1");
+    const keys = [...this.store.keys()].filter((key) => key.startsWith(prefix) && this.live(key));
+    const count = options.COUNT ?? 10;
+    for (let i = 0; i < keys.length; i += count) {
+      yield keys.slice(i, i + count);
+    }
+  }
+
+  async close() {
+    this.closed = true;
+  }
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("RedisCache", () => {
+  let redis: FakeRedis;
+  let cache: RedisCache;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    cache = new RedisCache(redis, { keyPrefix: "test:", defaultTtlMs: 60_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("round-trips JSON values under the key prefix", async () => {
+    await cache.set("forecast", { temp: 72, days: ["Mon", "Tue"] });
+
+    expect(await cache.get("forecast")).toEqual({ temp: 72, days: ["Mon", "Tue"] });
+    expect(redis.store.has("test:forecast")).toBe(true);
+  });
+
+  it("returns undefined for missing keys", async () => {
+    expect(await cache.get("missing")).toBeUndefined();
+    expect(await cache.has("missing")).toBe(false);
+  });
+
+  it("expires entries using the per-call TTL", async () => {
+    vi.useFakeTimers();
+    await cache.set("current", 1, { ttlMs: 1_000 });
+    await cache.set("static", 2);
+
+    vi.advanceTimersByTime(1_001);
+
+    expect(await cache.has("current")).toBe(false);
+    expect(await cache.get("static")).toBe(2);
+  });
+
+  it("deletes single keys", async () => {
+    await cache.set("a", 1);
+
+    expect(await cache.delete("a")).toBe(true);
+    expect(await cache.delete("a")).toBe(false);
+  });
+
+  it("clears and counts only its own prefix", async () => {
+    await redis.set("other:key", "1", { expiration: { type: "PX", value: 60_000 } });
+    for (let i = 0; i < 150; i++) await cache.set(`k${i}`, i);
+
+    expect(await cache.size()).toBe(150);
+
+    await cache.clear();
+
+    expect(await cache.size()).toBe(0);
+    expect(redis.store.has("other:key")).toBe(true);
+  });
+
+  it("lists and deletes keys by literal prefix", async () => {
+    await cache.set("https://api.open-meteo.com/v1/forecast?latitude=1", 1);
+    await cache.set("https://api.open-meteo.com/v1/forecast?latitude=2", 2);
+    await cache.set("https://api.open-meteo.com/v1/forecastXlatitude=3", 3);
+    await cache.set("geocode:denver", 4);
+
+    const prefix = "https://api.open-meteo.com/v1/forecast?";
+    expect((await cache.keys(prefix)).sort()).toEqual([
+      "https://api.open-meteo.com/v1/forecast?latitude=1",
+      "https://api.open-meteo.com/v1/forecast?latitude=2",
+    ]);
+    expect(await cache.deletePrefix(prefix)).toBe(2);
+    expect(await cache.keys()).toHaveLength(2);
+  });
+
+  it("reports process-local hit and miss counts", async () => {
+    await cache.set("https://api.open-meteo.com/v1/forecast?latitude=1", 1);
+    await cache.get("https://api.open-meteo.com/v1/forecast?latitude=1");
+    await cache.get("https://api.open-meteo.com/v1/forecast?latitude=2");
+
+    const stats = await cache.stats();
+    expect(stats).toMatchObject({ backend: "redis", entries: 1 });
+    expect(stats.prefixes["api.open-meteo.com/v1/forecast"]).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it("treats Redis errors as cache misses instead of throwing", async () => {
+    await cache.set("a", 1);
+    redis.failing = true;
+
+    expect(await cache.get("a")).toBeUndefined();
+    await expect(cache.set("b", 2)).resolves.toBeUndefined();
+    expect(await cache.has("a")).toBe(false);
+    expect(await cache.size()).toBe(0);
+  });
+
+  it("degrades to misses when the connection never comes up", async () => {
+    const unreachable = new RedisCache(Promise.reject(new Error("connect failed")), {
+      keyPrefix: "test:",
+      defaultTtlMs: 60_000,
+    });
+
+    await unreachable.set("a", 1);
+    expect(await unreachable.get("a")).toBeUndefined();
+  });
+
+  it("closes the connection on dispose", async () => {
+    cache.dispose();
+    await vi.waitFor(() => expect(redis.closed).toBe(true));
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { instrumentTools } from "../instrumentation.js";
+import { toolCallsTotal } from "../../../shared/index.js";
+import { authorizeTools, requiredScopes, IN_PROCESS, TOOL_SCOPES, type ToolAccess } from "../scopes.js";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function authInfo(scopes: string[]): AuthInfo {
+  return { token: "t", clientId: "client-123", scopes };
+}
+
+/**
+ * Connect a client to a server whose tools are authorized for `access`.
+ * Every request carries `requestScopes` (default: the access token's scopes).
+ */
+async function connect(access: ToolAccess, requestScopes?: string[]): Promise<Client> {
+  const server = new McpServer({ name: "test", version: "1.0.0" });
+
+  const ok = async () => ({ content: [{ type: "text" as const, text: "ok" }] });
+  const tools = {
+    get_weather: server.registerTool("get_weather", { _meta: requiredScopes(TOOL_SCOPES.weatherRead) }, ok),
+    get_marine_conditions: server.registerTool(
+      "get_marine_conditions",
+      { _meta: requiredScopes(TOOL_SCOPES.weatherRead, TOOL_SCOPES.marineRead) },
+      ok
+    ),
+    ping: server.registerTool("ping", { inputSchema: { message: z.string().optional() } }, ok),
+  };
+  // Same order as registerAllTools, so denied calls are counted too
+  authorizeTools(server, tools, access);
+  instrumentTools(tools);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const scopes = requestScopes ?? (access === IN_PROCESS ? undefined : access?.scopes);
+  if (scopes) {
+    const send = clientTransport.send.bind(clientTransport);
+    clientTransport.send = (message, options) => send(message, { ...options, authInfo: authInfo(scopes) });
+  }
+
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+async function toolNames(client: Client): Promise<string[]> {
+  const { tools } = await client.listTools();
+  return tools.map((tool) => tool.name);
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("authorizeTools", () => {
+  it("lists only the tools the session's token has every scope for", async () => {
+    const client = await connect(authInfo(["openid", "weather:read"]));
+
+    expect(await toolNames(client)).toEqual(["get_weather", "ping"]);
+  });
+
+  it("advertises required scopes in tools/list", async () => {
+    const client = await connect(authInfo(["weather:read", "marine:read"]));
+
+    const { tools } = await client.listTools();
+    expect(tools.find((tool) => tool.name === "get_marine_conditions")?._meta).toEqual({
+      requiredScopes: ["weather:read", "marine:read"],
+    });
+  });
+
+  it("refuses direct calls to tools hidden from the session", async () => {
+    const client = await connect(authInfo(["weather:read"]));
+
+    const result = await client.callTool({ name: "get_marine_conditions", arguments: {} });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([{ type: "text", text: "Not authorized: this tool requires scope marine:read" }]);
+  });
+
+  it("lists tools with the same definitions as the SDK", async () => {
+    const client = await connect(IN_PROCESS);
+    const authorized = await connect(authInfo(["weather:read", "marine:read"]));
+
+    expect((await authorized.listTools()).tools).toEqual((await client.listTools()).tools);
+  });
+
+  it("counts refused calls as errors", async () => {
+    toolCallsTotal.reset();
+    const client = await connect(authInfo(["weather:read"]));
+
+    await client.callTool({ name: "get_marine_conditions", arguments: {} });
+
+    const { values } = await toolCallsTotal.get();
+    expect(values).toEqual([
+      expect.objectContaining({ labels: { tool: "get_marine_conditions", outcome: "error" }, value: 1 }),
+    ]);
+  });
+
+  it("checks each call against the token on that request", async () => {
+    const client = await connect(authInfo(["weather:read", "marine:read"]), ["weather:read"]);
+
+    const result = await client.callTool({ name: "get_marine_conditions", arguments: {} });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([{ type: "text", text: "Not authorized: this tool requires scope marine:read" }]);
+  });
+
+  it("runs calls the caller is authorized for", async () => {
+    const client = await connect(authInfo(["weather:read"]));
+
+    const result = await client.callTool({ name: "get_weather", arguments: {} });
+
+    expect(result.isError).toBeFalsy();
+  });
+
+  it("denies callers without auth info", async () => {
+    const client = await connect(undefined);
+
+    expect(await toolNames(client)).toEqual(["ping"]);
+    expect((await client.callTool({ name: "get_weather", arguments: {} })).isError).toBe(true);
+  });
+
+  it("allows the in-process client every tool", async () => {
+    const client = await connect(IN_PROCESS);
+
+    expect(await toolNames(client)).toHaveLength(3);
+    expect((await client.callTool({ name: "get_marine_conditions", arguments: {} })).isError).toBeFalsy();
+  });
+});
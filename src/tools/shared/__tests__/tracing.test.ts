@@ -0,0 +1,143 @@
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import { context, propagation, trace } from "@opentelemetry/api";
+import {
+  NodeTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-node";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { httpTracing } from "../../../shared/index.js";
+import { cachedFetchJson } from "../fetch.js";
+import { instrumentTools } from "../instrumentation.js";
+import { resolveLocation } from "../location.js";
+import { resetCache } from "../cache/index.js";
+import { resetCircuitBreakers } from "../circuit-breaker.js";
+
+const URL = "https://api.open-meteo.com/v1/forecast?latitude=1&longitude=2";
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("tracing", () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+
+  beforeAll(() => {
+    provider.register();
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+    trace.disable();
+    context.disable();
+    propagation.disable();
+  });
+
+  beforeEach(() => {
+    resetCache();
+    resetCircuitBreakers();
+    exporter.reset();
+    vi.stubGlobal("fetch", vi.fn().mockImplementation(async () => new Response('{"temp":70}')));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("tags cachedFetchJson spans with the host and cache result", async () => {
+    await cachedFetchJson(URL);
+    await cachedFetchJson(URL);
+
+    const spans = exporter.getFinishedSpans().filter((span) => span.name === "cachedFetchJson");
+    expect(spans.map((span) => span.attributes["cache.result"])).toEqual(["miss", "hit"]);
+    expect(spans[0].attributes["server.address"]).toBe("api.open-meteo.com");
+  });
+
+  it("traces city lookups made while resolving a location", async () => {
+    const paris = { id: 2988507, name: "Paris", latitude: 48.85, longitude: 2.35, country: "France" };
+    vi.mocked(fetch).mockImplementation(async () => new Response(JSON.stringify({ results: [paris] })));
+
+    await resolveLocation({ city: "Paris", country_code: "fr" });
+
+    const span = exporter.getFinishedSpans().find((span) => span.name === "searchLocations");
+    expect(span?.attributes).toMatchObject({
+      "geocode.query": "Paris",
+      "geocode.country_code": "fr",
+      "geocode.result_count": 1,
+    });
+  });
+
+  it("nests upstream fetches under the tool call span", async () => {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    instrumentTools({
+      lookup: server.registerTool("lookup", {}, async () => {
+        await cachedFetchJson(URL);
+        return { content: [{ type: "text", text: "ok" }] };
+      }),
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    await client.callTool({ name: "lookup", arguments: {} });
+
+    const spans = exporter.getFinishedSpans();
+    const tool = spans.find((span) => span.name === "tool lookup");
+    const fetch = spans.find((span) => span.name === "cachedFetchJson");
+    expect(tool?.attributes["mcp.tool.name"]).toBe("lookup");
+    expect(fetch?.parentSpanContext?.spanId).toBe(tool?.spanContext().spanId);
+  });
+
+  it("continues the caller's trace on incoming requests", async () => {
+    const app = express();
+    app.use(httpTracing());
+    app.get("/ping", (_req, res) => {
+      res.json({ ok: true });
+    });
+    const server: Server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    vi.unstubAllGlobals();
+    await fetch(`http://127.0.0.1:${port}/ping`, {
+      headers: { traceparent: `00-${TRACE_ID}-00f067aa0ba902b7-01` },
+    });
+    await new Promise((resolve) => server.close(resolve));
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe("GET /ping");
+    expect(span.spanContext().traceId).toBe(TRACE_ID);
+    expect(span.attributes["http.response.status_code"]).toBe(200);
+  });
+
+  it("ends the span when the client aborts before a response", async () => {
+    const app = express();
+    app.use(httpTracing());
+    const received = new Promise<void>((resolve) => {
+      app.get("/hang", () => resolve());
+    });
+    const server: Server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    vi.unstubAllGlobals();
+    const controller = new AbortController();
+    const request = fetch(`http://127.0.0.1:${port}/hang`, { signal: controller.signal }).catch(() => undefined);
+    await received;
+    controller.abort();
+    await request;
+    await vi.waitFor(() => expect(exporter.getFinishedSpans()).toHaveLength(1));
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe("GET /hang");
+    expect(span.attributes["error.type"]).toBe("aborted");
+    expect(span.attributes).not.toHaveProperty("http.response.status_code");
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  getUnitParams,
+  getLengthUnitParam,
+  toFahrenheit,
+  toFahrenheitDelta,
+  toMph,
+  toInches,
+  snowToInches,
+  toFeet,
+  toMeters,
+  fromFahrenheit,
+  fromMph,
+  fromInches,
+} from "../units.js";
+import { HEAT_ADVISORY, FREEZE_ADVISORY } from "../../severe-weather/constants.js";
+
+describe("units", () => {
+  // ─── Request Parameters ─────────────────────────────────────────────
+
+  describe("request parameters", () => {
+    it("requests imperial units from Open-Meteo", () => {
+      expect(getUnitParams("imperial")).toEqual({
+        temperature_unit: "fahrenheit",
+        wind_speed_unit: "mph",
+        precipitation_unit: "inch",
+      });
+      expect(getLengthUnitParam("imperial")).toBe("imperial");
+    });
+
+    it("requests metric units from Open-Meteo", () => {
+      expect(getUnitParams("metric")).toEqual({
+        temperature_unit: "celsius",
+        wind_speed_unit: "kmh",
+        precipitation_unit: "mm",
+      });
+      expect(getLengthUnitParam("metric")).toBe("metric");
+    });
+  });
+
+  // ─── Normalisation ──────────────────────────────────────────────────
+
+  describe("normalisation to imperial", () => {
+    it("leaves imperial values untouched", () => {
+      expect(toFahrenheit(72, "imperial")).toBe(72);
+      expect(toMph(15, "imperial")).toBe(15);
+      expect(toInches(0.5, "imperial")).toBe(0.5);
+      expect(toFeet(3, "imperial")).toBe(3);
+    });
+
+    it("a 38 °C day trips the heat advisory threshold", () => {
+      expect(toFahrenheit(38, "metric")).toBeGreaterThanOrEqual(HEAT_ADVISORY);
+      expect(toFahrenheit(37, "metric")).toBeLessThan(HEAT_ADVISORY);
+    });
+
+    it("0 °C is at the freeze threshold", () => {
+      expect(toFahrenheit(0, "metric")).toBe(FREEZE_ADVISORY);
+    });
+
+    it("converts temperature differences without the 32° offset", () => {
+      expect(toFahrenheitDelta(5, "metric")).toBe(9);
+    });
+
+    it("converts metric wind, rain, snow and wave heights", () => {
+      expect(toMph(64.37376, "metric")).toBeCloseTo(40);
+      expect(toInches(25.4, "metric")).toBeCloseTo(1);
+      expect(snowToInches(2.54, "metric")).toBeCloseTo(1);
+      expect(toFeet(0.3048, "metric")).toBeCloseTo(1);
+      expect(toMeters(10, "imperial")).toBeCloseTo(3.048);
+    });
+  });
+
+  // ─── Display ────────────────────────────────────────────────────────
+
+  describe("threshold display", () => {
+    it("rounds converted thresholds for display", () => {
+      expect(fromFahrenheit(100, "metric")).toBe(38);
+      expect(fromFahrenheit(50, "metric")).toBe(10);
+      expect(fromMph(35, "metric")).toBe(56);
+      expect(fromInches(0.1, "metric")).toBe(2.5);
+      expect(fromFahrenheit(100, "imperial")).toBe(100);
+    });
+  });
+});
@@ -1,15 +1,38 @@
 /**
- * tools/shared/cache/index.ts — In-memory cache singleton.
+ * tools/shared/cache/index.ts — Cache singleton.
  *
- * Singleton instance accessed via `getCache()`. To migrate to Redis
- * later, swap the implementation returned by `getCache()` — all
- * consumers depend only on the `Cache` interface.
+ * Singleton instance accessed via `getCache()`. The backend is chosen by
+ * `config.cache.backend`: an in-process `Map` (default) or Redis, so that
+ * replicas behind a load balancer share one cache. All consumers depend
+ * only on the `Cache` interface.
  */
 
-import type { Cache, CacheEntry, CacheSetOptions } from "./types.js";
+import { Gauge } from "prom-client";
+import { config } from "../../../config/index.js";
+import { metricsRegistry } from "../../../shared/index.js";
+import type {
+  Cache,
+  CacheCounters,
+  CacheEntry,
+  CacheGetOptions,
+  CacheSetOptions,
+  CacheSnapshotEntry,
+  CacheStats,
+} from "./types.js";
+import { createRedisCache, type RedisCache } from "./redis.js";
+import { CacheStatsRecorder } from "./stats.js";
 
 // Re-export types for convenience
-export type { Cache, CacheEntry, CacheSetOptions } from "./types.js";
+export type {
+  Cache,
+  CacheEntry,
+  CacheGetOptions,
+  CacheSetOptions,
+  CacheSnapshotEntry,
+  CacheCounters,
+  CacheStats,
+} from "./types.js";
+export { cacheKeyPrefix } from "./stats.js";
 
 /** Default TTL: 5 minutes. Weather data is reasonably fresh at this interval. */
 const DEFAULT_TTL_MS = 5 * 60 * 1000;
@@ -30,57 +53,182 @@ export const TTL_FORECAST = 15 * 60 * 1_000;
 /** 24 hrs — geocoding lookups (city → lat/lon). */
 export const TTL_STATIC = 24 * 60 * 60 * 1_000;
 
+// ─── Stale windows per tier ──────────────────────────────────────────────────
+//
+// Once an entry's TTL passes it may still be served:
+//   stale-while-revalidate — immediately, while a background refresh runs.
+//   stale-if-error         — only when the upstream fetch fails.
+// Windows are measured from expiry and scale with how volatile the tier is.
+
+/** How long past expiry an entry may be served in each mode. */
+export interface StaleWindows {
+  staleWhileRevalidateMs: number;
+  staleIfErrorMs: number;
+}
+
+/** Realtime data: brief revalidation window, up to 1 hr on upstream errors. */
+export const STALE_REALTIME: StaleWindows = {
+  staleWhileRevalidateMs: 2 * 60 * 1_000,
+  staleIfErrorMs: 60 * 60 * 1_000,
+};
+
+/** Forecasts: one TTL of revalidation, up to 6 hrs on upstream errors. */
+export const STALE_FORECAST: StaleWindows = {
+  staleWhileRevalidateMs: 15 * 60 * 1_000,
+  staleIfErrorMs: 6 * 60 * 60 * 1_000,
+};
+
+/** Static data: a day of revalidation, up to a week on upstream errors. */
+export const STALE_STATIC: StaleWindows = {
+  staleWhileRevalidateMs: 24 * 60 * 60 * 1_000,
+  staleIfErrorMs: 7 * 24 * 60 * 60 * 1_000,
+};
+
+/** Stale windows for the tier a TTL belongs to. */
+export function staleWindowsFor(ttlMs: number = DEFAULT_TTL_MS): StaleWindows {
+  if (ttlMs >= TTL_STATIC) return STALE_STATIC;
+  if (ttlMs >= TTL_FORECAST) return STALE_FORECAST;
+  return STALE_REALTIME;
+}
+
 /** How often the passive sweep runs to prune expired entries (60 s). */
 const SWEEP_INTERVAL_MS = 60 * 1000;
 
+/** Options for `InMemoryCache`. */
+export interface InMemoryCacheOptions {
+  defaultTtlMs?: number;
+  /** Maximum number of entries before least-recently-used ones are evicted. */
+  maxEntries?: number;
+  /** Approximate byte budget (JSON size of keys + values). */
+  maxBytes?: number;
+}
+
+/** Stored entry plus bookkeeping for the byte budget and stale retention. */
+interface SizedEntry extends CacheEntry {
+  bytes: number;
+  /** Kept until this timestamp so it can be served stale (>= expiresAt). */
+  retainUntil: number;
+}
+
+/** Approximate memory held by an entry: UTF-8 length of key + JSON value. */
+function entryBytes(key: string, value: unknown): number {
+  return Buffer.byteLength(key) + Buffer.byteLength(JSON.stringify(value) ?? "");
+}
+
 /**
- * In-memory cache backed by a `Map`.
+ * In-memory LRU cache backed by a `Map`.
  *
- * - Lazy expiry on reads (expired entries are pruned on `get` / `has`)
- * - Periodic passive sweep removes stale entries in the background
+ * - Map insertion order doubles as recency order: reads move an entry
+ *   to the end, and eviction removes from the front
+ * - Bounded by an entry count and an approximate byte budget
+ * - Lazy expiry on reads; expired entries are kept until their stale
+ *   window (`staleTtlMs`) passes so `getEntry` can still serve them
+ * - Periodic passive sweep removes entries past that window
  * - All methods are async to match the `Cache` interface contract
  */
-class InMemoryCache implements Cache {
-  private store = new Map<string, CacheEntry>();
+export class InMemoryCache implements Cache {
+  private store = new Map<string, SizedEntry>();
   private defaultTtlMs: number;
+  private maxEntries: number;
+  private maxBytes: number;
+  private bytes = 0;
+  private recorder = new CacheStatsRecorder();
   private sweepTimer: ReturnType<typeof setInterval> | null = null;
 
-  constructor(defaultTtlMs: number = DEFAULT_TTL_MS) {
-    this.defaultTtlMs = defaultTtlMs;
+  constructor(options: InMemoryCacheOptions = {}) {
+    this.defaultTtlMs = options.defaultTtlMs ?? DEFAULT_TTL_MS;
+    this.maxEntries = options.maxEntries ?? config.cache.maxEntries;
+    this.maxBytes = options.maxBytes ?? config.cache.maxBytes;
     this.startSweep();
   }
 
   async get<T = unknown>(key: string): Promise<T | undefined> {
-    const entry = this.store.get(key);
-    if (!entry) return undefined;
+    const entry = await this.getEntry<T>(key);
+    return entry?.value;
+  }
+
+  async getEntry<T = unknown>(key: string, options?: CacheGetOptions): Promise<CacheEntry<T> | undefined> {
+    const entry = this.lookup(key);
+    const now = Date.now();
 
-    if (Date.now() > entry.expiresAt) {
-      this.store.delete(key);
+    if (!entry || now > entry.expiresAt + (options?.maxStaleMs ?? 0)) {
+      this.recorder.miss(key);
       return undefined;
     }
 
-    return entry.value as T;
+    // Mark as most recently used
+    this.store.delete(key);
+    this.store.set(key, entry);
+
+    if (now > entry.expiresAt) {
+      this.recorder.staleServe(key);
+    } else {
+      this.recorder.hit(key);
+    }
+
+    return { value: entry.value as T, storedAt: entry.storedAt, expiresAt: entry.expiresAt };
   }
 
   async set<T = unknown>(key: string, value: T, options?: CacheSetOptions): Promise<void> {
     const ttl = options?.ttlMs ?? this.defaultTtlMs;
+    const bytes = entryBytes(key, value);
+
+    const existing = this.store.get(key);
+    if (existing) this.remove(key, existing);
+
+    // A value larger than the whole budget would evict everything and still not fit
+    if (bytes > this.maxBytes) return;
+
+    const now = Date.now();
     this.store.set(key, {
       value,
-      expiresAt: Date.now() + ttl,
+      storedAt: now,
+      expiresAt: now + ttl,
+      retainUntil: now + ttl + (options?.staleTtlMs ?? 0),
+      bytes,
     });
+    this.bytes += bytes;
+    this.recorder.write(key, options?.prewarmed ?? false);
+    this.enforceLimits();
+  }
+
+  async peek<T = unknown>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.lookup(key);
+    return entry && { value: entry.value as T, storedAt: entry.storedAt, expiresAt: entry.expiresAt };
+  }
+
+  async keys(prefix = ""): Promise<string[]> {
+    this.evictExpired();
+    return [...this.store.keys()].filter((key) => key.startsWith(prefix));
   }
 
   async delete(key: string): Promise<boolean> {
-    return this.store.delete(key);
+    const entry = this.store.get(key);
+    if (!entry) return false;
+    this.remove(key, entry);
+    return true;
+  }
+
+  async deletePrefix(prefix: string): Promise<number> {
+    let removed = 0;
+    for (const [key, entry] of this.store) {
+      if (key.startsWith(prefix)) {
+        this.remove(key, entry);
+        removed++;
+      }
+    }
+    return removed;
   }
 
   async clear(): Promise<void> {
     this.store.clear();
+    this.bytes = 0;
+    this.recorder.clear();
   }
 
   async has(key: string): Promise<boolean> {
-    const value = await this.get(key);
-    return value !== undefined;
+    const entry = this.lookup(key);
+    return entry !== undefined && Date.now() <= entry.expiresAt;
   }
 
   async size(): Promise<number> {
@@ -88,12 +236,93 @@ class InMemoryCache implements Cache {
     return this.store.size;
   }
 
-  /** Remove all expired entries in one pass. */
+  async stats(): Promise<CacheStats> {
+    this.evictExpired();
+    return {
+      backend: "memory",
+      entries: this.store.size,
+      bytes: this.bytes,
+      maxEntries: this.maxEntries,
+      maxBytes: this.maxBytes,
+      ...this.recorder.snapshot(),
+    };
+  }
+
+  counters(): CacheCounters {
+    return this.recorder.totals();
+  }
+
+  /**
+   * Unexpired entries, least recently used first, for a snapshot.
+   */
+  exportEntries(): CacheSnapshotEntry[] {
+    const now = Date.now();
+    const entries: CacheSnapshotEntry[] = [];
+    for (const [key, { value, storedAt, expiresAt, retainUntil }] of this.store) {
+      if (now <= expiresAt) {
+        entries.push({ key, value, storedAt, expiresAt, retainUntil });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Restore snapshot entries with their original timestamps, skipping any
+   * past their retention window. Budgets apply as for `set`.
+   *
+   * @returns the number of entries restored
+   */
+  importEntries(entries: CacheSnapshotEntry[]): number {
+    const now = Date.now();
+    const restored: string[] = [];
+
+    for (const { key, value, storedAt, expiresAt, retainUntil } of entries) {
+      if (now > retainUntil) continue;
+      const bytes = entryBytes(key, value);
+      if (bytes > this.maxBytes) continue;
+
+      const existing = this.store.get(key);
+      if (existing) this.remove(key, existing);
+      this.store.set(key, { value, storedAt, expiresAt, retainUntil, bytes });
+      this.bytes += bytes;
+      restored.push(key);
+    }
+
+    this.enforceLimits();
+    return restored.filter((key) => this.store.has(key)).length;
+  }
+
+  /** Get a stored entry, pruning it if past its retention window. */
+  private lookup(key: string): SizedEntry | undefined {
+    const entry = this.store.get(key);
+    if (entry && Date.now() > entry.retainUntil) {
+      this.remove(key, entry);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private remove(key: string, entry: SizedEntry): void {
+    this.store.delete(key);
+    this.bytes -= entry.bytes;
+    this.recorder.remove(key);
+  }
+
+  /** Evict least-recently-used entries until both budgets are met. */
+  private enforceLimits(): void {
+    for (const [key, entry] of this.store) {
+      if (this.store.size <= this.maxEntries && this.bytes <= this.maxBytes) break;
+      this.remove(key, entry);
+      this.recorder.eviction(key);
+    }
+  }
+
+  /** Remove all entries past their retention window in one pass. */
   private evictExpired(): void {
     const now = Date.now();
     for (const [key, entry] of this.store) {
-      if (now > entry.expiresAt) {
-        this.store.delete(key);
+      if (now > entry.retainUntil) {
+        this.remove(key, entry);
       }
     }
   }
@@ -118,27 +347,61 @@ class InMemoryCache implements Cache {
 
 // ─── Singleton ──────────────────────────────────────────────────────────────
 
-let instance: InMemoryCache | null = null;
+let instance: InMemoryCache | RedisCache | null = null;
 
 /**
- * Get the cache singleton.
- *
- * To migrate to Redis: replace the body of this function to return
- * a `RedisCache` instance that implements the same `Cache` interface.
+ * Get the cache singleton, creating the configured backend on first use.
  */
 export function getCache(): Cache {
   if (!instance) {
-    instance = new InMemoryCache();
+    instance =
+      config.cache.backend === "redis" && config.cache.redisUrl
+        ? createRedisCache(config.cache.redisUrl, {
+            keyPrefix: config.cache.keyPrefix,
+            defaultTtlMs: DEFAULT_TTL_MS,
+          })
+        : new InMemoryCache();
   }
   return instance;
 }
 
 /**
- * Reset the singleton (for tests).
+ * Reset the singleton, releasing timers / connections (tests, shutdown).
  */
 export function resetCache(): void {
+  entryCount = null;
   if (instance) {
     instance.dispose();
     instance = null;
   }
 }
+
+// ─── Metrics ────────────────────────────────────────────────────────────────
+
+new Gauge({
+  name: "cache_hit_ratio",
+  help: "Share of cache lookups since startup answered from the cache (fresh or stale)",
+  registers: [metricsRegistry],
+  collect() {
+    const { hits, misses, staleServes } = getCache().counters();
+    const lookups = hits + misses + staleServes;
+    this.set(lookups === 0 ? 0 : (hits + staleServes) / lookups);
+  },
+});
+
+/** How long a counted entry total is reused; `size()` scans every key on Redis. */
+const ENTRY_COUNT_MAX_AGE_MS = 30_000;
+
+let entryCount: { value: number; countedAt: number } | null = null;
+
+new Gauge({
+  name: "cache_entries",
+  help: "Entries held by the cache (recounted at most every 30 s)",
+  registers: [metricsRegistry],
+  async collect() {
+    if (!entryCount || Date.now() - entryCount.countedAt > ENTRY_COUNT_MAX_AGE_MS) {
+      entryCount = { value: await getCache().size(), countedAt: Date.now() };
+    }
+    this.set(entryCount.value);
+  },
+});
@@ -0,0 +1,245 @@
+/**
+ * tools/shared/cache/redis.ts — Redis-backed cache.
+ *
+ * Shares cached responses across every replica behind a load balancer.
+ * Entries are stored as JSON envelopes (value plus timestamps) under a
+ * common key prefix. Redis' own TTL (`SET … PX`) covers the TTL plus any
+ * stale window; freshness is decided from the envelope's `expiresAt`.
+ *
+ * Redis failures never fail a tool call: reads degrade to a cache miss
+ * and writes are dropped, with a warning logged.
+ */
+
+import { createClient } from "redis";
+import { logger } from "../../../shared/index.js";
+import type {
+  Cache,
+  CacheCounters,
+  CacheEntry,
+  CacheGetOptions,
+  CacheSetOptions,
+  CacheStats,
+} from "./types.js";
+import { CacheStatsRecorder } from "./stats.js";
+
+const log = logger.child({ module: "cache" });
+
+/** Keys fetched / deleted per SCAN batch when clearing or counting. */
+const SCAN_COUNT = 100;
+
+/** Escape glob metacharacters so a key prefix matches literally in SCAN MATCH. */
+const escapeGlob = (value: string) => value.replace(/[*?[\]\\]/g, "\\$&");
+
+/**
+ * The subset of the node-redis client used by `RedisCache`.
+ *
+ * Kept narrow so tests can supply an in-process stand-in; the node-redis
+ * client satisfies it as is (checked in `createRedisCache`).
+ */
+export interface RedisClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options: { expiration: { type: "PX"; value: number } }): Promise<unknown>;
+  del(keys: string | string[]): Promise<number>;
+  scanIterator(options: { MATCH: string; COUNT?: number }): AsyncIterable<string[]>;
+  close(): Promise<void>;
+}
+
+/** Options for `RedisCache`. */
+export interface RedisCacheOptions {
+  /** Prefix applied to every key (namespaces this server in a shared Redis). */
+  keyPrefix: string;
+  /** TTL applied when `set` is called without one. */
+  defaultTtlMs: number;
+}
+
+/**
+ * Cache backed by Redis.
+ *
+ * Accepts a client or a promise of one, so the singleton can be created
+ * synchronously while the connection is still being established.
+ * Hit/miss counters and prewarmed keys are per process; evictions and
+ * expiry are left to Redis (`maxmemory` policy, PX) and are not visible
+ * here.
+ */
+export class RedisCache implements Cache {
+  private client: Promise<RedisClient>;
+  private keyPrefix: string;
+  private defaultTtlMs: number;
+  private recorder = new CacheStatsRecorder();
+
+  constructor(client: RedisClient | Promise<RedisClient>, options: RedisCacheOptions) {
+    this.client = Promise.resolve(client);
+    // Avoid unhandled rejections before the first command awaits the client
+    this.client.catch(() => undefined);
+    this.keyPrefix = options.keyPrefix;
+    this.defaultTtlMs = options.defaultTtlMs;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const entry = await this.getEntry<T>(key);
+    return entry?.value;
+  }
+
+  async getEntry<T = unknown>(key: string, options?: CacheGetOptions): Promise<CacheEntry<T> | undefined> {
+    const entry = await this.read<T>(key);
+    const now = Date.now();
+
+    if (!entry || now > entry.expiresAt + (options?.maxStaleMs ?? 0)) {
+      this.recorder.miss(key);
+      return undefined;
+    }
+
+    if (now > entry.expiresAt) {
+      this.recorder.staleServe(key);
+    } else {
+      this.recorder.hit(key);
+    }
+    return entry;
+  }
+
+  async set<T = unknown>(key: string, value: T, options?: CacheSetOptions): Promise<void> {
+    const ttl = options?.ttlMs ?? this.defaultTtlMs;
+    const now = Date.now();
+    const entry: CacheEntry<T> = { value, storedAt: now, expiresAt: now + ttl };
+    try {
+      const client = await this.client;
+      await client.set(this.keyPrefix + key, JSON.stringify(entry), {
+        expiration: { type: "PX", value: ttl + (options?.staleTtlMs ?? 0) },
+      });
+      this.recorder.write(key, options?.prewarmed ?? false);
+    } catch (err) {
+      log.warn({ err, key }, "Redis set failed; value not cached");
+    }
+  }
+
+  async peek<T = unknown>(key: string): Promise<CacheEntry<T> | undefined> {
+    return this.read<T>(key);
+  }
+
+  async keys(prefix = ""): Promise<string[]> {
+    try {
+      const client = await this.client;
+      const found: string[] = [];
+      for await (const keys of this.scanKeys(client, prefix)) {
+        found.push(...keys.map((key) => key.slice(this.keyPrefix.length)));
+      }
+      return found;
+    } catch (err) {
+      log.warn({ err, prefix }, "Redis keys failed");
+      return [];
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      const client = await this.client;
+      this.recorder.remove(key);
+      return (await client.del(this.keyPrefix + key)) > 0;
+    } catch (err) {
+      log.warn({ err, key }, "Redis delete failed");
+      return false;
+    }
+  }
+
+  async deletePrefix(prefix: string): Promise<number> {
+    try {
+      const client = await this.client;
+      let removed = 0;
+      for await (const keys of this.scanKeys(client, prefix)) {
+        if (keys.length === 0) continue;
+        removed += await client.del(keys);
+        for (const key of keys) this.recorder.remove(key.slice(this.keyPrefix.length));
+      }
+      return removed;
+    } catch (err) {
+      log.warn({ err, prefix }, "Redis delete by prefix failed");
+      return 0;
+    }
+  }
+
+  /** Remove every key under this cache's prefix (other data in Redis is untouched). */
+  async clear(): Promise<void> {
+    try {
+      const client = await this.client;
+      for await (const keys of this.scanKeys(client)) {
+        if (keys.length > 0) await client.del(keys);
+      }
+      this.recorder.clear();
+    } catch (err) {
+      log.warn({ err }, "Redis clear failed");
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    const entry = await this.read(key);
+    return entry !== undefined && Date.now() <= entry.expiresAt;
+  }
+
+  /** Number of keys under this cache's prefix. */
+  async size(): Promise<number> {
+    try {
+      const client = await this.client;
+      let count = 0;
+      for await (const keys of this.scanKeys(client)) {
+        count += keys.length;
+      }
+      return count;
+    } catch (err) {
+      log.warn({ err }, "Redis size failed");
+      return 0;
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    return {
+      backend: "redis",
+      entries: await this.size(),
+      ...this.recorder.snapshot(),
+    };
+  }
+
+  counters(): CacheCounters {
+    return this.recorder.totals();
+  }
+
+  /** Close the Redis connection (shutdown / tests). */
+  dispose(): void {
+    this.client
+      .then((client) => client.close())
+      .catch((err) => log.warn({ err }, "Redis close failed"));
+  }
+
+  /** Read and decode an envelope without touching the counters. */
+  private async read<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      const client = await this.client;
+      const raw = await client.get(this.keyPrefix + key);
+      return raw === null ? undefined : (JSON.parse(raw) as CacheEntry<T>);
+    } catch (err) {
+      log.warn({ err, key }, "Redis get failed; treating as cache miss");
+      return undefined;
+    }
+  }
+
+  /** Iterate keys (with the cache prefix) starting with `prefix`, in SCAN batches. */
+  private scanKeys(client: RedisClient, prefix = ""): AsyncIterable<string[]> {
+    return client.scanIterator({ MATCH: `${escapeGlob(this.keyPrefix + prefix)}*`, COUNT: SCAN_COUNT });
+  }
+}
+
+/**
+ * Create a `RedisCache` connected to `url`.
+ *
+ * Connection errors are logged; node-redis reconnects automatically.
+ */
+export function createRedisCache(url: string, options: RedisCacheOptions): RedisCache {
+  const client = createClient({ url });
+  client.on("error", (err) => log.warn({ err }, "Redis client error"));
+
+  const connected = client.connect().then((): RedisClient => {
+    log.info("Connected to Redis cache");
+    return client;
+  });
+
+  return new RedisCache(connected, options);
+}
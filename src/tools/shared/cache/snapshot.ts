@@ -0,0 +1,163 @@
+/**
+ * tools/shared/cache/snapshot.ts — Disk snapshots of the in-memory cache.
+ *
+ * A restart (e.g. a deploy) otherwise begins with an empty cache, and the
+ * first minutes send every geocoding lookup upstream again. When
+ * `config.cache.snapshotPath` is set, unexpired entries are written to that
+ * file periodically and on shutdown, and reloaded on startup. Long-lived
+ * entries such as `TTL_STATIC` geocoding results are the ones that survive
+ * a restart in practice.
+ *
+ * Writes are corruption-safe: the snapshot goes to a temporary file that
+ * is fsynced and then renamed over the old one, so a crash mid-write
+ * leaves the previous snapshot intact. A file that still fails to parse
+ * or validate is moved aside and ignored.
+ *
+ * Redis already outlives restarts, so snapshots apply to the memory
+ * backend only.
+ */
+
+import { open, readFile, rename, mkdir, rm } from "node:fs/promises";
+import { dirname } from "node:path";
+import { z } from "zod";
+import { config } from "../../../config/index.js";
+import { logger } from "../../../shared/index.js";
+import { getCache, InMemoryCache } from "./index.js";
+import type { CacheSnapshotEntry } from "./types.js";
+
+const log = logger.child({ module: "cache-snapshot" });
+
+const SNAPSHOT_VERSION = 1;
+
+const snapshotSchema = z.object({
+  version: z.literal(SNAPSHOT_VERSION),
+  savedAt: z.number(),
+  entries: z.array(
+    z.object({
+      key: z.string(),
+      value: z.unknown(),
+      storedAt: z.number(),
+      expiresAt: z.number(),
+      retainUntil: z.number(),
+    })
+  ),
+});
+
+/**
+ * Write a cache's unexpired entries to `path` atomically.
+ *
+ * @returns the number of entries written
+ */
+export async function writeCacheSnapshot(cache: InMemoryCache, path: string): Promise<number> {
+  const entries = cache.exportEntries();
+  const body = JSON.stringify({ version: SNAPSHOT_VERSION, savedAt: Date.now(), entries });
+  const tempPath = `${path}.${process.pid}.tmp`;
+
+  await mkdir(dirname(path), { recursive: true });
+  const file = await open(tempPath, "w");
+  try {
+    await file.writeFile(body, "utf8");
+    await file.sync();
+  } catch (error) {
+    await file.close();
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+  await file.close();
+  await rename(tempPath, path);
+
+  return entries.length;
+}
+
+/**
+ * Load a snapshot from `path` into a cache.
+ *
+ * A missing file restores nothing. An unreadable or invalid one is renamed
+ * to `<path>.corrupt` (so the next write doesn't destroy the evidence) and
+ * restores nothing.
+ *
+ * @returns the number of entries restored
+ */
+export async function readCacheSnapshot(cache: InMemoryCache, path: string): Promise<number> {
+  let body: string;
+  try {
+    body = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return 0;
+    throw error;
+  }
+
+  let parsed: z.infer<typeof snapshotSchema>;
+  try {
+    parsed = snapshotSchema.parse(JSON.parse(body));
+  } catch (error) {
+    log.warn({ err: error, path }, "Cache snapshot is corrupt; ignoring it");
+    await rename(path, `${path}.corrupt`).catch(() => undefined);
+    return 0;
+  }
+
+  return cache.importEntries(parsed.entries as CacheSnapshotEntry[]);
+}
+
+// ─── Lifecycle ───────────────────────────────────────────────────────────────
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+/** The cache singleton when snapshots apply to it (path set, memory backend). */
+function snapshotTarget(): { cache: InMemoryCache; path: string } | null {
+  const path = config.cache.snapshotPath;
+  const cache = getCache();
+  return path && cache instanceof InMemoryCache ? { cache, path } : null;
+}
+
+/** Write a snapshot of the cache singleton, logging rather than throwing on failure. */
+async function saveSnapshot(): Promise<void> {
+  const target = snapshotTarget();
+  if (!target) return;
+
+  try {
+    const entries = await writeCacheSnapshot(target.cache, target.path);
+    log.debug({ path: target.path, entries }, "Cache snapshot written");
+  } catch (error) {
+    log.warn({ err: error, path: target.path }, "Failed to write cache snapshot");
+  }
+}
+
+/**
+ * Reload the cache singleton from the snapshot file, if configured.
+ * Never throws: a failed restore just means starting with an empty cache.
+ */
+export async function restoreCacheSnapshot(): Promise<number> {
+  const target = snapshotTarget();
+  if (!target) return 0;
+
+  try {
+    const restored = await readCacheSnapshot(target.cache, target.path);
+    log.info({ path: target.path, entries: restored }, "Cache restored from snapshot");
+    return restored;
+  } catch (error) {
+    log.warn({ err: error, path: target.path }, "Failed to read cache snapshot");
+    return 0;
+  }
+}
+
+/**
+ * Start writing snapshots every `config.cache.snapshotIntervalMs`.
+ */
+export function startCacheSnapshots(): void {
+  if (timer || !snapshotTarget()) return;
+
+  timer = setInterval(() => void saveSnapshot(), config.cache.snapshotIntervalMs);
+  // Allow the process to exit even if the timer is running
+  timer.unref();
+}
+
+/**
+ * Stop periodic snapshots and write a final one (shutdown).
+ */
+export async function stopCacheSnapshots(): Promise<void> {
+  if (!timer) return;
+  clearInterval(timer);
+  timer = null;
+  await saveSnapshot();
+}
@@ -0,0 +1,109 @@
+/**
+ * tools/shared/cache/stats.ts — Per-prefix cache counters.
+ *
+ * Shared by every cache backend so `Cache.stats()` reports the same
+ * shape regardless of where the entries live. Counters, and the set of
+ * keys written by cache warming, are process-local.
+ */
+
+import type { CacheCounters } from "./types.js";
+
+/**
+ * Group a cache key for statistics.
+ *
+ * URL keys (the common case — `cachedFetchJson` keys by URL) are grouped
+ * by host and path, so every forecast request lands under
+ * `api.open-meteo.com/v1/forecast` regardless of its query string.
+ * Other keys are grouped by the text before the first `:`.
+ */
+export function cacheKeyPrefix(key: string): string {
+  if (key.startsWith("http://") || key.startsWith("https://")) {
+    try {
+      const url = new URL(key);
+      return `${url.host}${url.pathname}`;
+    } catch {
+      // Fall through to the generic rule
+    }
+  }
+  const separator = key.indexOf(":");
+  return separator === -1 ? key : key.slice(0, separator);
+}
+
+function emptyCounters(): CacheCounters {
+  return { hits: 0, misses: 0, evictions: 0, staleServes: 0 };
+}
+
+/**
+ * Accumulates counters per key prefix and tracks prewarmed keys.
+ */
+export class CacheStatsRecorder {
+  private counters = new Map<string, CacheCounters>();
+  private prewarmedKeys = new Set<string>();
+
+  hit(key: string): void {
+    this.bump(key, "hits");
+  }
+
+  miss(key: string): void {
+    this.bump(key, "misses");
+  }
+
+  eviction(key: string): void {
+    this.bump(key, "evictions");
+  }
+
+  staleServe(key: string): void {
+    this.bump(key, "staleServes");
+  }
+
+  /** A value was written; it stays "prewarmed" until overwritten by a tool call. */
+  write(key: string, prewarmed: boolean): void {
+    if (prewarmed) {
+      this.prewarmedKeys.add(key);
+    } else {
+      this.prewarmedKeys.delete(key);
+    }
+  }
+
+  /** A key was deleted, evicted or pruned. */
+  remove(key: string): void {
+    this.prewarmedKeys.delete(key);
+  }
+
+  /** Every key was removed. */
+  clear(): void {
+    this.prewarmedKeys.clear();
+  }
+
+  /** Counters summed over every prefix. */
+  totals(): CacheCounters {
+    const totals = emptyCounters();
+    for (const counters of this.counters.values()) {
+      totals.hits += counters.hits;
+      totals.misses += counters.misses;
+      totals.evictions += counters.evictions;
+      totals.staleServes += counters.staleServes;
+    }
+    return totals;
+  }
+
+  /** Copy of the per-prefix counters plus their totals, and the prewarmed keys. */
+  snapshot(): { totals: CacheCounters; prefixes: Record<string, CacheCounters>; prewarmed: string[] } {
+    const prefixes: Record<string, CacheCounters> = {};
+    for (const [prefix, counters] of this.counters) {
+      prefixes[prefix] = { ...counters };
+    }
+
+    return { totals: this.totals(), prefixes, prewarmed: [...this.prewarmedKeys] };
+  }
+
+  private bump(key: string, counter: keyof CacheCounters): void {
+    const prefix = cacheKeyPrefix(key);
+    let counters = this.counters.get(prefix);
+    if (!counters) {
+      counters = emptyCounters();
+      this.counters.set(prefix, counters);
+    }
+    counters[counter]++;
+  }
+}
@@ -9,14 +9,67 @@
 /** A single cached entry with its value and expiry metadata. */
 export interface CacheEntry<T = unknown> {
   value: T;
+  /** Absolute timestamp (ms since epoch) when this entry was stored. */
+  storedAt: number;
   /** Absolute timestamp (ms since epoch) when this entry expires. */
   expiresAt: number;
 }
 
+/** An entry as written to a cache snapshot file. */
+export interface CacheSnapshotEntry<T = unknown> extends CacheEntry<T> {
+  key: string;
+  /** Absolute timestamp until which the entry may be served stale. */
+  retainUntil: number;
+}
+
 /** Options for a cache `set` call. */
 export interface CacheSetOptions {
   /** Time-to-live in milliseconds. Overrides the default TTL. */
   ttlMs?: number;
+  /**
+   * Keep the entry this long after it expires so `getEntry` can still
+   * serve it stale. Plain `get` / `has` ignore expired entries regardless.
+   */
+  staleTtlMs?: number;
+  /** Written by cache warming rather than a tool call (reported in stats). */
+  prewarmed?: boolean;
+}
+
+/** Options for a cache `getEntry` call. */
+export interface CacheGetOptions {
+  /** Also return an entry expired by at most this many ms (counted as a stale serve). */
+  maxStaleMs?: number;
+}
+
+/** Counters tracked per key prefix (and in total). */
+export interface CacheCounters {
+  /** Lookups that found a live entry. */
+  hits: number;
+  /** Lookups that found nothing usable (missing, or expired past any allowed staleness). */
+  misses: number;
+  /** Entries removed to stay within the entry / byte budget. */
+  evictions: number;
+  /** Values served after their TTL had passed. */
+  staleServes: number;
+}
+
+/** Snapshot returned by `Cache.stats()`. */
+export interface CacheStats {
+  backend: "memory" | "redis";
+  /** Number of entries held (see `Cache.size`). */
+  entries: number;
+  /** Approximate bytes held (in-memory backend only). */
+  bytes?: number;
+  /** Configured entry budget (in-memory backend only). */
+  maxEntries?: number;
+  /** Configured byte budget (in-memory backend only). */
+  maxBytes?: number;
+  /** Counters summed over every prefix. */
+  totals: CacheCounters;
+  /** Counters keyed by prefix (see `cacheKeyPrefix`). */
+  prefixes: Record<string, CacheCounters>;
+  /** Keys whose current value was written by cache warming (this process only). */
+  prewarmed: string[];
 }
 
 /**
@@ -29,18 +82,42 @@ export interface Cache {
   /** Retrieve a value, or `undefined` if missing / expired. */
   get<T = unknown>(key: string): Promise<T | undefined>;
 
+  /**
+   * Retrieve an entry with its timestamps. With `maxStaleMs`, an expired
+   * entry still within that window is returned; check `expiresAt` to tell.
+   */
+  getEntry<T = unknown>(key: string, options?: CacheGetOptions): Promise<CacheEntry<T> | undefined>;
+
   /** Store a value with an optional per-key TTL override. */
   set<T = unknown>(key: string, value: T, options?: CacheSetOptions): Promise<void>;
 
+  /**
+   * Retrieve an entry, expired or not, without counting a hit or miss or
+   * refreshing its recency (admin inspection).
+   */
+  peek<T = unknown>(key: string): Promise<CacheEntry<T> | undefined>;
+
+  /** Keys starting with `prefix` (all keys when empty), including expired ones kept for stale serving. */
+  keys(prefix?: string): Promise<string[]>;
+
   /** Remove a single key. */
   delete(key: string): Promise<boolean>;
 
+  /** Remove every key starting with `prefix`; returns how many were removed. */
+  deletePrefix(prefix: string): Promise<number>;
+
   /** Remove all entries. */
   clear(): Promise<void>;
 
   /** Check if a non-expired entry exists. */
   has(key: string): Promise<boolean>;
 
-  /** Number of live (non-expired) entries. */
+  /** Number of entries held, including expired ones kept for stale serving. */
   size(): Promise<number>;
+
+  /** Hit / miss / eviction / stale-serve counters since startup. */
+  stats(): Promise<CacheStats>;
+
+  /** Counter totals alone, without touching the backing store (metrics scrapes). */
+  counters(): CacheCounters;
 }
@@ -0,0 +1,142 @@
+/**
+ * tools/shared/circuit-breaker.ts — Per-host circuit breakers for upstream APIs.
+ *
+ * Each upstream host gets its own breaker:
+ * - closed    — requests flow; consecutive failures are counted
+ * - open      — after `failureThreshold` failures, requests fail fast
+ *               until `resetTimeoutMs` has passed
+ * - half-open — one trial request is let through; success closes the
+ *               circuit, failure re-opens it
+ *
+ * Breaker state is reported on the health endpoint via `getCircuitStates()`.
+ */
+
+import { config } from "../../config/index.js";
+import { logger } from "../../shared/index.js";
+
+const log = logger.child({ module: "circuit-breaker" });
+
+/** Hosts reported on the health endpoint even before their first request. */
+export const UPSTREAM_HOSTS = [
+  "api.open-meteo.com",
+  "air-quality-api.open-meteo.com",
+  "marine-api.open-meteo.com",
+  "geocoding-api.open-meteo.com",
+] as const;
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/** Health-endpoint view of one breaker. */
+export interface CircuitStatus {
+  state: CircuitState;
+  /** Consecutive failures since the last success. */
+  failures: number;
+  /** When an open circuit next lets a trial request through (ISO 8601). */
+  retryAt?: string;
+}
+
+/** Options for `CircuitBreaker`. */
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+/**
+ * Circuit breaker for a single upstream host.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    readonly host: string,
+    private options: CircuitBreakerOptions
+  ) {}
+
+  /** Current state; an open circuit turns half-open once its timeout passes. */
+  get state(): CircuitState {
+    if (this.openedAt === null) return "closed";
+    return Date.now() - this.openedAt >= this.options.resetTimeoutMs ? "half-open" : "open";
+  }
+
+  /**
+   * Check whether a request may proceed.
+   *
+   * In the half-open state only one trial request is admitted at a time.
+   */
+  allowRequest(): boolean {
+    const state = this.state;
+    if (state === "closed") return true;
+    if (state === "open" || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  /** Milliseconds until an open circuit admits a trial request. */
+  retryInMs(): number {
+    if (this.openedAt === null) return 0;
+    return Math.max(0, this.openedAt + this.options.resetTimeoutMs - Date.now());
+  }
+
+  recordSuccess(): void {
+    if (this.openedAt !== null) {
+      log.info({ host: this.host }, "Circuit closed");
+    }
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    const wasTrial = this.trialInFlight;
+    this.trialInFlight = false;
+
+    if (wasTrial || this.failures >= this.options.failureThreshold) {
+      if (this.openedAt === null || wasTrial) {
+        log.warn({ host: this.host, failures: this.failures }, "Circuit opened");
+      }
+      this.openedAt = Date.now();
+    }
+  }
+
+  status(): CircuitStatus {
+    const state = this.state;
+    return {
+      state,
+      failures: this.failures,
+      ...(state === "open" && { retryAt: new Date(Date.now() + this.retryInMs()).toISOString() }),
+    };
+  }
+}
+
+// ─── Registry ───────────────────────────────────────────────────────────────
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/** Get (or create) the breaker for a host. */
+export function getCircuitBreaker(host: string): CircuitBreaker {
+  let breaker = breakers.get(host);
+  if (!breaker) {
+    breaker = new CircuitBreaker(host, {
+      failureThreshold: config.upstream.circuitFailureThreshold,
+      resetTimeoutMs: config.upstream.circuitResetMs,
+    });
+    breakers.set(host, breaker);
+  }
+  return breaker;
+}
+
+/** State of every known upstream host, keyed by host name. */
+export function getCircuitStates(): Record<string, CircuitStatus> {
+  for (const host of UPSTREAM_HOSTS) getCircuitBreaker(host);
+  return Object.fromEntries([...breakers].map(([host, breaker]) => [host, breaker.status()]));
+}
+
+/**
+ * Reset all breakers (for tests).
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
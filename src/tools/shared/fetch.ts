@@ -1,11 +1,20 @@
 /**
- * tools/shared/fetch.ts — Shared fetch wrappers with timeout and caching.
+ * tools/shared/fetch.ts — Shared fetch wrappers with timeout, retries and caching.
  *
  * All external API calls in tools should use these wrappers
- * to ensure consistent timeout behaviour and response caching.
+ * to ensure consistent timeout, retry, circuit-breaking and
+ * response caching behaviour.
  */
 
-import { getCache, type CacheSetOptions } from "./cache/index.js";
+import { setTimeout as sleep } from "node:timers/promises";
+import { config } from "../../config/index.js";
+import { logger, upstreamRequestDuration, withSpan } from "../../shared/index.js";
+import { getCache, staleWindowsFor, type StaleWindows } from "./cache/index.js";
+import { getCircuitBreaker } from "./circuit-breaker.js";
+import { recordStaleServe } from "./freshness.js";
+import { warmingRefreshWindow } from "./warming.js";
+
+const log = logger.child({ module: "fetch" });
 
 /** Default request timeout in milliseconds (10 seconds). */
 const DEFAULT_TIMEOUT_MS = 10_000;
@@ -25,12 +34,116 @@ export function fetchWithTimeout(
   return fetch(url, { ...init, signal });
 }
 
+/** Options for `fetchWithRetry`. Defaults come from `config.upstream`. */
+export interface RetryOptions {
+  /** Timeout in milliseconds for each attempt (default: 10 000). */
+  timeoutMs?: number;
+  /** Extra attempts after the first. Only GET / HEAD requests are retried. */
+  retries?: number;
+  /** Base for the exponential backoff between attempts. */
+  retryBaseMs?: number;
+  /** Longest single wait; a longer `Retry-After` ends the retries. */
+  retryMaxMs?: number;
+}
+
+/** Statuses worth retrying: rate limiting and server-side failures. */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/** Full-jitter exponential backoff: random delay up to base × 2^attempt, capped. */
+function backoffMs(attempt: number, baseMs: number, maxMs: number): number {
+  return Math.random() * Math.min(maxMs, baseMs * 2 ** attempt);
+}
+
+/**
+ * Fetch through the host's circuit breaker, retrying transient failures.
+ *
+ * - Fails fast without a network call while the host's circuit is open.
+ * - Network errors, timeouts, 429 and 5xx responses are retried for
+ *   GET / HEAD requests with jittered exponential backoff.
+ * - On 429 / 503 a `Retry-After` header replaces the backoff; if it asks
+ *   for longer than `retryMaxMs`, the response is returned as-is.
+ * - The final outcome (not each attempt) is recorded on the breaker.
+ *
+ * Resolves with the last response even when it is not ok, like `fetch`.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init?: RequestInit,
+  options?: RetryOptions,
+): Promise<Response> {
+  const host = new URL(url).host;
+  const breaker = getCircuitBreaker(host);
+
+  if (!breaker.allowRequest()) {
+    const retryIn = Math.ceil(breaker.retryInMs() / 1000);
+    throw new Error(`${host} is unavailable (circuit open, retrying in ${retryIn}s)`);
+  }
+
+  const method = (init?.method ?? "GET").toUpperCase();
+  const retries = method === "GET" || method === "HEAD" ? (options?.retries ?? config.upstream.retries) : 0;
+  const retryBaseMs = options?.retryBaseMs ?? config.upstream.retryBaseMs;
+  const retryMaxMs = options?.retryMaxMs ?? config.upstream.retryMaxMs;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    const stopTimer = upstreamRequestDuration.startTimer({ host });
+    try {
+      response = await fetchWithTimeout(url, init, options?.timeoutMs);
+      stopTimer({ status: String(response.status) });
+    } catch (error) {
+      stopTimer({ status: "error" });
+      if (attempt >= retries) {
+        breaker.recordFailure();
+        throw error;
+      }
+      log.debug({ err: error, url, attempt }, "Upstream request failed; retrying");
+      await sleep(backoffMs(attempt, retryBaseMs, retryMaxMs));
+      continue;
+    }
+
+    if (!isRetryableStatus(response.status)) {
+      breaker.recordSuccess();
+      return response;
+    }
+
+    const retryAfter =
+      response.status === 429 || response.status === 503
+        ? parseRetryAfter(response.headers.get("retry-after"))
+        : null;
+    const delay = retryAfter ?? backoffMs(attempt, retryBaseMs, retryMaxMs);
+
+    if (attempt >= retries || delay > retryMaxMs) {
+      breaker.recordFailure();
+      return response;
+    }
+
+    log.debug({ url, status: response.status, attempt, delay }, "Upstream returned retryable status; retrying");
+    await response.body?.cancel();
+    await sleep(delay);
+  }
+}
+
 /** Options for `cachedFetchJson`. */
 export interface CachedFetchOptions {
-  /** Timeout in milliseconds for the HTTP request (default: 10 000). */
+  /** Timeout in milliseconds for each HTTP attempt (default: 10 000). */
   timeoutMs?: number;
   /** Cache TTL in milliseconds (default: cache's default, 5 min). */
   ttlMs?: number;
+  /** Extra request headers (not part of the cache key). */
+  headers?: Record<string, string>;
 }
 
 /**
@@ -42,39 +155,25 @@ export interface CachedFetchOptions {
 const inflight = new Map<string, Promise<unknown>>();
 
 /**
- * Fetch JSON with caching, deduplication, and timeout.
- *
- * - Cache key is the full URL string.
- * - On cache hit the network call is skipped entirely.
- * - On cache miss, concurrent callers for the same URL share a single
- *   in-flight fetch rather than issuing duplicate requests.
- * - Only successful (response.ok) responses are cached.
+ * Fetch a URL and cache the parsed JSON, sharing any in-flight request.
  *
- * Use this for GET requests to external APIs (weather, geocoding, etc.)
- * where repeated identical requests within a short window return the
- * same data.
+ * Entries are kept past their TTL for the tier's longest stale window.
  */
-export async function cachedFetchJson<T = unknown>(
+function fetchAndCache<T>(
   url: string,
-  options?: CachedFetchOptions,
+  options: CachedFetchOptions | undefined,
+  windows: StaleWindows,
+  prewarmed: boolean = false
 ): Promise<T> {
-  const cache = getCache();
-
-  // Check cache first
-  const cached = await cache.get<T>(url);
-  if (cached !== undefined) {
-    return cached;
-  }
-
   // If an identical request is already in-flight, wait for it
   const pending = inflight.get(url);
   if (pending) {
     return pending as Promise<T>;
   }
 
-  // Cache miss — fetch from network
   const request = (async (): Promise<T> => {
-    const response = await fetchWithTimeout(url, undefined, options?.timeoutMs);
+    const init = options?.headers ? { headers: options.headers } : undefined;
+    const response = await fetchWithRetry(url, init, { timeoutMs: options?.timeoutMs });
 
     if (!response.ok) {
       const host = new URL(url).host;
@@ -84,19 +183,98 @@ export async function cachedFetchJson<T = unknown>(
     const data = (await response.json()) as T;
 
     // Cache the parsed result
-    const setOptions: CacheSetOptions | undefined = options?.ttlMs
-      ? { ttlMs: options.ttlMs }
-      : undefined;
-    await cache.set(url, data, setOptions);
+    await getCache().set(url, data, {
+      ttlMs: options?.ttlMs,
+      staleTtlMs: Math.max(windows.staleWhileRevalidateMs, windows.staleIfErrorMs),
+      prewarmed,
+    });
 
     return data;
   })();
 
   inflight.set(url, request);
+  request.then(
+    () => inflight.delete(url),
+    () => inflight.delete(url)
+  );
 
-  try {
-    return await request;
-  } finally {
-    inflight.delete(url);
-  }
+  return request;
+}
+
+/**
+ * Fetch JSON with caching, deduplication, and timeout.
+ *
+ * - Cache key is the full URL string.
+ * - On a fresh cache hit the network call is skipped entirely.
+ * - Within the TTL tier's stale-while-revalidate window, the expired
+ *   value is returned immediately and refreshed in the background.
+ * - On cache miss, concurrent callers for the same URL share a single
+ *   in-flight fetch rather than issuing duplicate requests.
+ * - Network requests go through `fetchWithRetry` (retries with backoff
+ *   and the host's circuit breaker).
+ * - If that fetch fails, an expired value within the tier's
+ *   stale-if-error window is returned instead of the error.
+ * - Only successful (response.ok) responses are cached.
+ *
+ * Stale serves are recorded for the current tool call (see
+ * `withFreshness`) so the output can say how old the data is.
+ *
+ * During cache warming (see `runWarming`), entries that would expire
+ * within the warming window are refetched rather than served.
+ *
+ * An entry counts as expired once it is older than the caller's `ttlMs`,
+ * even if it was stored with a longer TTL (a URL shared by tools with
+ * different freshness needs, see `fetchForecastData`).
+ *
+ * Each call is traced as a span tagged with the upstream host and
+ * `cache.result`: hit, stale, miss, refresh (warming, or an entry too old
+ * for this caller) or stale-if-error.
+ *
+ * Use this for GET requests to external APIs (weather, geocoding, etc.)
+ * where repeated identical requests within a short window return the
+ * same data.
+ */
+export async function cachedFetchJson<T = unknown>(
+  url: string,
+  options?: CachedFetchOptions,
+): Promise<T> {
+  const { host, pathname } = new URL(url);
+
+  return withSpan("cachedFetchJson", { "server.address": host, "url.path": pathname }, async (span) => {
+    const cache = getCache();
+    const windows = staleWindowsFor(options?.ttlMs);
+    const refreshWithinMs = warmingRefreshWindow();
+    const warming = refreshWithinMs !== undefined;
+
+    // Check cache first, accepting entries within the revalidation window
+    const entry = await cache.getEntry<T>(url, { maxStaleMs: windows.staleWhileRevalidateMs });
+    const expiresAt = entry ? Math.min(entry.expiresAt, entry.storedAt + (options?.ttlMs ?? Infinity)) : 0;
+    const cached = entry && Date.now() - expiresAt <= windows.staleWhileRevalidateMs ? entry : undefined;
+    if (cached && (!warming || expiresAt - Date.now() > refreshWithinMs)) {
+      if (Date.now() > expiresAt) {
+        span.setAttribute("cache.result", "stale");
+        recordStaleServe(url, cached.storedAt, "revalidating");
+        fetchAndCache<T>(url, options, windows).catch((err) => {
+          log.warn({ err, url }, "Background revalidation failed");
+        });
+      } else {
+        span.setAttribute("cache.result", "hit");
+      }
+      return cached.value;
+    }
+
+    // Cache miss (or due for a warming refresh) — fetch from network
+    span.setAttribute("cache.result", entry ? "refresh" : "miss");
+    try {
+      return await fetchAndCache<T>(url, options, windows, warming);
+    } catch (error) {
+      const fallback = await cache.getEntry<T>(url, { maxStaleMs: windows.staleIfErrorMs });
+      if (!fallback) throw error;
+
+      log.warn({ err: error, url }, "Upstream fetch failed; serving stale response");
+      span.setAttribute("cache.result", "stale-if-error");
+      recordStaleServe(url, fallback.storedAt, "upstream error");
+      return fallback.value;
+    }
+  });
 }
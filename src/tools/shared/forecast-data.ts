@@ -0,0 +1,285 @@
+/**
+ * tools/shared/forecast-data.ts — Coalesced Open-Meteo forecast requests.
+ *
+ * Many tools read overlapping variables from `api.open-meteo.com/v1/forecast`
+ * for the same place — fire weather, severe weather and outdoor conditions
+ * all want the current temperature and wind, for example. Fetched with one
+ * URL per tool, the URL-keyed cache never shares them. Instead, per
+ * coordinate and unit system, this layer:
+ * - remembers the union of variables and days requested recently (the
+ *   "coverage", stored in the cache so replicas share it, for up to
+ *   TTL_FORECAST from the first request),
+ * - serves any request inside that coverage from the one combined URL,
+ * - merges requests outside it, plus any arriving within a short window,
+ *   into a single upstream call for the widened coverage, and
+ * - slices the combined response back to each caller's variables and
+ *   time window, so callers see the shape a dedicated request returned.
+ *
+ * Callers sharing the combined URL may ask for different TTLs; each gets
+ * data no older than its own (see `cachedFetchJson`).
+ */
+
+import { setTimeout as sleep } from "node:timers/promises";
+import { cachedFetchJson } from "./fetch.js";
+import { getCache, TTL_FORECAST, TTL_REALTIME } from "./cache/index.js";
+import { getUnitParams, type UnitSystem } from "./units.js";
+
+const FORECAST_URL = "https://api.open-meteo.com/v1/forecast";
+
+/** How long a request waits for others to join its upstream call. */
+const COALESCE_WINDOW_MS = 10;
+
+/** Open-Meteo's default and maximum forecast length in days. */
+const DEFAULT_FORECAST_DAYS = 7;
+const MAX_FORECAST_DAYS = 16;
+
+/** Variables and time window a tool needs from the forecast API. */
+export interface ForecastDataRequest {
+  current?: readonly string[];
+  hourly?: readonly string[];
+  daily?: readonly string[];
+  /** Days of history before today in the daily and hourly blocks (default 0). */
+  pastDays?: number;
+  /** Days from today, including today (default 7). */
+  forecastDays?: number;
+  /** Return hourly data as this many hours from the current hour instead of whole days. */
+  forecastHours?: number;
+}
+
+/** Options for `fetchForecastData`. */
+export interface ForecastDataOptions {
+  /** Cache TTL in milliseconds (default: TTL_REALTIME). */
+  ttlMs?: number;
+}
+
+/** Variables and days one upstream URL covers. Variable lists are sorted. */
+interface Coverage {
+  current: string[];
+  hourly: string[];
+  daily: string[];
+  pastDays: number;
+  forecastDays: number;
+}
+
+/** The parts of a forecast response this layer reads and slices. */
+interface ForecastData {
+  utc_offset_seconds?: number;
+  current?: Record<string, unknown>;
+  current_units?: Record<string, string>;
+  hourly?: Record<string, unknown[]>;
+  hourly_units?: Record<string, string>;
+  daily?: Record<string, unknown[]>;
+  daily_units?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/** Where a request's data comes from: the combined URL and what it covers. */
+interface Source {
+  url: string;
+  coverage: Coverage;
+  ttlMs: number;
+}
+
+interface Batch {
+  coverage: Coverage;
+  ttlMs: number;
+  source: Promise<Source>;
+}
+
+/** Requests waiting to share an upstream call, keyed by coverage key. */
+const batches = new Map<string, Batch>();
+
+// ─── Coverage ────────────────────────────────────────────────────────────────
+
+function union(a: readonly string[], b: readonly string[]): string[] {
+  return [...new Set([...a, ...b])].sort();
+}
+
+/** Coverage a single request needs. Hourly ranges are widened to whole days. */
+function coverageFor(request: ForecastDataRequest): Coverage {
+  const hoursDays = request.forecastHours ? Math.ceil(request.forecastHours / 24) + 1 : 0;
+
+  return {
+    current: union([], request.current ?? []),
+    hourly: union([], request.hourly ?? []),
+    daily: union([], request.daily ?? []),
+    pastDays: request.pastDays ?? 0,
+    forecastDays: Math.min(
+      Math.max(request.forecastDays ?? DEFAULT_FORECAST_DAYS, hoursDays),
+      MAX_FORECAST_DAYS
+    ),
+  };
+}
+
+function mergeCoverage(a: Coverage, b: Coverage): Coverage {
+  return {
+    current: union(a.current, b.current),
+    hourly: union(a.hourly, b.hourly),
+    daily: union(a.daily, b.daily),
+    pastDays: Math.max(a.pastDays, b.pastDays),
+    forecastDays: Math.max(a.forecastDays, b.forecastDays),
+  };
+}
+
+function covers(outer: Coverage, inner: Coverage): boolean {
+  return (
+    inner.current.every((v) => outer.current.includes(v)) &&
+    inner.hourly.every((v) => outer.hourly.includes(v)) &&
+    inner.daily.every((v) => outer.daily.includes(v)) &&
+    outer.pastDays >= inner.pastDays &&
+    outer.forecastDays >= inner.forecastDays
+  );
+}
+
+function forecastUrl(latitude: number, longitude: number, units: UnitSystem, coverage: Coverage): string {
+  const params = new URLSearchParams({
+    latitude: latitude.toString(),
+    longitude: longitude.toString(),
+  });
+  for (const block of ["current", "hourly", "daily"] as const) {
+    if (coverage[block].length > 0) {
+      params.set(block, coverage[block].join(","));
+    }
+  }
+  for (const [key, value] of Object.entries(getUnitParams(units))) {
+    params.set(key, value);
+  }
+  params.set("timezone", "auto");
+  if (coverage.pastDays > 0) {
+    params.set("past_days", coverage.pastDays.toString());
+  }
+  params.set("forecast_days", coverage.forecastDays.toString());
+
+  return `${FORECAST_URL}?${params}`;
+}
+
+/**
+ * Join (or start) the batch for a key. When the window closes, the stored
+ * coverage is widened by every request in the batch.
+ */
+function joinBatch(
+  key: string,
+  required: Coverage,
+  ttlMs: number,
+  latitude: number,
+  longitude: number,
+  units: UnitSystem
+): Batch {
+  const existing = batches.get(key);
+  if (existing) {
+    existing.coverage = mergeCoverage(existing.coverage, required);
+    existing.ttlMs = Math.min(existing.ttlMs, ttlMs);
+    return existing;
+  }
+
+  const batch: Batch = {
+    coverage: required,
+    ttlMs,
+    source: sleep(COALESCE_WINDOW_MS).then(async () => {
+      batches.delete(key);
+      const cache = getCache();
+      const known = await cache.getEntry<Coverage>(key);
+      const coverage = known ? mergeCoverage(known.value, batch.coverage) : batch.coverage;
+      // Stored before the fetch so requests arriving meanwhile share it.
+      // Widening keeps the stored expiry, so coverage built up by one large
+      // request shrinks back to what is still being asked for once it lapses.
+      const coverageTtlMs = known ? Math.max(known.expiresAt - Date.now(), 1) : TTL_FORECAST;
+      await cache.set(key, coverage, { ttlMs: coverageTtlMs });
+      return { url: forecastUrl(latitude, longitude, units, coverage), coverage, ttlMs: batch.ttlMs };
+    }),
+  };
+  batches.set(key, batch);
+  return batch;
+}
+
+// ─── Slicing ─────────────────────────────────────────────────────────────────
+
+function pick<V>(block: Record<string, V> | undefined, keys: readonly string[]): Record<string, V> {
+  if (!block) return {};
+  return Object.fromEntries(keys.filter((key) => key in block).map((key) => [key, block[key]]));
+}
+
+function pickRows(
+  block: Record<string, unknown[]> | undefined,
+  keys: readonly string[],
+  rows: (time: string[]) => [number, number]
+): Record<string, unknown[]> {
+  const picked = pick(block, ["time", ...keys]);
+  if (!picked.time) return picked;
+  const [start, end] = rows(picked.time as string[]);
+  return Object.fromEntries(Object.entries(picked).map(([key, values]) => [key, values.slice(start, end)]));
+}
+
+/** Row range of whole days, skipping history the caller did not ask for. */
+function dayRows(times: string[], skipDays: number, days: number): [number, number] {
+  const dates = new Set([...new Set(times.map((time) => time.slice(0, 10)))].slice(skipDays, skipDays + days));
+  const inWindow = (time: string) => dates.has(time.slice(0, 10));
+  const start = times.findIndex(inWindow);
+  return start === -1 ? [0, 0] : [start, start + times.filter(inWindow).length];
+}
+
+/** Row range of `hours` hours starting at the current local hour. */
+function hourRows(times: string[], hours: number, utcOffsetSeconds: number): [number, number] {
+  const now = `${new Date(Date.now() + utcOffsetSeconds * 1000).toISOString().slice(0, 13)}:00`;
+  const start = Math.max(0, times.findIndex((time) => time >= now));
+  return [start, start + hours];
+}
+
+/** Cut a combined response down to one request's variables and window. */
+function selectForecastData(data: ForecastData, request: ForecastDataRequest, coverage: Coverage): ForecastData {
+  const { current, current_units, hourly, hourly_units, daily, daily_units, ...rest } = data;
+  const result: ForecastData = rest;
+  const pastDays = request.pastDays ?? 0;
+  const skipDays = coverage.pastDays - pastDays;
+  const days = pastDays + (request.forecastDays ?? DEFAULT_FORECAST_DAYS);
+
+  if (request.current) {
+    result.current = pick(current, ["time", "interval", ...request.current]);
+    result.current_units = pick(current_units, ["time", "interval", ...request.current]);
+  }
+  if (request.hourly) {
+    const hours = request.forecastHours;
+    result.hourly = pickRows(hourly, request.hourly, (times) =>
+      hours ? hourRows(times, hours, data.utc_offset_seconds ?? 0) : dayRows(times, skipDays, days)
+    );
+    result.hourly_units = pick(hourly_units, ["time", ...request.hourly]);
+  }
+  if (request.daily) {
+    result.daily = pickRows(daily, request.daily, (times) => dayRows(times, skipDays, days));
+    result.daily_units = pick(daily_units, ["time", ...request.daily]);
+  }
+
+  return result;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Fetch forecast variables for a location through the shared, coalesced
+ * request for that location.
+ *
+ * The result has the shape of a dedicated Open-Meteo request with the
+ * same variables, `past_days`, `forecast_days` / `forecast_hours` and
+ * `timezone=auto`. Requests with a model or other extra parameters are
+ * not covered and should call the API directly.
+ */
+export async function fetchForecastData<T>(
+  latitude: number,
+  longitude: number,
+  units: UnitSystem,
+  request: ForecastDataRequest,
+  options?: ForecastDataOptions
+): Promise<T> {
+  const key = `forecast-coverage:${latitude},${longitude},${units}`;
+  const required = coverageFor(request);
+  const ttlMs = options?.ttlMs ?? TTL_REALTIME;
+
+  const known = await getCache().get<Coverage>(key);
+  const source: Source =
+    known && covers(known, required)
+      ? { url: forecastUrl(latitude, longitude, units, known), coverage: known, ttlMs }
+      : await joinBatch(key, required, ttlMs, latitude, longitude, units).source;
+
+  const data = await cachedFetchJson<ForecastData>(source.url, { ttlMs: source.ttlMs });
+  return selectForecastData(data, request, source.coverage) as T;
+}
@@ -0,0 +1,105 @@
+/**
+ * tools/shared/freshness.ts — Stale-data tracking for tool calls.
+ *
+ * `cachedFetchJson` may answer from an expired cache entry (stale-while-
+ * revalidate, or stale-if-error when the upstream fails). Tool handlers
+ * wrapped in `withFreshness` collect those stale serves for the duration
+ * of the call and report them: a note on the text report and a
+ * `staleData` list in the structured content.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { cacheKeyPrefix } from "./cache/index.js";
+
+/** Why an expired response was served. */
+export type StaleReason = "revalidating" | "upstream error";
+
+/** One upstream response served past its TTL. */
+export interface StaleSource {
+  /** Upstream endpoint (host and path). */
+  source: string;
+  /** Age of the cached response in seconds. */
+  ageSeconds: number;
+  reason: StaleReason;
+}
+
+/** Minimal shape of a tool handler result that `withFreshness` annotates. */
+interface ToolResult {
+  content: Array<{ type: string; text?: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+const storage = new AsyncLocalStorage<StaleSource[]>();
+
+/**
+ * Record that the response for `url` was served stale.
+ *
+ * No-op outside a `withFreshness` call (e.g. background refreshes).
+ */
+export function recordStaleServe(url: string, storedAt: number, reason: StaleReason): void {
+  const sources = storage.getStore();
+  if (!sources) return;
+
+  const source = cacheKeyPrefix(url);
+  const ageSeconds = Math.round((Date.now() - storedAt) / 1000);
+  const existing = sources.find((s) => s.source === source && s.reason === reason);
+
+  // Several requests to one endpoint collapse into its oldest response
+  if (existing) {
+    existing.ageSeconds = Math.max(existing.ageSeconds, ageSeconds);
+  } else {
+    sources.push({ source, ageSeconds, reason });
+  }
+}
+
+/** Human-readable age, e.g. "45 sec", "12 min", "3 hr 5 min". */
+export function formatAge(ageSeconds: number): string {
+  if (ageSeconds < 60) return `${ageSeconds} sec`;
+  const minutes = Math.floor(ageSeconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours} hr` : `${hours} hr ${rest} min`;
+}
+
+/** Note appended to a report that used stale data. */
+export function formatStalenessNote(sources: StaleSource[]): string {
+  const lines = ["Note: some data was served from cache after it expired:"];
+  for (const { source, ageSeconds, reason } of sources) {
+    const detail = reason === "upstream error" ? "upstream unavailable" : "refresh in progress";
+    lines.push(`- ${source}: ${formatAge(ageSeconds)} old (${detail})`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Wrap a tool handler so stale serves during the call are reported.
+ *
+ * Error results are passed through unchanged.
+ */
+export function withFreshness<Args extends unknown[], R extends ToolResult>(
+  handler: (...args: Args) => Promise<R>
+): (...args: Args) => Promise<R> {
+  return async (...args) => {
+    const sources: StaleSource[] = [];
+    const result = await storage.run(sources, () => handler(...args));
+
+    if (sources.length === 0 || result.isError) return result;
+
+    const note = formatStalenessNote(sources);
+    const content = [...result.content];
+    const index = content.findIndex((item) => item.type === "text");
+    if (index !== -1) {
+      content[index] = { ...content[index], text: `${content[index].text}\n\n${note}` };
+    }
+
+    return {
+      ...result,
+      content,
+      ...(result.structuredContent && {
+        structuredContent: { ...result.structuredContent, staleData: sources },
+      }),
+    };
+  };
+}
@@ -4,5 +4,11 @@
  * Re-exports geocoding functionality for use across multiple tools.
  */
 
-export { geocodeCity } from "../weather/api.js";
+export {
+  searchLocations,
+  geocodeCity,
+  geocodePostalCode,
+  getLocationById,
+  GEOCODING_SEARCH_COUNT,
+} from "../weather/api.js";
 export type { GeoResult, GeoResponse } from "../weather/types.js";
@@ -0,0 +1,45 @@
+/**
+ * tools/shared/instrumentation.ts — Per-tool call metrics and spans.
+ *
+ * `instrumentTools` wraps the callbacks of registered tools, so tool
+ * modules stay unaware of metrics and tracing. A call counts as an error
+ * when the handler throws or returns `isError`.
+ */
+
+import type { RegisteredTool, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { SpanStatusCode } from "@opentelemetry/api";
+import type { ZodRawShape } from "zod";
+import { toolCallsTotal, toolCallDuration, withSpan } from "../../shared/index.js";
+
+type AnyToolCallback = (...args: unknown[]) => CallToolResult | Promise<CallToolResult>;
+
+/** Wrap one tool callback to record its duration and outcome, inside a span. */
+function instrumentToolCallback(tool: string, cb: AnyToolCallback): AnyToolCallback {
+  return (...args) =>
+    withSpan(`tool ${tool}`, { "mcp.tool.name": tool }, async (span) => {
+      const stopTimer = toolCallDuration.startTimer({ tool });
+      try {
+        const result = await cb(...args);
+        toolCallsTotal.inc({ tool, outcome: result.isError ? "error" : "success" });
+        if (result.isError) span.setStatus({ code: SpanStatusCode.ERROR, message: "Tool returned an error" });
+        return result;
+      } catch (error) {
+        toolCallsTotal.inc({ tool, outcome: "error" });
+        throw error;
+      } finally {
+        stopTimer();
+      }
+    });
+}
+
+/**
+ * Record metrics for every one of `tools` (keyed by name), wrapping
+ * their current callbacks.
+ */
+export function instrumentTools(tools: Record<string, RegisteredTool>): void {
+  for (const [name, tool] of Object.entries(tools)) {
+    const callback = instrumentToolCallback(name, tool.handler as AnyToolCallback);
+    tool.update({ callback: callback as ToolCallback<ZodRawShape> });
+  }
+}
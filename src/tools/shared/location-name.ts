@@ -0,0 +1,33 @@
+/**
+ * tools/shared/location-name.ts — Display helpers for locations.
+ *
+ * Kept free of geocoding imports so API modules can use them without
+ * creating an import cycle.
+ */
+
+import type { GeoResult } from "../weather/types.js";
+
+/**
+ * Format coordinates as e.g. "40.7128°N, 74.0060°W".
+ */
+export function formatCoordinates(latitude: number, longitude: number): string {
+  const latDirection = latitude >= 0 ? "N" : "S";
+  const lonDirection = longitude >= 0 ? "E" : "W";
+  return `${Math.abs(latitude).toFixed(4)}°${latDirection}, ${Math.abs(longitude).toFixed(4)}°${lonDirection}`;
+}
+
+/**
+ * Human-readable name for a resolved location.
+ *
+ * When the coordinates were rounded to the model grid, the grid point the
+ * data is for is appended.
+ */
+export function formatLocationName(location: GeoResult): string {
+  const name = [location.name, location.admin1, location.country]
+    .filter((part) => part)
+    .join(", ");
+
+  if (!location.gridRounding) return name;
+  const { gridDegrees } = location.gridRounding;
+  return `${name} (rounded to ${gridDegrees}° grid: ${formatCoordinates(location.latitude, location.longitude)})`;
+}
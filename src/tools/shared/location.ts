@@ -0,0 +1,218 @@
+/**
+ * tools/shared/location.ts — Shared location input schema and resolution.
+ *
+ * Every tool accepts the same location arguments so agents can pin an
+ * exact place after a first lookup:
+ * - `city` (optionally narrowed by `country_code`)
+ * - `latitude` + `longitude`
+ * - `postal_code` + `country_code`
+ * - `location_id` (the geocoder ID returned by a previous lookup)
+ *
+ * Resolved coordinates are rounded to `config.cache.coordinateGridDegrees`
+ * so that nearby lookups (40.7128 vs 40.71281) build the same upstream
+ * URLs and share cache entries.
+ */
+
+import { z } from "zod";
+import { config } from "../../config/index.js";
+import {
+  searchLocations,
+  geocodePostalCode,
+  getLocationById,
+  type GeoResult,
+} from "./geocoding.js";
+import { formatCoordinates, formatLocationName } from "./location-name.js";
+
+/** Maximum "did you mean…" alternatives reported for an ambiguous city. */
+const MAX_ALTERNATIVES = 3;
+
+/**
+ * Zod raw shape for location arguments. Spread into a tool's input schema.
+ *
+ * All fields are optional at the schema level; `resolveLocation` checks
+ * that a usable combination was provided.
+ */
+export const locationSchema = {
+  city: z
+    .string()
+    .min(1, "City name cannot be empty")
+    .optional()
+    .describe("City or place name (e.g., 'London', 'Tokyo', 'New York')"),
+  latitude: z
+    .number()
+    .min(-90)
+    .max(90)
+    .optional()
+    .describe("Latitude (-90 to 90). Use together with longitude."),
+  longitude: z
+    .number()
+    .min(-180)
+    .max(180)
+    .optional()
+    .describe("Longitude (-180 to 180). Use together with latitude."),
+  postal_code: z
+    .string()
+    .min(1, "Postal code cannot be empty")
+    .optional()
+    .describe("Postal / ZIP code. Requires country_code."),
+  country_code: z
+    .string()
+    .length(2, "Country code must be a 2-letter ISO code")
+    .optional()
+    .describe("ISO-3166-1 alpha-2 country code (e.g., 'US', 'FR'). Required with postal_code; narrows city searches."),
+  location_id: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Geocoder location ID from a previous lookup. Takes precedence over other location fields."),
+};
+
+/** Parsed location arguments. */
+export interface LocationInput {
+  city?: string;
+  latitude?: number;
+  longitude?: number;
+  postal_code?: string;
+  country_code?: string;
+  location_id?: number;
+}
+
+export type LocationResult =
+  | { ok: true; location: GeoResult; alternatives: GeoResult[] }
+  | { ok: false; message: string };
+
+/**
+ * Other candidates sharing the best match's name (e.g. Paris, Texas when
+ * Paris, France was picked). Empty when the query is unambiguous.
+ */
+export function findAlternatives(candidates: GeoResult[]): GeoResult[] {
+  const [best, ...rest] = candidates;
+  if (!best) return [];
+
+  const name = best.name.toLowerCase();
+  return rest
+    .filter((candidate) => candidate.name.toLowerCase() === name)
+    .slice(0, MAX_ALTERNATIVES);
+}
+
+/**
+ * Append a "did you mean…" note listing alternatives to a report.
+ *
+ * Each alternative includes its location_id so the caller can pin it.
+ */
+export function appendAlternatives(report: string, alternatives: GeoResult[]): string {
+  if (alternatives.length === 0) return report;
+
+  const lines = ["", "=== Did you mean… ==="];
+  for (const alt of alternatives) {
+    const id = alt.id !== undefined ? ` (location_id: ${alt.id})` : "";
+    lines.push(`  • ${formatLocationName(alt)}${id}`);
+  }
+  lines.push("Pass location_id or country_code to pick a specific match.");
+
+  return [report, ...lines].join("\n");
+}
+
+/**
+ * Round a coordinate to the nearest multiple of `gridDegrees` (0 = as-is).
+ */
+export function roundToGrid(value: number, gridDegrees: number): number {
+  if (gridDegrees <= 0) return value;
+  // Fix to the grid's own precision so 0.01 steps don't yield 40.710000000000001
+  const decimals = gridDegrees.toString().split(".")[1]?.length ?? 0;
+  return Number((Math.round(value / gridDegrees) * gridDegrees).toFixed(decimals));
+}
+
+/**
+ * Round a location's coordinates to the grid, keeping the originals in
+ * `gridRounding` when they changed.
+ */
+export function snapToGrid(
+  location: GeoResult,
+  gridDegrees: number = config.cache.coordinateGridDegrees
+): GeoResult {
+  const latitude = roundToGrid(location.latitude, gridDegrees);
+  const longitude = roundToGrid(location.longitude, gridDegrees);
+  if (latitude === location.latitude && longitude === location.longitude) return location;
+
+  return {
+    ...location,
+    latitude,
+    longitude,
+    gridRounding: { latitude: location.latitude, longitude: location.longitude, gridDegrees },
+  };
+}
+
+/**
+ * Describe the location a caller asked for (used in error messages).
+ */
+export function describeLocationInput(input: LocationInput): string {
+  if (input.location_id !== undefined) return `location ID ${input.location_id}`;
+  if (input.latitude !== undefined && input.longitude !== undefined) {
+    return formatCoordinates(input.latitude, input.longitude);
+  }
+  if (input.postal_code) return `${input.postal_code}, ${input.country_code ?? "??"}`;
+  return input.city ?? "unknown location";
+}
+
+/**
+ * Resolve location arguments to a single geocoded location.
+ *
+ * Precedence: location_id → latitude/longitude → postal_code → city.
+ * Coordinates are used without a geocoder round trip. The resolved
+ * location is rounded to the coordinate grid (see `snapToGrid`).
+ */
+export async function resolveLocation(input: LocationInput): Promise<LocationResult> {
+  const result = await resolveLocationInput(input);
+  return result.ok ? { ...result, location: snapToGrid(result.location) } : result;
+}
+
+async function resolveLocationInput(input: LocationInput): Promise<LocationResult> {
+  if (input.location_id !== undefined) {
+    const location = await getLocationById(input.location_id);
+    return location
+      ? { ok: true, location, alternatives: [] }
+      : { ok: false, message: `No location found with ID ${input.location_id}.` };
+  }
+
+  const { latitude, longitude } = input;
+  if ((latitude === undefined) !== (longitude === undefined)) {
+    return { ok: false, message: "Both latitude and longitude are required when using coordinates." };
+  }
+  if (latitude !== undefined && longitude !== undefined) {
+    return {
+      ok: true,
+      location: {
+        name: formatCoordinates(latitude, longitude),
+        latitude,
+        longitude,
+        country: "",
+      },
+      alternatives: [],
+    };
+  }
+
+  if (input.postal_code) {
+    if (!input.country_code) {
+      return { ok: false, message: "country_code is required when using postal_code." };
+    }
+    const location = await geocodePostalCode(input.postal_code, input.country_code);
+    return location
+      ? { ok: true, location, alternatives: [] }
+      : { ok: false, message: `Could not find postal code "${input.postal_code}" in ${input.country_code.toUpperCase()}.` };
+  }
+
+  if (input.city) {
+    const candidates = await searchLocations(input.city, input.country_code);
+    if (candidates.length === 0) {
+      return { ok: false, message: `Could not find a location matching "${input.city}". Try a more specific city name.` };
+    }
+    return { ok: true, location: candidates[0], alternatives: findAlternatives(candidates) };
+  }
+
+  return {
+    ok: false,
+    message: "Provide a location: city, latitude and longitude, postal_code with country_code, or location_id.",
+  };
+}
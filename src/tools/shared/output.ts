@@ -0,0 +1,74 @@
+/**
+ * tools/shared/output.ts — Shared building blocks for tool output schemas.
+ *
+ * Every tool returns `structuredContent` alongside its text report. These
+ * schemas describe the pieces most tools share: the resolved location,
+ * "did you mean…" alternatives, stale-data notices, and raw Open-Meteo
+ * data blocks.
+ *
+ * Open-Meteo blocks are passed through as returned by the API, so they
+ * are described as records keyed by variable name. Values may be null
+ * where the model has no data (e.g. marine variables near the coast).
+ */
+
+import { z } from "zod";
+
+/** A geocoded location, as returned by the geocoder or built from coordinates. */
+export const geoResultSchema = z.object({
+  id: z.number().optional(),
+  name: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+  country: z.string(),
+  country_code: z.string().optional(),
+  admin1: z.string().optional(),
+  admin2: z.string().optional(),
+  elevation: z.number().optional(),
+  population: z.number().optional(),
+  timezone: z.string().optional(),
+  feature_code: z.string().optional(),
+  gridRounding: z
+    .object({ latitude: z.number(), longitude: z.number(), gridDegrees: z.number() })
+    .optional()
+    .describe("Coordinates before rounding to the model grid; latitude/longitude are the rounded values"),
+});
+
+/** Unit system the values were requested in. */
+export const unitSystemSchema = z.enum(["metric", "imperial"]);
+
+/** Weather provider that served the data. */
+export const providerIdSchema = z.enum(["open-meteo", "nws"]);
+
+/** Open-Meteo `current` block: one value per variable. */
+export const currentBlockSchema = z.record(z.string(), z.union([z.number(), z.string(), z.null()]));
+
+/** Open-Meteo `hourly` / `daily` block: one array per variable, aligned with `time`. */
+export const seriesBlockSchema = z.record(z.string(), z.array(z.union([z.number(), z.string(), z.null()])));
+
+/** Open-Meteo `*_units` block: unit label per variable. */
+export const unitLabelsSchema = z.record(z.string(), z.string());
+
+/** An upstream response served past its TTL (see `withFreshness`). */
+export const staleSourceSchema = z.object({
+  source: z.string(),
+  ageSeconds: z.number(),
+  reason: z.enum(["revalidating", "upstream error"]),
+});
+
+/**
+ * Zod raw shape for the stale-data notice. Present only when some of the
+ * data was served from cache after it expired.
+ */
+export const freshnessOutputSchema = {
+  staleData: z.array(staleSourceSchema).optional(),
+};
+
+/**
+ * Zod raw shape for the location fields every location-based tool returns.
+ * Spread into a tool's output schema.
+ */
+export const locationOutputSchema = {
+  location: geoResultSchema,
+  alternatives: z.array(geoResultSchema),
+  ...freshnessOutputSchema,
+};
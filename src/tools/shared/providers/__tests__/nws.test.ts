@@ -0,0 +1,212 @@
+import { readFileSync } from "node:fs";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { config } from "../../../../config/index.js";
+import { resetCache } from "../../cache/index.js";
+import { resetCircuitBreakers } from "../../circuit-breaker.js";
+import { NwsProvider, nwsWeatherCode, parseWindSpeed, parseDurationHours, expandGridLayer } from "../nws.js";
+import { fetchFromProvider, type ProviderId } from "../index.js";
+
+const DENVER = { latitude: 39.7456, longitude: -104.9994 };
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function fixture(name: string): unknown {
+  return JSON.parse(readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), "utf8"));
+}
+
+/** Recorded api.weather.gov responses for Denver, keyed by path. */
+const NWS_FIXTURES: Record<string, unknown> = {
+  "/points/39.7456,-104.9994": fixture("points"),
+  "/gridpoints/BOU/63,62/stations": fixture("stations"),
+  "/stations/KBKF/observations/latest": fixture("observation"),
+  "/gridpoints/BOU/63,62/forecast": fixture("forecast"),
+  "/gridpoints/BOU/63,62/forecast/hourly": fixture("forecast-hourly"),
+  "/gridpoints/BOU/63,62": fixture("gridpoints"),
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+/** Serve NWS fixtures by path; Open-Meteo gets `openMeteo` (or a 404 when unset). */
+function stubFetch(openMeteo?: () => Response) {
+  const fetchMock = vi.fn(async (input: string | URL) => {
+    const url = new URL(input.toString());
+    if (url.hostname === "api.weather.gov" && NWS_FIXTURES[url.pathname]) {
+      return jsonResponse(NWS_FIXTURES[url.pathname]);
+    }
+    if (url.hostname === "api.open-meteo.com" && openMeteo) {
+      return openMeteo();
+    }
+    return jsonResponse({ error: "not found" }, 404);
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("NWS mapping helpers", () => {
+  it("maps icon conditions to WMO codes", () => {
+    expect(nwsWeatherCode("https://api.weather.gov/icons/land/day/tsra_sct,40/rain,20?size=medium")).toBe(95);
+    expect(nwsWeatherCode("https://api.weather.gov/icons/land/night/ovc?size=small")).toBe(3);
+  });
+
+  it("falls back to the text description when there is no icon", () => {
+    expect(nwsWeatherCode(null, "Light Snow")).toBe(73);
+    expect(nwsWeatherCode(null, "Mostly Clear")).toBe(2);
+    expect(nwsWeatherCode(null, "")).toBe(3);
+  });
+
+  it("parses wind strings and ISO durations", () => {
+    expect(parseWindSpeed("5 to 15 mph")).toBe(15);
+    expect(parseWindSpeed("10 km/h")).toBe(10);
+    expect(parseWindSpeed("")).toBe(0);
+    expect(parseDurationHours("PT6H")).toBe(6);
+    expect(parseDurationHours("P1DT12H")).toBe(36);
+  });
+
+  it("expands grid intervals into local hours", () => {
+    const layer = { values: [{ validTime: "2026-10-20T00:00:00+00:00/PT2H", value: 4 }] };
+
+    expect([...expandGridLayer(layer, "America/Denver", true)]).toEqual([
+      ["2026-10-19T18:00", 2],
+      ["2026-10-19T19:00", 2],
+    ]);
+    expect(expandGridLayer(layer, "America/Denver", false).get("2026-10-19T19:00")).toBe(4);
+  });
+});
+
+describe("NwsProvider", () => {
+  const provider = new NwsProvider();
+  let fetchMock: ReturnType<typeof stubFetch>;
+
+  beforeEach(() => {
+    resetCache();
+    resetCircuitBreakers();
+    fetchMock = stubFetch();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("covers US locations only", () => {
+    expect(provider.covers(DENVER.latitude, DENVER.longitude)).toBe(true);
+    expect(provider.covers(21.3, -157.86)).toBe(true);
+    expect(provider.covers(LONDON.latitude, LONDON.longitude)).toBe(false);
+  });
+
+  it("maps the nearest station's latest observation to current conditions", async () => {
+    const weather = await provider.getCurrentWeather(DENVER.latitude, DENVER.longitude, "imperial");
+
+    expect(weather.current).toEqual({
+      temperature_2m: 59,
+      relative_humidity_2m: 39,
+      apparent_temperature: 59,
+      wind_speed_10m: 10.3,
+      wind_direction_10m: 200,
+      weather_code: 2,
+    });
+    expect(weather.current_units.temperature_2m).toBe("°F");
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({
+      headers: { "User-Agent": config.providers.nwsUserAgent },
+    });
+  });
+
+  it("pairs day and night periods into daily highs and lows", async () => {
+    const forecast = await provider.getDailyForecast(DENVER.latitude, DENVER.longitude, 7, "imperial");
+
+    expect(forecast.timezone).toBe("America/Denver");
+    expect(forecast.daily).toMatchObject({
+      time: ["2026-10-19", "2026-10-20"],
+      weather_code: [2, 95],
+      temperature_2m_max: [68, 55],
+      temperature_2m_min: [41, 35],
+      precipitation_sum: [0.1, 0.3],
+      precipitation_probability_max: [30, 60],
+      wind_speed_10m_max: [15, 15],
+      wind_gusts_10m_max: [21.9, 25.3],
+    });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toContain(
+      "https://api.weather.gov/gridpoints/BOU/63,62/forecast?units=us"
+    );
+  });
+
+  it("maps hourly periods and spreads grid precipitation over each hour", async () => {
+    const forecast = await provider.getHourlyForecast(DENVER.latitude, DENVER.longitude, 2, "imperial");
+
+    expect(forecast.hourly).toEqual({
+      time: ["2026-10-19T12:00", "2026-10-19T13:00"],
+      temperature_2m: [64, 66],
+      relative_humidity_2m: [40, 36],
+      precipitation_probability: [5, 10],
+      precipitation: [0, 0],
+      weather_code: [1, 2],
+      wind_speed_10m: [8, 9],
+      wind_direction_10m: [180, 202.5],
+    });
+    expect(forecast.hourly_units.precipitation).toBe("inch");
+  });
+});
+
+describe("fetchFromProvider", () => {
+  const { fallback } = config.providers;
+  const providers = config.providers as { fallback?: ProviderId };
+
+  beforeEach(() => {
+    resetCache();
+    resetCircuitBreakers();
+  });
+
+  afterEach(() => {
+    providers.fallback = fallback;
+    vi.unstubAllGlobals();
+  });
+
+  it("uses an explicitly requested provider", async () => {
+    stubFetch();
+
+    const result = await fetchFromProvider(
+      "current",
+      DENVER.latitude,
+      DENVER.longitude,
+      (p) => p.getCurrentWeather(DENVER.latitude, DENVER.longitude, "metric"),
+      "nws"
+    );
+
+    expect(result.provider).toBe("nws");
+    expect(result.data.current.temperature_2m).toBe(15);
+  });
+
+  it("rejects a requested provider that does not cover the location", async () => {
+    stubFetch();
+
+    await expect(
+      fetchFromProvider("current", LONDON.latitude, LONDON.longitude, async () => "unused", "nws")
+    ).rejects.toThrow("US National Weather Service has no current data");
+  });
+
+  it("falls back when the default provider fails", async () => {
+    providers.fallback = "nws";
+    stubFetch(() => jsonResponse({ error: true, reason: "Service unavailable" }, 500));
+
+    const result = await fetchFromProvider("current", DENVER.latitude, DENVER.longitude, (p) =>
+      p.getCurrentWeather(DENVER.latitude, DENVER.longitude, "metric")
+    );
+
+    expect(result.provider).toBe("nws");
+  });
+
+  it("skips a fallback that does not cover the location", async () => {
+    providers.fallback = "nws";
+    stubFetch(() => jsonResponse({ error: true, reason: "Service unavailable" }, 500));
+
+    await expect(
+      fetchFromProvider("current", LONDON.latitude, LONDON.longitude, (p) =>
+        p.getCurrentWeather(LONDON.latitude, LONDON.longitude, "metric")
+      )
+    ).rejects.toThrow();
+  });
+});
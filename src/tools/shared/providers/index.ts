@@ -0,0 +1,111 @@
+/**
+ * tools/shared/providers/index.ts — Weather provider registry and selection.
+ *
+ * Tools ask for data through `fetchFromProvider`, which picks a provider:
+ * - an explicit per-request choice is used as-is (no fallback), or
+ * - the configured default, falling back to `config.providers.fallback`
+ *   when the default fails or does not cover the location.
+ */
+
+import { z } from "zod";
+import { config } from "../../../config/index.js";
+import { logger } from "../../../shared/index.js";
+import { OpenMeteoProvider } from "./open-meteo.js";
+import { NwsProvider } from "./nws.js";
+import {
+  CAPABILITY_METHODS,
+  type WeatherProvider,
+  type ProviderId,
+  type ProviderCapability,
+  type ProviderFor,
+  type ProviderResult,
+} from "./types.js";
+
+// Re-export types and implementations for convenience
+export type {
+  WeatherProvider,
+  ProviderId,
+  ProviderCapability,
+  ProviderFor,
+  ProviderResult,
+  DailyForecastOptions,
+} from "./types.js";
+export { OpenMeteoProvider } from "./open-meteo.js";
+export { NwsProvider, NWS_MAX_FORECAST_DAYS, NWS_MAX_FORECAST_HOURS } from "./nws.js";
+
+const log = logger.child({ module: "providers" });
+
+const PROVIDERS: Record<ProviderId, WeatherProvider> = {
+  "open-meteo": new OpenMeteoProvider(),
+  nws: new NwsProvider(),
+};
+
+/**
+ * Zod schema for the optional `provider` tool argument.
+ */
+export const providerSchema = z
+  .enum(["open-meteo", "nws"])
+  .optional()
+  .describe(
+    "Data source: 'open-meteo' (global) or 'nws' (US National Weather Service, US locations only). " +
+    "Defaults to the server's configured provider, with automatic fallback."
+  );
+
+/** Get a provider by ID. */
+export function getProvider(id: ProviderId): WeatherProvider {
+  return PROVIDERS[id];
+}
+
+/** Whether `provider` has `capability` and implements the method serving it. */
+function supports<C extends ProviderCapability>(
+  provider: WeatherProvider,
+  capability: C
+): provider is ProviderFor<C> {
+  return provider.capabilities.has(capability) && typeof provider[CAPABILITY_METHODS[capability]] === "function";
+}
+
+/** "Source: …" line for reports. */
+export function formatProviderSource(id: ProviderId): string {
+  return `Source: ${PROVIDERS[id].name}`;
+}
+
+/**
+ * Fetch data from the first suitable provider.
+ *
+ * A provider is suitable when it supports the capability (see `supports`)
+ * and covers the coordinates. With `preferred`, only that provider is tried.
+ */
+export async function fetchFromProvider<C extends ProviderCapability, T>(
+  capability: C,
+  latitude: number,
+  longitude: number,
+  request: (provider: ProviderFor<C>) => Promise<T>,
+  preferred?: ProviderId
+): Promise<ProviderResult<T>> {
+  const order: ProviderId[] = preferred
+    ? [preferred]
+    : [config.providers.default, ...(config.providers.fallback ? [config.providers.fallback] : [])];
+
+  const candidates = [...new Set(order)]
+    .map(getProvider)
+    .filter(
+      (provider): provider is ProviderFor<C> =>
+        supports(provider, capability) && provider.covers(latitude, longitude)
+    );
+
+  if (candidates.length === 0) {
+    const names = order.map((id) => PROVIDERS[id].name).join(" or ");
+    throw new Error(`${names} has no ${capability} data for ${latitude}, ${longitude}`);
+  }
+
+  for (let i = 0; ; i++) {
+    const provider = candidates[i];
+    try {
+      return { data: await request(provider), provider: provider.id };
+    } catch (error) {
+      const next = candidates[i + 1];
+      if (!next) throw error;
+      log.warn({ err: error, provider: provider.id, fallback: next.id, capability }, "Provider failed; falling back");
+    }
+  }
+}
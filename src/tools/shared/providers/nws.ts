@@ -0,0 +1,470 @@
+/**
+ * tools/shared/providers/nws.ts — US National Weather Service provider.
+ *
+ * Backed by api.weather.gov, which covers the United States and its
+ * territories only and has no air quality or marine data. Responses are
+ * mapped onto the Open-Meteo shapes the tools format:
+ * - current conditions come from the nearest station's latest observation
+ * - daily highs/lows pair the 12-hour day and night forecast periods
+ * - precipitation amounts and gusts come from the gridpoint time series
+ *
+ * Every request is resolved through `/points/{lat},{lon}`, which returns
+ * the forecast office URLs for that location and is cached long-term.
+ */
+
+import { config } from "../../../config/index.js";
+import type { WeatherResponse } from "../../weather/types.js";
+import type { DailyForecastResponse, HourlyForecastResponse } from "../../forecast/types.js";
+import { cachedFetchJson } from "../fetch.js";
+import { TTL_FORECAST, TTL_STATIC } from "../cache/index.js";
+import { toFahrenheit, toMph, toInches, type UnitSystem } from "../units.js";
+import type { WeatherProvider, ProviderCapability } from "./types.js";
+
+const NWS_BASE_URL = "https://api.weather.gov";
+
+/** NWS forecasts run out to 7 days (14 twelve-hour periods). */
+export const NWS_MAX_FORECAST_DAYS = 7;
+
+/** NWS hourly forecasts run out to 156 hours. */
+export const NWS_MAX_FORECAST_HOURS = 156;
+
+/** Rough bounding boxes (lat/lon) of the areas NWS forecasts cover. */
+const NWS_COVERAGE = [
+  { name: "Contiguous US", minLat: 24, maxLat: 50, minLon: -125, maxLon: -66 },
+  { name: "Alaska", minLat: 51, maxLat: 72, minLon: -180, maxLon: -129 },
+  { name: "Hawaii", minLat: 18, maxLat: 23, minLon: -161, maxLon: -154 },
+  { name: "Puerto Rico", minLat: 17.5, maxLat: 18.6, minLon: -67.5, maxLon: -65 },
+  { name: "Guam", minLat: 13, maxLat: 15.5, minLon: 144, maxLon: 146 },
+];
+
+/** WMO weather codes for NWS icon condition names. */
+const NWS_ICON_CODES: Record<string, number> = {
+  skc: 0,
+  few: 1,
+  sct: 2,
+  bkn: 2,
+  ovc: 3,
+  wind_skc: 0,
+  wind_few: 1,
+  wind_sct: 2,
+  wind_bkn: 2,
+  wind_ovc: 3,
+  hot: 0,
+  cold: 0,
+  haze: 3,
+  smoke: 3,
+  dust: 3,
+  fog: 45,
+  rain: 63,
+  rain_showers: 80,
+  rain_showers_hi: 80,
+  tsra: 95,
+  tsra_sct: 95,
+  tsra_hi: 95,
+  tornado: 95,
+  hurricane: 65,
+  tropical_storm: 65,
+  snow: 73,
+  blizzard: 75,
+  rain_snow: 71,
+  snow_sleet: 71,
+  sleet: 77,
+  rain_sleet: 66,
+  fzra: 66,
+  rain_fzra: 66,
+  snow_fzra: 66,
+};
+
+/** Fallback when an observation has no icon: keywords in its text description. */
+const TEXT_CODES: [RegExp, number][] = [
+  [/thunder/i, 95],
+  [/freezing/i, 66],
+  [/snow/i, 73],
+  [/shower/i, 80],
+  [/rain|drizzle/i, 63],
+  [/fog|mist/i, 45],
+  [/overcast|cloudy/i, 3],
+  [/partly|mostly sunny|mostly clear/i, 2],
+  [/clear|sunny|fair/i, 0],
+];
+
+const CARDINAL_DEGREES: Record<string, number> = {
+  N: 0, NNE: 22.5, NE: 45, ENE: 67.5, E: 90, ESE: 112.5, SE: 135, SSE: 157.5,
+  S: 180, SSW: 202.5, SW: 225, WSW: 247.5, W: 270, WNW: 292.5, NW: 315, NNW: 337.5,
+};
+
+// ─── api.weather.gov response types ──────────────────────────────────────────
+
+interface NwsQuantity {
+  unitCode: string;
+  value: number | null;
+}
+
+interface NwsPointResponse {
+  properties: {
+    forecast: string;
+    forecastHourly: string;
+    forecastGridData: string;
+    observationStations: string;
+    timeZone: string;
+  };
+}
+
+interface NwsStationsResponse {
+  features: { properties: { stationIdentifier: string } }[];
+}
+
+interface NwsObservationResponse {
+  properties: {
+    timestamp: string;
+    icon: string | null;
+    textDescription: string;
+    temperature: NwsQuantity;
+    relativeHumidity: NwsQuantity;
+    windSpeed: NwsQuantity;
+    windDirection: NwsQuantity;
+    heatIndex: NwsQuantity;
+    windChill: NwsQuantity;
+  };
+}
+
+interface NwsPeriod {
+  startTime: string;
+  isDaytime: boolean;
+  temperature: number;
+  probabilityOfPrecipitation?: NwsQuantity;
+  relativeHumidity?: NwsQuantity;
+  windSpeed: string;
+  windDirection: string;
+  icon: string;
+  shortForecast: string;
+}
+
+interface NwsForecastResponse {
+  properties: { periods: NwsPeriod[] };
+}
+
+/** Gridpoint time series; `validTime` is "<ISO start>/<ISO duration>" in UTC. */
+interface NwsGridLayer {
+  uom?: string;
+  values: { validTime: string; value: number | null }[];
+}
+
+interface NwsGridDataResponse {
+  properties: {
+    quantitativePrecipitation?: NwsGridLayer;
+    windGust?: NwsGridLayer;
+  };
+}
+
+// ─── Mapping helpers ─────────────────────────────────────────────────────────
+
+function round(value: number, decimals: number = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/** Unit labels matching what Open-Meteo returns for the same unit system. */
+function unitLabels(units: UnitSystem) {
+  return units === "metric"
+    ? { temperature: "°C", windSpeed: "km/h", precipitation: "mm" }
+    : { temperature: "°F", windSpeed: "mp/h", precipitation: "inch" };
+}
+
+/** Map an NWS icon URL (or, failing that, a text description) to a WMO code. */
+export function nwsWeatherCode(icon: string | null, text: string = ""): number {
+  if (icon) {
+    // e.g. https://api.weather.gov/icons/land/day/tsra_sct,40/rain,20?size=medium
+    const segments = new URL(icon).pathname.split("/");
+    const index = segments.findIndex((s) => s === "day" || s === "night");
+    const condition = segments[index + 1]?.split(",")[0];
+    if (condition && NWS_ICON_CODES[condition] !== undefined) {
+      return NWS_ICON_CODES[condition];
+    }
+  }
+  return TEXT_CODES.find(([pattern]) => pattern.test(text))?.[1] ?? 3;
+}
+
+/** Highest number in an NWS wind string ("10 mph", "5 to 15 km/h"). */
+export function parseWindSpeed(value: string): number {
+  const numbers = value.match(/\d+(\.\d+)?/g)?.map(Number) ?? [];
+  return numbers.length > 0 ? Math.max(...numbers) : 0;
+}
+
+/** Degrees for a 16-point compass direction (0 when unknown). */
+function cardinalToDegrees(direction: string): number {
+  return CARDINAL_DEGREES[direction] ?? 0;
+}
+
+/** Hours in an ISO 8601 duration such as "PT6H", "P1D" or "P1DT12H". */
+export function parseDurationHours(duration: string): number {
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/.exec(duration);
+  if (!match) return 1;
+  const [, days = "0", hours = "0"] = match;
+  return Math.max(1, Number(days) * 24 + Number(hours));
+}
+
+/** Local wall-clock hour ("YYYY-MM-DDTHH:00") for an instant in a time zone. */
+function localHour(epochMs: number, timeZone: string): string {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(epochMs)
+      .map((part) => [part.type, part.value])
+  );
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:00`;
+}
+
+/**
+ * Expand a gridpoint layer into per-hour values keyed by local hour.
+ *
+ * With `spread`, each value is an amount over its interval (e.g. 6-hour
+ * precipitation) and is divided evenly across the hours; otherwise the
+ * value applies to every hour of the interval.
+ */
+export function expandGridLayer(
+  layer: NwsGridLayer | undefined,
+  timeZone: string,
+  spread: boolean
+): Map<string, number> {
+  const hourly = new Map<string, number>();
+  for (const { validTime, value } of layer?.values ?? []) {
+    if (value === null) continue;
+    const [start, duration] = validTime.split("/");
+    const hours = parseDurationHours(duration);
+    const startMs = Date.parse(start);
+    for (let h = 0; h < hours; h++) {
+      hourly.set(localHour(startMs + h * 3_600_000, timeZone), spread ? value / hours : value);
+    }
+  }
+  return hourly;
+}
+
+/** Sum (or max) the hourly values falling on a local date. */
+function aggregateDay(hourly: Map<string, number>, date: string, mode: "sum" | "max"): number | null {
+  const values = [...hourly].filter(([hour]) => hour.startsWith(date)).map(([, value]) => value);
+  if (values.length === 0) return null;
+  return mode === "sum" ? values.reduce((sum, v) => sum + v, 0) : Math.max(...values);
+}
+
+/** Grid precipitation is in mm; convert to the requested system. */
+function precipitationIn(mm: number, units: UnitSystem): number {
+  return units === "metric" ? round(mm, 1) : round(toInches(mm, "metric"), 2);
+}
+
+/** Grid and observation speeds are in km/h; convert to the requested system. */
+function speedIn(kmh: number, units: UnitSystem): number {
+  return units === "metric" ? round(kmh) : round(toMph(kmh, "metric"));
+}
+
+/** Observation temperatures are in °C; convert to the requested system. */
+function temperatureIn(celsius: number, units: UnitSystem): number {
+  return units === "metric" ? round(celsius) : round(toFahrenheit(celsius, "metric"));
+}
+
+// ─── Provider ────────────────────────────────────────────────────────────────
+
+/**
+ * Provider backed by the US National Weather Service API.
+ */
+export class NwsProvider implements WeatherProvider {
+  readonly id = "nws" as const;
+  readonly name = "US National Weather Service";
+  readonly capabilities: ReadonlySet<ProviderCapability> = new Set<ProviderCapability>([
+    "current",
+    "daily",
+    "hourly",
+  ]);
+
+  covers(latitude: number, longitude: number): boolean {
+    return NWS_COVERAGE.some(
+      (area) =>
+        latitude >= area.minLat &&
+        latitude <= area.maxLat &&
+        longitude >= area.minLon &&
+        longitude <= area.maxLon
+    );
+  }
+
+  async getCurrentWeather(latitude: number, longitude: number, units: UnitSystem): Promise<WeatherResponse> {
+    const point = await this.getPoint(latitude, longitude);
+    const stations = await this.fetchJson<NwsStationsResponse>(point.properties.observationStations, TTL_STATIC);
+
+    const station = stations.features[0]?.properties.stationIdentifier;
+    if (!station) {
+      throw new Error("No NWS observation station near this location");
+    }
+
+    const { properties: obs } = await this.fetchJson<NwsObservationResponse>(
+      `${NWS_BASE_URL}/stations/${station}/observations/latest`
+    );
+    if (obs.temperature.value === null) {
+      throw new Error(`Station ${station} has no recent temperature observation`);
+    }
+
+    const labels = unitLabels(units);
+    const feelsLike = obs.heatIndex.value ?? obs.windChill.value ?? obs.temperature.value;
+
+    return {
+      current: {
+        temperature_2m: temperatureIn(obs.temperature.value, units),
+        relative_humidity_2m: Math.round(obs.relativeHumidity.value ?? 0),
+        apparent_temperature: temperatureIn(feelsLike, units),
+        wind_speed_10m: speedIn(obs.windSpeed.value ?? 0, units),
+        wind_direction_10m: obs.windDirection.value ?? 0,
+        weather_code: nwsWeatherCode(obs.icon, obs.textDescription),
+      },
+      current_units: {
+        temperature_2m: labels.temperature,
+        relative_humidity_2m: "%",
+        apparent_temperature: labels.temperature,
+        wind_speed_10m: labels.windSpeed,
+        wind_direction_10m: "°",
+      },
+    };
+  }
+
+  /**
+   * Days are built from daytime periods paired with the night that
+   * follows, so an evening request starts with tomorrow.
+   */
+  async getDailyForecast(
+    latitude: number,
+    longitude: number,
+    days: number,
+    units: UnitSystem
+  ): Promise<DailyForecastResponse> {
+    const point = await this.getPoint(latitude, longitude);
+    const { timeZone } = point.properties;
+    const [forecast, grid] = await Promise.all([
+      this.fetchJson<NwsForecastResponse>(`${point.properties.forecast}?units=${units === "metric" ? "si" : "us"}`, TTL_FORECAST),
+      this.fetchJson<NwsGridDataResponse>(point.properties.forecastGridData, TTL_FORECAST),
+    ]);
+
+    const precipitation = expandGridLayer(grid.properties.quantitativePrecipitation, timeZone, true);
+    const gusts = expandGridLayer(grid.properties.windGust, timeZone, false);
+    const { periods } = forecast.properties;
+
+    const daily: DailyForecastResponse["daily"] = {
+      time: [],
+      weather_code: [],
+      temperature_2m_max: [],
+      temperature_2m_min: [],
+      precipitation_sum: [],
+      precipitation_probability_max: [],
+      wind_speed_10m_max: [],
+      wind_gusts_10m_max: [],
+      sunrise: [],
+      sunset: [],
+    };
+
+    for (const day of periods.filter((p) => p.isDaytime)) {
+      if (daily.time.length >= Math.min(days, NWS_MAX_FORECAST_DAYS)) break;
+
+      const date = day.startTime.slice(0, 10);
+      const night = periods.find((p) => !p.isDaytime && p.startTime.slice(0, 10) === date);
+      if (!night) continue;
+
+      const wind = Math.max(parseWindSpeed(day.windSpeed), parseWindSpeed(night.windSpeed));
+      const gust = aggregateDay(gusts, date, "max");
+
+      daily.time.push(date);
+      daily.weather_code.push(nwsWeatherCode(day.icon, day.shortForecast));
+      daily.temperature_2m_max.push(day.temperature);
+      daily.temperature_2m_min.push(night.temperature);
+      daily.precipitation_sum.push(precipitationIn(aggregateDay(precipitation, date, "sum") ?? 0, units));
+      daily.precipitation_probability_max.push(
+        Math.max(day.probabilityOfPrecipitation?.value ?? 0, night.probabilityOfPrecipitation?.value ?? 0)
+      );
+      daily.wind_speed_10m_max.push(wind);
+      daily.wind_gusts_10m_max.push(gust !== null ? Math.max(speedIn(gust, units), wind) : wind);
+      // NWS forecasts carry no sunrise / sunset times
+      daily.sunrise.push("");
+      daily.sunset.push("");
+    }
+
+    const labels = unitLabels(units);
+    return {
+      latitude,
+      longitude,
+      timezone: timeZone,
+      daily,
+      daily_units: {
+        temperature_2m_max: labels.temperature,
+        temperature_2m_min: labels.temperature,
+        precipitation_sum: labels.precipitation,
+        precipitation_probability_max: "%",
+        wind_speed_10m_max: labels.windSpeed,
+        wind_gusts_10m_max: labels.windSpeed,
+      },
+    };
+  }
+
+  async getHourlyForecast(
+    latitude: number,
+    longitude: number,
+    hours: number,
+    units: UnitSystem
+  ): Promise<HourlyForecastResponse> {
+    const point = await this.getPoint(latitude, longitude);
+    const { timeZone } = point.properties;
+    const [forecast, grid] = await Promise.all([
+      this.fetchJson<NwsForecastResponse>(
+        `${point.properties.forecastHourly}?units=${units === "metric" ? "si" : "us"}`,
+        TTL_FORECAST
+      ),
+      this.fetchJson<NwsGridDataResponse>(point.properties.forecastGridData, TTL_FORECAST),
+    ]);
+
+    const precipitation = expandGridLayer(grid.properties.quantitativePrecipitation, timeZone, true);
+    const periods = forecast.properties.periods.slice(0, Math.min(hours, NWS_MAX_FORECAST_HOURS));
+    // Period start times carry the local offset, so the first 16 characters are local time
+    const time = periods.map((p) => p.startTime.slice(0, 16));
+
+    const labels = unitLabels(units);
+    return {
+      latitude,
+      longitude,
+      timezone: timeZone,
+      hourly: {
+        time,
+        temperature_2m: periods.map((p) => p.temperature),
+        relative_humidity_2m: periods.map((p) => p.relativeHumidity?.value ?? 0),
+        precipitation_probability: periods.map((p) => p.probabilityOfPrecipitation?.value ?? 0),
+        precipitation: time.map((hour) => precipitationIn(precipitation.get(hour) ?? 0, units)),
+        weather_code: periods.map((p) => nwsWeatherCode(p.icon, p.shortForecast)),
+        wind_speed_10m: periods.map((p) => parseWindSpeed(p.windSpeed)),
+        wind_direction_10m: periods.map((p) => cardinalToDegrees(p.windDirection)),
+      },
+      hourly_units: {
+        temperature_2m: labels.temperature,
+        relative_humidity_2m: "%",
+        precipitation_probability: "%",
+        precipitation: labels.precipitation,
+        wind_speed_10m: labels.windSpeed,
+        wind_direction_10m: "°",
+      },
+    };
+  }
+
+  /** Resolve coordinates to the forecast office endpoints (4 decimal places max). */
+  private getPoint(latitude: number, longitude: number): Promise<NwsPointResponse> {
+    const lat = Number(latitude.toFixed(4));
+    const lon = Number(longitude.toFixed(4));
+    return this.fetchJson<NwsPointResponse>(`${NWS_BASE_URL}/points/${lat},${lon}`, TTL_STATIC);
+  }
+
+  /** api.weather.gov requires an identifying User-Agent. */
+  private fetchJson<T>(url: string, ttlMs?: number): Promise<T> {
+    return cachedFetchJson<T>(url, {
+      ttlMs,
+      headers: { "User-Agent": config.providers.nwsUserAgent, Accept: "application/geo+json" },
+    });
+  }
+}
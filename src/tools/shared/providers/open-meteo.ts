@@ -0,0 +1,180 @@
+/**
+ * tools/shared/providers/open-meteo.ts — Open-Meteo weather provider.
+ *
+ * Global coverage for every capability. This is the default provider.
+ */
+
+import type { WeatherResponse } from "../../weather/types.js";
+import type { DailyForecastResponse, HourlyForecastResponse } from "../../forecast/types.js";
+import type { AirQualityResponse } from "../../air-quality/types.js";
+import type { MarineResponse } from "../../marine/types.js";
+import { MAX_FORECAST_DAYS, MAX_FORECAST_HOURS, DEFAULT_FORECAST_MODEL } from "../../forecast/constants.js";
+import { cachedFetchJson } from "../fetch.js";
+import { fetchForecastData } from "../forecast-data.js";
+import { TTL_FORECAST } from "../cache/index.js";
+import { getUnitParams, getLengthUnitParam, type UnitSystem } from "../units.js";
+import type { WeatherProvider, ProviderCapability, DailyForecastOptions } from "./types.js";
+
+const FORECAST_URL = "https://api.open-meteo.com/v1/forecast";
+const AIR_QUALITY_URL = "https://air-quality-api.open-meteo.com/v1/air-quality";
+const MARINE_URL = "https://marine-api.open-meteo.com/v1/marine";
+
+/**
+ * Provider backed by the Open-Meteo forecast, air quality and marine APIs.
+ */
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly id = "open-meteo" as const;
+  readonly name = "Open-Meteo";
+  readonly capabilities: ReadonlySet<ProviderCapability> = new Set<ProviderCapability>([
+    "current",
+    "daily",
+    "hourly",
+    "airQuality",
+    "marine",
+  ]);
+
+  covers(): boolean {
+    return true;
+  }
+
+  async getCurrentWeather(latitude: number, longitude: number, units: UnitSystem): Promise<WeatherResponse> {
+    return fetchForecastData<WeatherResponse>(latitude, longitude, units, {
+      current: [
+        "temperature_2m",
+        "relative_humidity_2m",
+        "apparent_temperature",
+        "wind_speed_10m",
+        "wind_direction_10m",
+        "weather_code",
+      ],
+    });
+  }
+
+  /**
+   * Uses Open-Meteo's default model blend unless a specific model is given.
+   * The default blend goes through the shared per-location request.
+   */
+  async getDailyForecast(
+    latitude: number,
+    longitude: number,
+    days: number,
+    units: UnitSystem,
+    options?: DailyForecastOptions
+  ): Promise<DailyForecastResponse> {
+    const forecastDays = Math.min(days, MAX_FORECAST_DAYS);
+    const model = options?.model ?? DEFAULT_FORECAST_MODEL;
+    const daily = [
+      "weather_code",
+      "temperature_2m_max",
+      "temperature_2m_min",
+      "precipitation_sum",
+      "precipitation_probability_max",
+      "wind_speed_10m_max",
+      "wind_gusts_10m_max",
+      "sunrise",
+      "sunset",
+    ];
+
+    if (model === DEFAULT_FORECAST_MODEL) {
+      return fetchForecastData<DailyForecastResponse>(
+        latitude,
+        longitude,
+        units,
+        { daily, forecastDays },
+        { ttlMs: TTL_FORECAST }
+      );
+    }
+
+    const params = new URLSearchParams({
+      latitude: latitude.toString(),
+      longitude: longitude.toString(),
+      daily: daily.join(","),
+      ...getUnitParams(units),
+      timezone: "auto",
+      forecast_days: forecastDays.toString(),
+      models: model,
+    });
+
+    return cachedFetchJson<DailyForecastResponse>(`${FORECAST_URL}?${params}`, { ttlMs: TTL_FORECAST });
+  }
+
+  async getHourlyForecast(
+    latitude: number,
+    longitude: number,
+    hours: number,
+    units: UnitSystem
+  ): Promise<HourlyForecastResponse> {
+    const forecastHours = Math.min(hours, MAX_FORECAST_HOURS);
+
+    const params = new URLSearchParams({
+      latitude: latitude.toString(),
+      longitude: longitude.toString(),
+      hourly: [
+        "temperature_2m",
+        "relative_humidity_2m",
+        "precipitation_probability",
+        "precipitation",
+        "weather_code",
+        "wind_speed_10m",
+        "wind_direction_10m",
+      ].join(","),
+      ...getUnitParams(units),
+      timezone: "auto",
+      forecast_hours: forecastHours.toString(),
+    });
+
+    return cachedFetchJson<HourlyForecastResponse>(`${FORECAST_URL}?${params}`, { ttlMs: TTL_FORECAST });
+  }
+
+  async getAirQuality(latitude: number, longitude: number): Promise<AirQualityResponse> {
+    const params = new URLSearchParams({
+      latitude: latitude.toString(),
+      longitude: longitude.toString(),
+      current: [
+        "us_aqi",
+        "european_aqi",
+        "pm10",
+        "pm2_5",
+        "carbon_monoxide",
+        "nitrogen_dioxide",
+        "sulphur_dioxide",
+        "ozone",
+        "uv_index",
+        "uv_index_clear_sky",
+        "alder_pollen",
+        "birch_pollen",
+        "grass_pollen",
+        "mugwort_pollen",
+        "olive_pollen",
+        "ragweed_pollen",
+      ].join(","),
+      timezone: "auto",
+    });
+
+    return cachedFetchJson<AirQualityResponse>(`${AIR_QUALITY_URL}?${params}`);
+  }
+
+  async getMarineWeather(latitude: number, longitude: number, units: UnitSystem): Promise<MarineResponse> {
+    const params = new URLSearchParams({
+      latitude: latitude.toString(),
+      longitude: longitude.toString(),
+      current: [
+        "wave_height",
+        "wave_direction",
+        "wave_period",
+        "wind_wave_height",
+        "wind_wave_direction",
+        "wind_wave_period",
+        "swell_wave_height",
+        "swell_wave_direction",
+        "swell_wave_period",
+        "ocean_current_velocity",
+        "ocean_current_direction",
+      ].join(","),
+      length_unit: getLengthUnitParam(units),
+      timezone: "auto",
+    });
+
+    return cachedFetchJson<MarineResponse>(`${MARINE_URL}?${params}`);
+  }
+}
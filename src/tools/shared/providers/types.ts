@@ -0,0 +1,80 @@
+/**
+ * tools/shared/providers/types.ts — Weather provider interface and types.
+ *
+ * A provider turns coordinates into the response shapes the tools already
+ * format (Open-Meteo's), so reports and structured output are the same
+ * whichever backend served the data.
+ */
+
+import type { WeatherResponse } from "../../weather/types.js";
+import type { DailyForecastResponse, HourlyForecastResponse, ForecastModel } from "../../forecast/types.js";
+import type { AirQualityResponse } from "../../air-quality/types.js";
+import type { MarineResponse } from "../../marine/types.js";
+import type { UnitSystem } from "../units.js";
+
+/** Identifiers of the available providers. */
+export type ProviderId = "open-meteo" | "nws";
+
+/** Kinds of data a provider may serve. */
+export type ProviderCapability = "current" | "daily" | "hourly" | "airQuality" | "marine";
+
+/** Options for a daily forecast request. */
+export interface DailyForecastOptions {
+  /** Forecast model (Open-Meteo only; other providers ignore it). */
+  model?: ForecastModel;
+}
+
+/**
+ * Contract every weather data backend implements.
+ *
+ * Air quality and marine data are optional — not every backend has them.
+ */
+export interface WeatherProvider {
+  readonly id: ProviderId;
+  /** Human-readable source name for reports. */
+  readonly name: string;
+  readonly capabilities: ReadonlySet<ProviderCapability>;
+
+  /** Whether the provider has data for these coordinates. */
+  covers(latitude: number, longitude: number): boolean;
+
+  getCurrentWeather(latitude: number, longitude: number, units: UnitSystem): Promise<WeatherResponse>;
+
+  getDailyForecast(
+    latitude: number,
+    longitude: number,
+    days: number,
+    units: UnitSystem,
+    options?: DailyForecastOptions
+  ): Promise<DailyForecastResponse>;
+
+  getHourlyForecast(
+    latitude: number,
+    longitude: number,
+    hours: number,
+    units: UnitSystem
+  ): Promise<HourlyForecastResponse>;
+
+  getAirQuality?(latitude: number, longitude: number): Promise<AirQualityResponse>;
+
+  getMarineWeather?(latitude: number, longitude: number, units: UnitSystem): Promise<MarineResponse>;
+}
+
+/** The provider method serving each capability. */
+export const CAPABILITY_METHODS = {
+  current: "getCurrentWeather",
+  daily: "getDailyForecast",
+  hourly: "getHourlyForecast",
+  airQuality: "getAirQuality",
+  marine: "getMarineWeather",
+} as const satisfies Record<ProviderCapability, keyof WeatherProvider>;
+
+/** A provider whose method for `capability` is known to be implemented. */
+export type ProviderFor<C extends ProviderCapability> = WeatherProvider &
+  Required<Pick<WeatherProvider, (typeof CAPABILITY_METHODS)[C]>>;
+
+/** Data together with the provider that served it. */
+export interface ProviderResult<T> {
+  data: T;
+  provider: ProviderId;
+}
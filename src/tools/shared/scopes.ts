@@ -0,0 +1,115 @@
+/**
+ * tools/shared/scopes.ts — Per-tool OAuth scopes.
+ *
+ * Each tool declares the scopes it needs in its registration's `_meta`
+ * (see `requiredScopes`), which also advertises them in `tools/list`.
+ * `authorizeTools` enforces them on the tools registered for a session:
+ *
+ * - `tools/list` leaves out the tools the request's token lacks a scope for
+ * - every call is checked against the token on that request (a later token
+ *   in the session may carry fewer scopes) and returns an authorization
+ *   error result when a scope is missing, hidden tools included
+ *
+ * A caller without auth info has no scopes. The one exception is the
+ * in-process cache warmer: its server is never reachable from the
+ * network, so it registers its tools with `IN_PROCESS` access.
+ */
+
+import type { McpServer, RegisteredTool, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { normalizeObjectSchema } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import { toJsonSchemaCompat } from "@modelcontextprotocol/sdk/server/zod-json-schema-compat.js";
+import { ListToolsRequestSchema, type CallToolResult, type Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { ZodRawShape } from "zod";
+
+/** Scopes tools can require. */
+export const TOOL_SCOPES = {
+  /** Weather, forecast, climate and geocoding data */
+  weatherRead: "weather:read",
+  /** Marine (ocean) data */
+  marineRead: "marine:read",
+} as const;
+
+/** `_meta` key under which a tool lists its required scopes. */
+export const REQUIRED_SCOPES_META = "requiredScopes";
+
+/** Access for the in-process cache warmer: every tool, without a token. */
+export const IN_PROCESS = "in-process";
+
+/** Who a server's tools are registered for: a session's token, or `IN_PROCESS`. */
+export type ToolAccess = AuthInfo | undefined | typeof IN_PROCESS;
+
+/**
+ * `_meta` for a tool registration requiring every one of `scopes`.
+ */
+export function requiredScopes(...scopes: string[]): Record<string, unknown> {
+  return { [REQUIRED_SCOPES_META]: scopes };
+}
+
+/** Scopes in `_meta` that the caller's token lacks (all of them without a token). */
+export function missingScopes(meta: Record<string, unknown> | undefined, authInfo: AuthInfo | undefined): string[] {
+  const required = (meta?.[REQUIRED_SCOPES_META] as string[] | undefined) ?? [];
+  const granted = authInfo?.scopes ?? [];
+  return required.filter((scope) => !granted.includes(scope));
+}
+
+// ─── Enforcement ────────────────────────────────────────────────────────────
+
+type AnyToolCallback = (...args: unknown[]) => CallToolResult | Promise<CallToolResult>;
+
+/** Wrap a tool's callback to check the scopes of the token on each call. */
+function checkScopes(tool: RegisteredTool): ToolCallback<ZodRawShape> {
+  const handler = tool.handler as AnyToolCallback;
+  const checked: AnyToolCallback = async (...args) => {
+    // The request context is always the callback's last argument
+    const { authInfo } = args[args.length - 1] as { authInfo?: AuthInfo };
+    const missing = missingScopes(tool._meta, authInfo);
+    if (missing.length === 0) return handler(...args);
+
+    return {
+      content: [{ type: "text", text: `Not authorized: this tool requires scope ${missing.join(", ")}` }],
+      isError: true,
+    };
+  };
+  return checked as ToolCallback<ZodRawShape>;
+}
+
+/** JSON Schema for a tool's input or output schema, as the SDK lists it. */
+function jsonSchema(schema: RegisteredTool["inputSchema"], pipeStrategy: "input" | "output"): Tool["inputSchema"] | undefined {
+  const obj = normalizeObjectSchema(schema);
+  return obj && (toJsonSchemaCompat(obj, { strictUnions: true, pipeStrategy }) as Tool["inputSchema"]);
+}
+
+/** A tool's `tools/list` entry, built the same way as the SDK's own list handler. */
+function toolDefinition(name: string, tool: RegisteredTool): Tool {
+  return {
+    name,
+    title: tool.title,
+    description: tool.description,
+    inputSchema: jsonSchema(tool.inputSchema, "input") ?? { type: "object", properties: {} },
+    outputSchema: tool.outputSchema && jsonSchema(tool.outputSchema, "output"),
+    annotations: tool.annotations,
+    execution: tool.execution,
+    _meta: tool._meta,
+  };
+}
+
+/**
+ * Enforce each tool's required scopes for callers with `access`.
+ *
+ * Replaces the server's `tools/list` handler, so call it after `tools`
+ * (keyed by name) are registered on `server`.
+ */
+export function authorizeTools(server: McpServer, tools: Record<string, RegisteredTool>, access: ToolAccess): void {
+  if (access === IN_PROCESS) return;
+
+  for (const tool of Object.values(tools)) {
+    tool.update({ callback: checkScopes(tool) });
+  }
+
+  server.server.setRequestHandler(ListToolsRequestSchema, (_request, { authInfo }) => ({
+    tools: Object.entries(tools)
+      .filter(([, tool]) => tool.enabled && missingScopes(tool._meta, authInfo).length === 0)
+      .map(([name, tool]) => toolDefinition(name, tool)),
+  }));
+}
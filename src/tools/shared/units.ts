@@ -0,0 +1,120 @@
+/**
+ * tools/shared/units.ts — Shared unit system selection and conversions.
+ *
+ * Tools accept an optional `units` argument ("metric" | "imperial").
+ * Upstream requests are made in the selected system so reports use the
+ * API's own unit labels. Assessment thresholds stay defined in imperial
+ * units (°F, mph, inches, feet); values are normalised to imperial with
+ * the helpers below before comparing.
+ */
+
+import { z } from "zod";
+
+export type UnitSystem = "metric" | "imperial";
+
+/** Default unit system when a caller does not specify one. */
+export const DEFAULT_UNITS: UnitSystem = "imperial";
+
+/**
+ * Zod schema for the optional `units` tool argument.
+ */
+export const unitsSchema = z
+  .enum(["metric", "imperial"])
+  .optional()
+  .describe("Unit system for the report: 'imperial' (°F, mph, inches; default) or 'metric' (°C, km/h, mm)");
+
+/** Display labels for each measured quantity. */
+export interface UnitLabels {
+  temperature: string;
+  windSpeed: string;
+  precipitation: string;
+  snowfall: string;
+  length: string;
+}
+
+const LABELS: Record<UnitSystem, UnitLabels> = {
+  imperial: { temperature: "°F", windSpeed: "mph", precipitation: "in", snowfall: "in", length: "ft" },
+  metric: { temperature: "°C", windSpeed: "km/h", precipitation: "mm", snowfall: "cm", length: "m" },
+};
+
+/**
+ * Open-Meteo forecast API unit parameters for a unit system.
+ */
+export function getUnitParams(units: UnitSystem): Record<string, string> {
+  return units === "metric"
+    ? { temperature_unit: "celsius", wind_speed_unit: "kmh", precipitation_unit: "mm" }
+    : { temperature_unit: "fahrenheit", wind_speed_unit: "mph", precipitation_unit: "inch" };
+}
+
+/**
+ * Open-Meteo marine API `length_unit` parameter for a unit system.
+ */
+export function getLengthUnitParam(units: UnitSystem): string {
+  return units === "metric" ? "metric" : "imperial";
+}
+
+/**
+ * Get display labels for a unit system.
+ */
+export function getUnitLabels(units: UnitSystem): UnitLabels {
+  return LABELS[units];
+}
+
+// ─── Normalise to imperial (for threshold comparisons) ───────────────────────
+
+/** Temperature in the given system → °F. */
+export function toFahrenheit(value: number, units: UnitSystem): number {
+  return units === "metric" ? value * 9 / 5 + 32 : value;
+}
+
+/** Temperature difference (e.g. dew point spread) in the given system → °F. */
+export function toFahrenheitDelta(value: number, units: UnitSystem): number {
+  return units === "metric" ? value * 9 / 5 : value;
+}
+
+/** Wind speed in the given system → mph. */
+export function toMph(value: number, units: UnitSystem): number {
+  return units === "metric" ? value / 1.609344 : value;
+}
+
+/** Precipitation depth (rain, ET₀) in the given system → inches. */
+export function toInches(value: number, units: UnitSystem): number {
+  return units === "metric" ? value / 25.4 : value;
+}
+
+/** Snowfall depth in the given system → inches (metric snowfall is in cm). */
+export function snowToInches(value: number, units: UnitSystem): number {
+  return units === "metric" ? value / 2.54 : value;
+}
+
+/** Length (wave height) in the given system → feet. */
+export function toFeet(value: number, units: UnitSystem): number {
+  return units === "metric" ? value / 0.3048 : value;
+}
+
+/** Length (wave height) in the given system → meters. */
+export function toMeters(value: number, units: UnitSystem): number {
+  return units === "metric" ? value : value * 0.3048;
+}
+
+// ─── Convert from imperial (for displaying thresholds) ───────────────────────
+
+/** °F → temperature in the given system, rounded for display. */
+export function fromFahrenheit(valueF: number, units: UnitSystem): number {
+  return units === "metric" ? Math.round((valueF - 32) * 5 / 9) : valueF;
+}
+
+/** °F difference → temperature difference in the given system, rounded for display. */
+export function fromFahrenheitDelta(valueF: number, units: UnitSystem): number {
+  return units === "metric" ? Math.round(valueF * 5 / 9 * 10) / 10 : valueF;
+}
+
+/** mph → wind speed in the given system, rounded for display. */
+export function fromMph(valueMph: number, units: UnitSystem): number {
+  return units === "metric" ? Math.round(valueMph * 1.609344) : valueMph;
+}
+
+/** Inches → precipitation depth in the given system, rounded for display. */
+export function fromInches(valueIn: number, units: UnitSystem): number {
+  return units === "metric" ? Math.round(valueIn * 25.4 * 10) / 10 : valueIn;
+}
@@ -0,0 +1,28 @@
+/**
+ * tools/shared/warming.ts — Cache-warming context for tool calls.
+ *
+ * The cache warmer replays tool calls for hot locations. Inside
+ * `runWarming`, `cachedFetchJson` treats entries that would expire before
+ * the next warming run as misses, refetches them, and marks the new
+ * entries as prewarmed — so real calls in between find them fresh.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+const storage = new AsyncLocalStorage<{ refreshWithinMs: number }>();
+
+/**
+ * Run `fn` as a warming call: cached entries expiring within
+ * `refreshWithinMs` are refreshed instead of served.
+ */
+export function runWarming<T>(refreshWithinMs: number, fn: () => Promise<T>): Promise<T> {
+  return storage.run({ refreshWithinMs }, fn);
+}
+
+/**
+ * The refresh window of the current warming call, or `undefined` for a
+ * regular tool call.
+ */
+export function warmingRefreshWindow(): number | undefined {
+  return storage.getStore()?.refreshWithinMs;
+}
@@ -3,20 +3,21 @@
  */
 
 import type { GeoResult } from "../shared/geocoding.js";
+import { formatLocationName } from "../shared/location-name.js";
 import type { SoilResponse } from "./types.js";
 import { getMoistureLevel, getPlantingRecommendation, SOIL_DEPTHS, TEMP_DEPTHS } from "./constants.js";
-import { cachedFetchJson } from "../shared/fetch.js";
+import { fetchForecastData } from "../shared/forecast-data.js";
+import { DEFAULT_UNITS, toFahrenheit, type UnitSystem } from "../shared/units.js";
 
 /**
  * Fetch current soil conditions for coordinates.
  */
 export async function fetchSoilConditions(
   latitude: number,
-  longitude: number
+  longitude: number,
+  units: UnitSystem = DEFAULT_UNITS
 ): Promise<SoilResponse> {
-  const params = new URLSearchParams({
-    latitude: latitude.toString(),
-    longitude: longitude.toString(),
+  return fetchForecastData<SoilResponse>(latitude, longitude, units, {
     hourly: [
       "soil_temperature_0cm",
       "soil_temperature_6cm",
@@ -27,14 +28,9 @@ export async function fetchSoilConditions(
       "soil_moisture_3_to_9cm",
       "soil_moisture_9_to_27cm",
       "soil_moisture_27_to_81cm",
-    ].join(","),
-    temperature_unit: "fahrenheit",
-    timezone: "auto",
-    forecast_hours: "1", // Only current hour
+    ],
+    forecastHours: 1, // Only current hour
   });
-
-  const url = `https://api.open-meteo.com/v1/forecast?${params}`;
-  return cachedFetchJson<SoilResponse>(url);
 }
 
 /**
@@ -42,12 +38,11 @@ export async function fetchSoilConditions(
  */
 export function formatSoilReport(
   location: GeoResult,
-  data: SoilResponse
+  data: SoilResponse,
+  units: UnitSystem = DEFAULT_UNITS
 ): string {
   const { hourly, hourly_units } = data;
-  const locationName = location.admin1
-    ? `${location.name}, ${location.admin1}, ${location.country}`
-    : `${location.name}, ${location.country}`;
+  const locationName = formatLocationName(location);
 
   // Get current values (first index)
   const temps = [
@@ -67,7 +62,7 @@ export function formatSoilReport(
 
   // Root zone temp (18cm) for planting recommendation
   const rootZoneTemp = temps[2];
-  const plantingRec = getPlantingRecommendation(rootZoneTemp);
+  const plantingRec = getPlantingRecommendation(toFahrenheit(rootZoneTemp, units));
 
   const lines = [
     `Soil Conditions for ${locationName}`,
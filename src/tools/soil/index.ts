@@ -4,48 +4,66 @@
  * Exports a function to register the soil conditions tool on an MCP server.
  */
 
-import { z } from "zod";
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { geocodeCity } from "../shared/geocoding.js";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
 import { fetchSoilConditions, formatSoilReport } from "./api.js";
+import { DEFAULT_UNITS, unitsSchema } from "../shared/units.js";
+import { soilOutputSchema } from "./schema.js";
 
-// Re-export types and constants for consumers
+// Re-export types, schemas and constants for consumers
 export * from "./types.js";
+export * from "./schema.js";
 export * from "./constants.js";
 
 /**
  * Register the get_soil_conditions tool on an MCP server.
  */
-export function registerSoilTool(server: McpServer): void {
-  server.tool(
+export function registerSoilTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
     "get_soil_conditions",
-    "Get current soil conditions for a location. Returns soil moisture and temperature at multiple depths, with planting recommendations.",
     {
-      city: z
-        .string()
-        .min(1, "City name cannot be empty")
-        .describe("City or location name to get soil conditions for"),
+      description:
+        "Get current soil conditions for a location. Returns soil moisture and temperature at multiple depths, with planting recommendations.",
+      inputSchema: {
+        ...locationSchema,
+        units: unitsSchema,
+      },
+      outputSchema: soilOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
     },
-    async ({ city }) => {
+    withFreshness(async ({ units = DEFAULT_UNITS, ...input }) => {
       try {
-        const location = await geocodeCity(city);
+        const resolved = await resolveLocation(input);
 
-        if (!location) {
+        if (!resolved.ok) {
           return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Could not find a location matching "${city}". Try a more specific location name.`,
-              },
-            ],
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
           };
         }
 
-        const soil = await fetchSoilConditions(location.latitude, location.longitude);
-        const report = formatSoilReport(location, soil);
+        const { location, alternatives } = resolved;
+
+        const soil = await fetchSoilConditions(location.latitude, location.longitude, units);
+        const report = formatSoilReport(location, soil, units);
 
         return {
-          content: [{ type: "text" as const, text: report }],
+          content: [{ type: "text" as const, text: appendAlternatives(report, alternatives) }],
+          structuredContent: {
+            location,
+            alternatives,
+            units,
+            timezone: soil.timezone,
+            hourly: soil.hourly,
+            hourly_units: soil.hourly_units,
+          },
         };
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -53,12 +71,12 @@ export function registerSoilTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error fetching soil conditions for "${city}": ${message}`,
+              text: `Error fetching soil conditions for "${describeLocationInput(input)}": ${message}`,
             },
           ],
           isError: true,
         };
       }
-    }
+    })
   );
 }
@@ -0,0 +1,20 @@
+/**
+ * tools/soil/schema.ts — Output schema for the soil tool.
+ */
+
+import { z } from "zod";
+import {
+  locationOutputSchema,
+  unitSystemSchema,
+  seriesBlockSchema,
+  unitLabelsSchema,
+} from "../shared/output.js";
+
+/** Structured output of get_soil_conditions. */
+export const soilOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  timezone: z.string(),
+  hourly: seriesBlockSchema,
+  hourly_units: unitLabelsSchema,
+};
@@ -1,51 +1,110 @@
 /**
- * tools/weather/api.ts — Open-Meteo API functions.
+ * tools/weather/api.ts — Geocoding and current weather API functions.
  */
 
 import type { GeoResult, GeoResponse, WeatherResponse } from "./types.js";
+import { formatLocationName } from "../shared/location-name.js";
 import { WMO_CODES } from "./constants.js";
 import { cachedFetchJson } from "../shared/fetch.js";
+import { withSpan } from "../../shared/index.js";
 import { TTL_STATIC } from "../shared/cache/index.js";
+import { DEFAULT_UNITS, type UnitSystem } from "../shared/units.js";
+import { fetchFromProvider, type ProviderId, type ProviderResult } from "../shared/providers/index.js";
+
+const GEOCODING_BASE_URL = "https://geocoding-api.open-meteo.com/v1";
+
+/**
+ * Number of candidates requested per geocoding search.
+ *
+ * Always requesting the same count means a city lookup and a
+ * `search_locations` call for the same name share one cache entry.
+ */
+export const GEOCODING_SEARCH_COUNT = 10;
 
 /**
- * Geocode a city name to coordinates.
+ * Search for locations matching a name or postal code.
+ *
+ * Returns candidates in the geocoder's ranking order (best match first),
+ * optionally restricted to an ISO-3166-1 alpha-2 country code.
  */
-export async function geocodeCity(city: string): Promise<GeoResult | null> {
-  const url = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(city)}&count=1&language=en&format=json`;
+export async function searchLocations(
+  query: string,
+  countryCode?: string
+): Promise<GeoResult[]> {
+  const params = new URLSearchParams({
+    name: query,
+    count: GEOCODING_SEARCH_COUNT.toString(),
+    language: "en",
+    format: "json",
+  });
+  if (countryCode) {
+    params.set("countryCode", countryCode.toUpperCase());
+  }
 
-  const data = await cachedFetchJson<GeoResponse>(url, { ttlMs: TTL_STATIC });
+  const url = `${GEOCODING_BASE_URL}/search?${params}`;
+  return withSpan("searchLocations", { "geocode.query": query, "geocode.country_code": countryCode ?? "" }, async (span) => {
+    const data = await cachedFetchJson<GeoResponse>(url, { ttlMs: TTL_STATIC });
+    const results = data.results ?? [];
+    span.setAttribute("geocode.result_count", results.length);
+    return results;
+  });
+}
 
-  if (!data.results || data.results.length === 0) {
+/**
+ * Geocode a city name to coordinates (best match only).
+ *
+ * Optionally restricted to an ISO-3166-1 alpha-2 country code.
+ */
+export async function geocodeCity(
+  city: string,
+  countryCode?: string
+): Promise<GeoResult | null> {
+  const results = await searchLocations(city, countryCode);
+  return results[0] ?? null;
+}
+
+/**
+ * Geocode a postal code within a country to coordinates.
+ */
+export async function geocodePostalCode(
+  postalCode: string,
+  countryCode: string
+): Promise<GeoResult | null> {
+  return geocodeCity(postalCode, countryCode);
+}
+
+/**
+ * Look up a geocoder result by its ID (as returned in `GeoResult.id`).
+ */
+export async function getLocationById(id: number): Promise<GeoResult | null> {
+  const url = `${GEOCODING_BASE_URL}/get?id=${id}`;
+  const data = await cachedFetchJson<GeoResult>(url, { ttlMs: TTL_STATIC });
+
+  if (data.latitude === undefined || data.longitude === undefined) {
     return null;
   }
 
-  return data.results[0];
+  return data;
 }
 
 /**
  * Fetch current weather for coordinates.
+ *
+ * Uses the requested provider, or the configured default with fallback.
  */
 export async function fetchWeather(
   latitude: number,
-  longitude: number
-): Promise<WeatherResponse> {
-  const params = new URLSearchParams({
-    latitude: latitude.toString(),
-    longitude: longitude.toString(),
-    current: [
-      "temperature_2m",
-      "relative_humidity_2m",
-      "apparent_temperature",
-      "wind_speed_10m",
-      "wind_direction_10m",
-      "weather_code",
-    ].join(","),
-    temperature_unit: "fahrenheit",
-    wind_speed_unit: "mph",
-  });
-
-  const url = `https://api.open-meteo.com/v1/forecast?${params}`;
-  return cachedFetchJson<WeatherResponse>(url);
+  longitude: number,
+  units: UnitSystem = DEFAULT_UNITS,
+  provider?: ProviderId
+): Promise<ProviderResult<WeatherResponse>> {
+  return fetchFromProvider(
+    "current",
+    latitude,
+    longitude,
+    (p) => p.getCurrentWeather(latitude, longitude, units),
+    provider
+  );
 }
 
 /**
@@ -60,9 +119,7 @@ export function formatWeatherReport(
     WMO_CODES[current.weather_code] ??
     `Unknown (code ${current.weather_code})`;
 
-  const locationName = location.admin1
-    ? `${location.name}, ${location.admin1}, ${location.country}`
-    : `${location.name}, ${location.country}`;
+  const locationName = formatLocationName(location);
 
   const lonDirection = location.longitude >= 0 ? "E" : "W";
   const latDirection = location.latitude >= 0 ? "N" : "S";
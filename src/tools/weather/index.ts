@@ -6,49 +6,73 @@
  * enabling submounting and composition.
  */
 
-import { z } from "zod";
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { geocodeCity, fetchWeather, formatWeatherReport } from "./api.js";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
+import { fetchWeather, formatWeatherReport } from "./api.js";
+import { DEFAULT_UNITS, unitsSchema } from "../shared/units.js";
+import { providerSchema, formatProviderSource } from "../shared/providers/index.js";
+import { weatherOutputSchema } from "./schema.js";
 
-// Re-export types and constants for consumers
+// Re-export types, schemas and constants for consumers
 export * from "./types.js";
+export * from "./schema.js";
 export * from "./constants.js";
 
 /**
  * Register the get_weather tool on an MCP server.
  */
-export function registerWeatherTool(server: McpServer): void {
-  server.tool(
+export function registerWeatherTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
     "get_weather",
-    "Get current weather conditions for a city. Returns temperature, humidity, wind, and conditions.",
     {
-      city: z
-        .string()
-        .min(1, "City name cannot be empty")
-        .describe(
-          "City name to get weather for (e.g., 'London', 'Tokyo', 'New York')"
-        ),
+      description:
+        "Get current weather conditions for a city. Returns temperature, humidity, wind, and conditions.",
+      inputSchema: {
+        ...locationSchema,
+        units: unitsSchema,
+        provider: providerSchema,
+      },
+      outputSchema: weatherOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
     },
-    async ({ city }) => {
+    withFreshness(async ({ units = DEFAULT_UNITS, provider, ...input }) => {
       try {
-        const location = await geocodeCity(city);
+        const resolved = await resolveLocation(input);
 
-        if (!location) {
+        if (!resolved.ok) {
           return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Could not find a location matching "${city}". Try a more specific city name.`,
-              },
-            ],
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
           };
         }
 
-        const weather = await fetchWeather(location.latitude, location.longitude);
-        const report = formatWeatherReport(location, weather);
+        const { location, alternatives } = resolved;
+
+        const { data: weather, provider: source } = await fetchWeather(
+          location.latitude,
+          location.longitude,
+          units,
+          provider
+        );
+        const report = `${formatWeatherReport(location, weather)}\n\n${formatProviderSource(source)}`;
 
         return {
-          content: [{ type: "text" as const, text: report }],
+          content: [{ type: "text" as const, text: appendAlternatives(report, alternatives) }],
+          structuredContent: {
+            location,
+            alternatives,
+            units,
+            provider: source,
+            current: weather.current,
+            current_units: weather.current_units,
+          },
         };
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -56,12 +80,12 @@ export function registerWeatherTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error fetching weather for "${city}": ${message}`,
+              text: `Error fetching weather for "${describeLocationInput(input)}": ${message}`,
             },
           ],
           isError: true,
         };
       }
-    }
+    })
   );
 }
@@ -0,0 +1,20 @@
+/**
+ * tools/weather/schema.ts — Output schema for the weather tool.
+ */
+
+import {
+  locationOutputSchema,
+  unitSystemSchema,
+  providerIdSchema,
+  currentBlockSchema,
+  unitLabelsSchema,
+} from "../shared/output.js";
+
+/** Structured output of get_weather. */
+export const weatherOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  provider: providerIdSchema,
+  current: currentBlockSchema,
+  current_units: unitLabelsSchema,
+};
@@ -3,11 +3,26 @@
  */
 
 export interface GeoResult {
+  id?: number; // geocoder result ID, stable across lookups
   name: string;
   latitude: number;
   longitude: number;
   country: string;
+  country_code?: string; // ISO-3166-1 alpha-2
   admin1?: string; // state/province
+  admin2?: string; // county/district
+  elevation?: number; // meters
+  population?: number;
+  timezone?: string;
+  feature_code?: string; // GeoNames feature code (e.g., PPLC = capital)
+  gridRounding?: GridRounding; // set when latitude/longitude were rounded to the grid
+}
+
+/** Coordinates as given, before rounding to the coordinate grid. */
+export interface GridRounding {
+  latitude: number;
+  longitude: number;
+  gridDegrees: number;
 }
 
 export interface GeoResponse {
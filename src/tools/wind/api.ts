@@ -3,31 +3,27 @@
  */
 
 import type { GeoResult } from "../shared/geocoding.js";
+import { formatLocationName } from "../shared/location-name.js";
 import type { WindResponse } from "./types.js";
 import { getBeaufortScale, getCardinalDirection, WIND_ADVISORIES } from "./constants.js";
-import { cachedFetchJson } from "../shared/fetch.js";
+import { fetchForecastData } from "../shared/forecast-data.js";
+import { DEFAULT_UNITS, toMph, type UnitSystem } from "../shared/units.js";
 
 /**
  * Fetch wind data for coordinates.
  */
 export async function fetchWindData(
   latitude: number,
-  longitude: number
+  longitude: number,
+  units: UnitSystem = DEFAULT_UNITS
 ): Promise<WindResponse> {
-  const params = new URLSearchParams({
-    latitude: latitude.toString(),
-    longitude: longitude.toString(),
-    current: ["wind_speed_10m", "wind_direction_10m", "wind_gusts_10m"].join(","),
-    hourly: ["wind_speed_10m", "wind_direction_10m", "wind_gusts_10m"].join(","),
-    daily: ["wind_speed_10m_max", "wind_gusts_10m_max", "wind_direction_10m_dominant"].join(","),
-    wind_speed_unit: "mph",
-    timezone: "auto",
-    forecast_days: "7",
-    forecast_hours: "24",
+  return fetchForecastData<WindResponse>(latitude, longitude, units, {
+    current: ["wind_speed_10m", "wind_direction_10m", "wind_gusts_10m"],
+    hourly: ["wind_speed_10m", "wind_direction_10m", "wind_gusts_10m"],
+    daily: ["wind_speed_10m_max", "wind_gusts_10m_max", "wind_direction_10m_dominant"],
+    forecastDays: 7,
+    forecastHours: 24,
   });
-
-  const url = `https://api.open-meteo.com/v1/forecast?${params}`;
-  return cachedFetchJson<WindResponse>(url);
 }
 
 /**
@@ -35,14 +31,16 @@ export async function fetchWindData(
  */
 export function formatWindReport(
   location: GeoResult,
-  data: WindResponse
+  data: WindResponse,
+  units: UnitSystem = DEFAULT_UNITS
 ): string {
   const { current, current_units, hourly, hourly_units, daily, daily_units } = data;
-  const locationName = location.admin1
-    ? `${location.name}, ${location.admin1}, ${location.country}`
-    : `${location.name}, ${location.country}`;
+  const locationName = formatLocationName(location);
 
-  const beaufort = getBeaufortScale(current.wind_speed_10m);
+  // Beaufort scale and advisories are defined in mph
+  const speedMph = toMph(current.wind_speed_10m, units);
+  const gustsMph = toMph(current.wind_gusts_10m, units);
+  const beaufort = getBeaufortScale(speedMph);
   const direction = getCardinalDirection(current.wind_direction_10m);
 
   const lines = [
@@ -60,14 +58,14 @@ export function formatWindReport(
 
   // Add warnings if applicable
   const warnings: string[] = [];
-  if (current.wind_speed_10m >= WIND_ADVISORIES.HIGH_WIND_WARNING) {
+  if (speedMph >= WIND_ADVISORIES.HIGH_WIND_WARNING) {
     warnings.push("HIGH WIND WARNING: Dangerous wind speeds");
-  } else if (current.wind_speed_10m >= WIND_ADVISORIES.WIND_ADVISORY) {
+  } else if (speedMph >= WIND_ADVISORIES.WIND_ADVISORY) {
     warnings.push("WIND ADVISORY: Strong winds expected");
   }
-  if (current.wind_gusts_10m >= WIND_ADVISORIES.GUST_WARNING) {
+  if (gustsMph >= WIND_ADVISORIES.GUST_WARNING) {
     warnings.push("GUST WARNING: Dangerous gusts");
-  } else if (current.wind_gusts_10m >= WIND_ADVISORIES.GUST_ADVISORY) {
+  } else if (gustsMph >= WIND_ADVISORIES.GUST_ADVISORY) {
     warnings.push("GUST ADVISORY: Strong gusts expected");
   }
 
@@ -106,7 +104,7 @@ export function formatWindReport(
     const maxSpeed = daily.wind_speed_10m_max[i];
     const maxGusts = daily.wind_gusts_10m_max[i];
     const domDir = getCardinalDirection(daily.wind_direction_10m_dominant[i]);
-    const dayBeaufort = getBeaufortScale(maxSpeed);
+    const dayBeaufort = getBeaufortScale(toMph(maxSpeed, units));
     lines.push(`${date}: Max ${maxSpeed} ${daily_units.wind_speed_10m_max} from ${domDir}, gusts ${maxGusts} (${dayBeaufort.description})`);
   }
 
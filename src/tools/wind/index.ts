@@ -4,48 +4,70 @@
  * Exports a function to register the wind tool on an MCP server.
  */
 
-import { z } from "zod";
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { geocodeCity } from "../shared/geocoding.js";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  locationSchema,
+  resolveLocation,
+  describeLocationInput,
+  appendAlternatives,
+} from "../shared/location.js";
+import { withFreshness } from "../shared/freshness.js";
+import { requiredScopes, TOOL_SCOPES } from "../shared/scopes.js";
 import { fetchWindData, formatWindReport } from "./api.js";
+import { DEFAULT_UNITS, unitsSchema } from "../shared/units.js";
+import { windOutputSchema } from "./schema.js";
 
-// Re-export types and constants for consumers
+// Re-export types, schemas and constants for consumers
 export * from "./types.js";
+export * from "./schema.js";
 export * from "./constants.js";
 
 /**
  * Register the get_wind tool on an MCP server.
  */
-export function registerWindTool(server: McpServer): void {
-  server.tool(
+export function registerWindTool(server: McpServer): RegisteredTool {
+  return server.registerTool(
     "get_wind",
-    "Get wind conditions for a city. Returns current wind speed, direction, gusts, Beaufort scale, plus 24-hour and 7-day forecasts.",
     {
-      city: z
-        .string()
-        .min(1, "City name cannot be empty")
-        .describe("City name to get wind data for (e.g., 'Chicago', 'Wellington')"),
+      description:
+        "Get wind conditions for a city. Returns current wind speed, direction, gusts, Beaufort scale, plus 24-hour and 7-day forecasts.",
+      inputSchema: {
+        ...locationSchema,
+        units: unitsSchema,
+      },
+      outputSchema: windOutputSchema,
+      _meta: requiredScopes(TOOL_SCOPES.weatherRead),
     },
-    async ({ city }) => {
+    withFreshness(async ({ units = DEFAULT_UNITS, ...input }) => {
       try {
-        const location = await geocodeCity(city);
+        const resolved = await resolveLocation(input);
 
-        if (!location) {
+        if (!resolved.ok) {
           return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Could not find a location matching "${city}". Try a more specific city name.`,
-              },
-            ],
+            content: [{ type: "text" as const, text: resolved.message }],
+            isError: true,
           };
         }
 
-        const windData = await fetchWindData(location.latitude, location.longitude);
-        const report = formatWindReport(location, windData);
+        const { location, alternatives } = resolved;
+
+        const windData = await fetchWindData(location.latitude, location.longitude, units);
+        const report = formatWindReport(location, windData, units);
 
         return {
-          content: [{ type: "text" as const, text: report }],
+          content: [{ type: "text" as const, text: appendAlternatives(report, alternatives) }],
+          structuredContent: {
+            location,
+            alternatives,
+            units,
+            timezone: windData.timezone,
+            current: windData.current,
+            current_units: windData.current_units,
+            hourly: windData.hourly,
+            hourly_units: windData.hourly_units,
+            daily: windData.daily,
+            daily_units: windData.daily_units,
+          },
         };
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -53,12 +75,12 @@ export function registerWindTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error fetching wind data for "${city}": ${message}`,
+              text: `Error fetching wind data for "${describeLocationInput(input)}": ${message}`,
             },
           ],
           isError: true,
         };
       }
-    }
+    })
   );
 }
@@ -0,0 +1,25 @@
+/**
+ * tools/wind/schema.ts — Output schema for the wind tool.
+ */
+
+import { z } from "zod";
+import {
+  locationOutputSchema,
+  unitSystemSchema,
+  currentBlockSchema,
+  seriesBlockSchema,
+  unitLabelsSchema,
+} from "../shared/output.js";
+
+/** Structured output of get_wind. */
+export const windOutputSchema = {
+  ...locationOutputSchema,
+  units: unitSystemSchema,
+  timezone: z.string(),
+  current: currentBlockSchema,
+  current_units: unitLabelsSchema,
+  hourly: seriesBlockSchema,
+  hourly_units: unitLabelsSchema,
+  daily: seriesBlockSchema,
+  daily_units: unitLabelsSchema,
+};
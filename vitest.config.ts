@@ -9,6 +9,7 @@ export default defineConfig({
       SERVER_URL: "http://localhost:3000",
       NODE_ENV: "test",
       LOG_LEVEL: "fatal",
+      UPSTREAM_RETRY_BASE_MS: "1",
     },
   },
 });